@@ -16,8 +16,57 @@ import {
   BlogPostContentUpdate,
   FileUploadParams,
   FileUploadResponse,
+  ImageProcessingOptions,
+  ImageVariant,
+  FileDetails,
+  FileSearchParams,
+  FileFolder,
+  FileReplaceParams,
+  FileReplaceResult,
+  FileUsage,
+  FileUsageReport,
+  FolderCreateParams,
+  FolderUpdateParams,
   BlogTag,
   PreviewUrlParams,
+  PreviewLink,
+  CloneContentParams,
+  CloneContentResult,
+  InboundReference,
+  InboundLinkReport,
+  DeleteContentResult,
+  AbTestVariationResult,
+  LanguageVariationParams,
+  BlogAuthor,
+  Blog,
+  UrlRedirect,
+  UrlRedirectCreateParams,
+  UrlRedirectUpdateParams,
+  SlugRedirectResult,
+  HubDbTable,
+  HubDbRow,
+  HubDbRowListParams,
+  HubDbRowWrite,
+  HubDbRowWriteResult,
+  HubDbPublishResult,
+  GlobalContent,
+  GlobalContentUsage,
+  GlobalContentStructure,
+  GlobalContentUpdateParams,
+  GlobalContentWriteResult,
+  SourceCodeEnvironment,
+  SourceCodeMetadata,
+  SourceCodeFile,
+  SourceCodeValidation,
+  TemplateUsage,
+  SourceCodeWriteResult,
+  BlogTagResolution,
+  BlogTagMergeResult,
+  BlogTagDeleteResult,
+  BlogAuthorCreateParams,
+  BlogAuthorUpdateParams,
+  TranslationGroup,
+  TranslationSyncResult,
   Page,
   PageListParams,
   PageUpdateMetadata,
@@ -31,20 +80,39 @@ import {
   WidgetRemoveParams,
   WidgetReorderParams,
   PageContentUpdate,
-  StructuralValidation
+  StructuralValidation,
+  ContentType,
+  ContentRevision,
+  RevisionListParams,
+  FieldChange,
+  WidgetChange,
+  ContentDiff,
+  JournalEntry,
+  UndoOperationResult,
+  WriteOptions,
+  DryRunPreview
 } from './types.js';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import path from 'path';
 import { RateLimiter } from './rate-limiter.js';
+import { OperationJournal } from './journal.js';
+import { ImageProcessor, ProcessedImage, ProcessedImageFile } from './image-processor.js';
 import { logger } from './logger.js';
 
 export class HubSpotClient {
   private config: HubSpotConfig;
   private rateLimiter: RateLimiter;
+  private journal: OperationJournal;
+  private imageProcessor: ImageProcessor;
   private baseUrl = 'https://api.hubapi.com';
   private maxRetries = 4;
 
   constructor(config: HubSpotConfig) {
     this.config = config;
     this.rateLimiter = new RateLimiter(config.rateLimitSafetyMargin);
+    this.journal = new OperationJournal(config.journalDir, config.journalMaxEntries);
+    this.imageProcessor = new ImageProcessor();
   }
 
   /**
@@ -71,7 +139,10 @@ export class HubSpotClient {
     const url = `${this.baseUrl}${endpoint}`;
     const headers = new Headers(options.headers);
     headers.set('Authorization', `Bearer ${this.config.accessToken}`);
-    headers.set('Content-Type', 'application/json');
+    // Multipart bodies set their own Content-Type with the boundary
+    if (!(options.body instanceof FormData)) {
+      headers.set('Content-Type', 'application/json');
+    }
 
     logger.debug(`Request: ${options.method || 'GET'} ${endpoint}`, {
       attempt,
@@ -97,7 +168,11 @@ export class HubSpotClient {
         return this.request<T>(endpoint, options, attempt + 1);
       }
 
-      const responseData = await response.json().catch(() => ({}));
+      // Source code files come back as raw text; everything else is JSON
+      const contentType = response.headers.get('content-type');
+      const responseData = response.ok && contentType && !contentType.includes('json')
+        ? await response.text()
+        : await response.json().catch(() => ({}));
 
       if (!response.ok) {
         const error = this.parseError(response, responseData);
@@ -195,6 +270,103 @@ export class HubSpotClient {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Check whether a write should be skipped
+   * The server-wide HUBSPOT_DRY_RUN switch cannot be overridden per call
+   */
+  private isDryRun(writeOptions: WriteOptions): boolean {
+    return this.config.dryRun || writeOptions.dryRun === true;
+  }
+
+  /**
+   * Helper: Optimistic concurrency guard for fetch-first writes
+   * Only runs when the caller passed expectedUpdated. Fails if the content was
+   * already newer when we fetched it, or changed again between our fetch and
+   * the write (re-checked with refetch right before writing).
+   */
+  private async checkConcurrentModification(
+    opId: number,
+    contentType: ContentType,
+    baseline: BlogPost | Page,
+    writeOptions: WriteOptions,
+    refetch: () => Promise<HubSpotResponse<BlogPost | Page>>
+  ): Promise<HubSpotError | null> {
+    const expectedUpdated = writeOptions.expectedUpdated;
+    if (!expectedUpdated) return null;
+
+    const sameTime = (a?: string, b?: string) => !!a && !!b && Date.parse(a) === Date.parse(b);
+
+    const conflictError = (actualUpdated?: string, diff?: ContentDiff): HubSpotError => {
+      logger.warn('Concurrent modification detected', { opId, expectedUpdated, actualUpdated });
+      return {
+        status: 'CONCURRENT_MODIFICATION',
+        message: `Content was modified after you read it (expected updated=${expectedUpdated}, found ${actualUpdated || 'unknown'}). Nothing was written. Re-fetch the content and re-apply your change.`,
+        correlationId: String(opId),
+        conflict: {
+          expectedUpdated,
+          actualUpdated,
+          diff,
+          changes: diff
+            ? this.formatDiff(diff)
+            : ['The content was already newer when this request started, and no revision matches expectedUpdated. Use hubspot_list_revisions and hubspot_diff_revisions to see what changed.']
+        }
+      };
+    };
+
+    // The caller's read was already stale when we fetched: diff the version they read against now
+    if (!sameTime(baseline.updated, expectedUpdated)) {
+      const readRevision = await this.findRevisionAt(contentType, baseline.id, expectedUpdated);
+      return conflictError(baseline.updated, readRevision ? this.diffContent(readRevision.object, baseline) : undefined);
+    }
+
+    // Re-check right before writing
+    const latestResponse = await refetch();
+    if (!latestResponse.success || !latestResponse.data) {
+      return latestResponse.error || {
+        status: 'NOT_FOUND',
+        message: 'Failed to re-fetch content for concurrency check',
+        correlationId: String(opId)
+      };
+    }
+
+    if (!sameTime(latestResponse.data.updated, expectedUpdated)) {
+      return conflictError(latestResponse.data.updated, this.diffContent(baseline, latestResponse.data));
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the response for a write skipped by dry-run mode
+   * When beforeState is given, afterState (default: the payload) is diffed against it.
+   * A null beforeState marks a create, where every payload field is new.
+   */
+  private dryRunResponse<T>(
+    opId: number,
+    preview: Omit<DryRunPreview, 'changes' | 'diff'> & {
+      beforeState?: BlogPost | Page | null;
+      afterState?: BlogPost | Page;
+      changes?: string[];
+    }
+  ): HubSpotResponse<T> {
+    const { beforeState, afterState, changes, ...request } = preview;
+    const diff = beforeState === null
+      ? this.diffNewContent(request.payload)
+      : beforeState ? this.diffContent(beforeState, afterState || request.payload) : undefined;
+
+    logger.info('Dry run: skipping write', { opId, method: request.method, endpoint: request.endpoint });
+
+    return {
+      success: true,
+      dryRun: {
+        ...request,
+        diff,
+        changes: changes || (diff ? this.formatDiff(diff) : [])
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
   /**
    * Validate token and get connection information
    * For Private App tokens, we validate by making a test API call to get account details
@@ -219,6 +391,7 @@ export class HubSpotClient {
     if (params.offset) queryParams.set('offset', params.offset.toString());
 
     // Add filters using double-underscore syntax
+    if (params.contentGroupId) queryParams.set('contentGroupId', params.contentGroupId);
     if (params.state) queryParams.set('state', params.state);
     if (params.authorName) queryParams.set('authorName__icontains', params.authorName);
     if (params.name) queryParams.set('name__icontains', params.name);
@@ -232,6 +405,42 @@ export class HubSpotClient {
     return this.request<PaginatedResponse<BlogPost>>(endpoint, { method: 'GET' });
   }
 
+  /**
+   * List the blogs (content groups) in the portal
+   * Output: Every blog with id, name, root URL and language
+   * Implementation: GET /cms/v3/blog-settings/settings, following paging.next.after until exhausted
+   * Purpose: Pick the right contentGroupId on multi-blog portals
+   */
+  async listBlogs(): Promise<HubSpotResponse<PaginatedResponse<Blog>>> {
+    logger.info('Fetching blogs');
+
+    const results: Blog[] = [];
+    let after: string | undefined;
+
+    do {
+      const queryParams = new URLSearchParams();
+      queryParams.set('limit', '100');
+      if (after) queryParams.set('after', after);
+
+      const response = await this.request<PaginatedResponse<Blog>>(
+        `/cms/v3/blog-settings/settings?${queryParams.toString()}`,
+        { method: 'GET' }
+      );
+      if (!response.success || !response.data) {
+        return response;
+      }
+
+      results.push(...response.data.results);
+      after = response.data.paging?.next?.after;
+    } while (after);
+
+    return {
+      success: true,
+      data: { total: results.length, results },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
   /**
    * Get complete blog post details
    */
@@ -246,11 +455,24 @@ export class HubSpotClient {
    */
   async updateBlogPostMetadata(
     postId: string,
-    metadata: BlogPostUpdateMetadata
+    metadata: BlogPostUpdateMetadata,
+    writeOptions: WriteOptions = {}
   ): Promise<HubSpotResponse<BlogPost>> {
     const opId = logger.getNextOperationId();
     logger.info('Starting metadata update with fetch-first pattern', { opId, postId });
 
+    // Tag names are resolved to ids and never sent to HubSpot themselves
+    const { tagNames, createMissingTags, createRedirect, ...fields } = metadata;
+    let pendingTags: string[] = [];
+    if (tagNames && tagNames.length > 0) {
+      const tagsResponse = await this.resolveTagParams(opId, fields.tagIds, tagNames, createMissingTags);
+      if (!tagsResponse.success || !tagsResponse.data) {
+        return { success: false, error: tagsResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      fields.tagIds = tagsResponse.data.tagIds;
+      pendingTags = tagsResponse.data.pendingTags;
+    }
+
     // STEP 1: Fetch current state
     const currentResponse = await this.getBlogPost(postId);
     if (!currentResponse.success || !currentResponse.data) {
@@ -261,10 +483,14 @@ export class HubSpotClient {
     const beforeState = currentResponse.data;
     logger.info('Fetched current state', { opId, postId });
 
+    const redirectPlan = createRedirect && fields.slug !== undefined && fields.slug !== beforeState.slug
+      ? this.planSlugRedirect(beforeState, fields.slug)
+      : undefined;
+
     // STEP 2: Merge metadata (explicitly exclude postBody)
     const updatedPost = {
       ...beforeState,
-      ...metadata,
+      ...fields,
       // Ensure we never touch the post body
       postBody: beforeState.postBody,
       // Preserve critical nested structures
@@ -273,6 +499,34 @@ export class HubSpotClient {
       layoutSections: beforeState.layoutSections
     };
 
+    const conflict = await this.checkConcurrentModification(
+      opId, 'blog-post', beforeState, writeOptions, () => this.getBlogPost(postId)
+    );
+    if (conflict) {
+      return {
+        success: false,
+        error: conflict,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (this.isDryRun(writeOptions)) {
+      return this.withRedirectPlan(redirectPlan, this.withPendingTags(pendingTags, this.dryRunResponse<BlogPost>(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/blogs/posts/${postId}/draft`,
+        payload: updatedPost,
+        beforeState
+      })));
+    }
+
+    if (pendingTags.length > 0) {
+      const createdResponse = await this.createPendingTags(opId, updatedPost.tagIds, pendingTags);
+      if (!createdResponse.success || !createdResponse.data) {
+        return { success: false, error: createdResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      updatedPost.tagIds = createdResponse.data;
+    }
+
     // STEP 3: PATCH to draft endpoint
     logger.info('Updating draft with merged data', { opId, postId });
     const response = await this.request<BlogPost>(
@@ -290,6 +544,18 @@ export class HubSpotClient {
         beforeState,
         response.data
       );
+
+      if (redirectPlan) {
+        response.redirect = await this.createSlugRedirect(opId, redirectPlan);
+      }
+
+      response.operationId = await this.journal.record({
+        operation: 'update_blog_post_metadata',
+        contentType: 'blog-post',
+        contentId: postId,
+        details: { metadata, redirectId: response.redirect?.redirect?.id },
+        beforeState
+      }, opId);
     }
 
     return response;
@@ -301,7 +567,8 @@ export class HubSpotClient {
    */
   async publishBlogPostDraft(
     postId: string,
-    options: PublishOptions = {}
+    options: PublishOptions = {},
+    writeOptions: WriteOptions = {}
   ): Promise<HubSpotResponse<BlogPost>> {
     const opId = logger.getNextOperationId();
     logger.info('Publishing blog post draft', { opId, postId, options });
@@ -317,6 +584,19 @@ export class HubSpotClient {
       body.publishDate = options.publishDate;
     }
 
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogPost>(opId, {
+        method: 'POST',
+        endpoint: `/cms/v3/blogs/posts/${postId}/draft/push-live`,
+        payload: Object.keys(body).length > 0 ? body : undefined,
+        changes: [
+          options.publishDate
+            ? `Schedule draft of "${beforeState?.name || postId}" to go live at ${options.publishDate}`
+            : `Publish draft of "${beforeState?.name || postId}" live immediately`
+        ]
+      });
+    }
+
     const response = await this.request<BlogPost>(
       `/cms/v3/blogs/posts/${postId}/draft/push-live`,
       {
@@ -356,11 +636,64 @@ export class HubSpotClient {
    * Purpose: AI-assisted content creation starting from draft
    */
   async createBlogPost(
-    params: BlogPostCreateParams
+    params: BlogPostCreateParams,
+    writeOptions: WriteOptions = {}
   ): Promise<HubSpotResponse<BlogPost>> {
     const opId = logger.getNextOperationId();
     logger.info('Creating blog post draft', { opId, params });
 
+    // Never guess the blog on a multi-blog portal
+    let contentGroupId = params.contentGroupId;
+    if (!contentGroupId) {
+      const blogsResponse = await this.listBlogs();
+      if (!blogsResponse.success || !blogsResponse.data) {
+        return { success: false, error: blogsResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+
+      const blogs = blogsResponse.data.results;
+      if (blogs.length > 1) {
+        return {
+          success: false,
+          error: {
+            status: 'BLOG_REQUIRED',
+            message: `This portal has ${blogs.length} blogs, so contentGroupId is required: ${blogs.map(blog => `"${blog.name}" (${blog.id}${blog.language ? `, ${blog.language}` : ''})`).join(', ')}.`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+      if (blogs.length === 1) {
+        contentGroupId = blogs[0].id;
+      }
+    }
+
+    // Resolve an author name/email to an id
+    let blogAuthorId = params.blogAuthorId;
+    if (!blogAuthorId && params.author) {
+      const authorResponse = await this.resolveBlogAuthor(params.author);
+      if (!authorResponse.success || !authorResponse.data) {
+        return {
+          success: false,
+          error: authorResponse.error && { ...authorResponse.error, correlationId: String(opId) },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+      blogAuthorId = authorResponse.data.id;
+      logger.info('Resolved blog author', { opId, author: params.author, blogAuthorId });
+    }
+
+    // Resolve tag names to ids
+    let tagIds = params.tagIds;
+    let pendingTags: string[] = [];
+    if (params.tagNames && params.tagNames.length > 0) {
+      const tagsResponse = await this.resolveTagParams(opId, tagIds, params.tagNames, params.createMissingTags);
+      if (!tagsResponse.success || !tagsResponse.data) {
+        return { success: false, error: tagsResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      tagIds = tagsResponse.data.tagIds;
+      pendingTags = tagsResponse.data.pendingTags;
+    }
+
     // Build request body with DRAFT state
     const requestBody: any = {
       name: params.name,
@@ -369,19 +702,36 @@ export class HubSpotClient {
     };
 
     // Add optional fields
-    if (params.contentGroupId) requestBody.contentGroupId = params.contentGroupId;
-    if (params.blogAuthorId) requestBody.blogAuthorId = params.blogAuthorId;
+    if (contentGroupId) requestBody.contentGroupId = contentGroupId;
+    if (blogAuthorId) requestBody.blogAuthorId = blogAuthorId;
     if (params.htmlTitle) requestBody.htmlTitle = params.htmlTitle;
     if (params.postBody) requestBody.postBody = params.postBody;
     if (params.postSummary) requestBody.postSummary = params.postSummary;
     if (params.metaDescription) requestBody.metaDescription = params.metaDescription;
-    if (params.tagIds && params.tagIds.length > 0) requestBody.tagIds = params.tagIds;
+    if (tagIds && tagIds.length > 0) requestBody.tagIds = tagIds;
     if (params.featuredImage) {
       requestBody.useFeaturedImage = true;
       requestBody.featuredImage = params.featuredImage;
     }
     if (params.featuredImageAltText) requestBody.featuredImageAltText = params.featuredImageAltText;
 
+    if (this.isDryRun(writeOptions)) {
+      return this.withPendingTags(pendingTags, this.dryRunResponse<BlogPost>(opId, {
+        method: 'POST',
+        endpoint: '/cms/v3/blogs/posts',
+        payload: requestBody,
+        beforeState: null
+      }));
+    }
+
+    if (pendingTags.length > 0) {
+      const createdResponse = await this.createPendingTags(opId, requestBody.tagIds, pendingTags);
+      if (!createdResponse.success || !createdResponse.data) {
+        return { success: false, error: createdResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      requestBody.tagIds = createdResponse.data;
+    }
+
     const response = await this.request<BlogPost>(
       '/cms/v3/blogs/posts',
       {
@@ -412,7 +762,8 @@ export class HubSpotClient {
    */
   async updateBlogPostContent(
     postId: string,
-    content: BlogPostContentUpdate
+    content: BlogPostContentUpdate,
+    writeOptions: WriteOptions = {}
   ): Promise<HubSpotResponse<BlogPost>> {
     const opId = logger.getNextOperationId();
     logger.info('Starting content update with fetch-first pattern', { opId, postId });
@@ -438,6 +789,26 @@ export class HubSpotClient {
       updatedPost.postSummary = content.postSummary;
     }
 
+    const conflict = await this.checkConcurrentModification(
+      opId, 'blog-post', beforeState, writeOptions, () => this.getBlogPost(postId)
+    );
+    if (conflict) {
+      return {
+        success: false,
+        error: conflict,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogPost>(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/blogs/posts/${postId}/draft`,
+        payload: updatedPost,
+        beforeState
+      });
+    }
+
     // STEP 3: PATCH to draft endpoint with complete object
     logger.info('Updating draft with new content', { opId, postId });
     const response = await this.request<BlogPost>(
@@ -455,6 +826,14 @@ export class HubSpotClient {
         beforeState,
         response.data
       );
+
+      response.operationId = await this.journal.record({
+        operation: 'update_blog_post_content',
+        contentType: 'blog-post',
+        contentId: postId,
+        details: { contentLength: content.postBody.length },
+        beforeState
+      }, opId);
     }
 
     return response;
@@ -463,53 +842,194 @@ export class HubSpotClient {
   /**
    * Upload a file to HubSpot File Manager
    * Inputs: file_path or file_url, folder_path, access_level, file_name
-   * Output: File URL for use in content
-   * Implementation: POST /files/v3/files with multipart/form-data
+   * Output: File URL for use in content; with imageProcessing, every variant's URL and dimensions plus a srcset
+   * Implementation: optional resize/convert into variants → per file: sha256 the bytes → look for the same file
+   *                 in the target folder → POST /files/v3/files with multipart/form-data
+   * Safety: duplicateStrategy (default reuse) stops repeated workflows from filling File Manager with copies
    * Purpose: Asset management for AI-generated or selected images
    */
   async uploadFile(
-    params: FileUploadParams
+    params: FileUploadParams,
+    writeOptions: WriteOptions = {}
   ): Promise<HubSpotResponse<FileUploadResponse>> {
     const opId = logger.getNextOperationId();
-    logger.info('Uploading file to HubSpot', { opId, fileName: params.fileName });
+    const fileName = params.fileName || (params.filePath ? path.basename(params.filePath) : undefined);
+    logger.info('Uploading file to HubSpot', { opId, fileName, filePath: params.filePath });
 
-    // Note: For file uploads, we need to use multipart/form-data
-    // This is a simplified implementation that assumes the file content is base64 encoded
-    // In a production environment, you might want to handle file streams differently
+    const uploadError = (status: string, message: string): HubSpotResponse<FileUploadResponse> => ({
+      success: false,
+      error: { status, message, correlationId: String(opId) },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    });
 
-    const formData = new FormData();
+    if (!fileName) {
+      return uploadError('INVALID_PARAMS', 'fileName is required unless uploading from filePath');
+    }
 
-    // Convert base64 to blob if needed
-    let fileBlob: Blob;
-    if (params.fileContent.startsWith('http://') || params.fileContent.startsWith('https://')) {
-      // If it's a URL, fetch the file first
-      try {
-        const fileResponse = await fetch(params.fileContent);
-        fileBlob = await fileResponse.blob();
-      } catch (error) {
-        logger.error('Failed to fetch file from URL', { opId, url: params.fileContent, error });
+    const blobResponse = await this.loadUploadBlob(opId, params, fileName);
+    if (!blobResponse.success || !blobResponse.data) {
+      return { success: false, error: blobResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const { blob: fileBlob, mimeType } = blobResponse.data;
+    if (!params.imageProcessing) {
+      return this.uploadBlob(opId, fileBlob, fileName, mimeType, params, writeOptions);
+    }
+
+    const processedResponse = await this.processUploadImage(opId, fileBlob, mimeType, params.imageProcessing);
+    if (!processedResponse.success || !processedResponse.data) {
+      return { success: false, error: processedResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    // The main image keeps the base name; smaller variants get a -{width}w suffix
+    const { original, files } = processedResponse.data;
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    const uploaded: { file: FileUploadResponse; rendition: ProcessedImageFile }[] = [];
+    let dryRunResult: HubSpotResponse<FileUploadResponse> | undefined;
+    const dryRunChanges = [
+      `~ image ${original.width}×${original.height} (${original.size} bytes) → ` +
+        files.map(file => `${file.width}×${file.height} (${file.blob.size} bytes)`).join(', ') + ` ${files[0].mimeType}, metadata stripped`
+    ];
+
+    for (const [index, rendition] of files.entries()) {
+      const renditionName = index === 0 ? `${baseName}.${rendition.extension}` : `${baseName}-${rendition.width}w.${rendition.extension}`;
+      const response = await this.uploadBlob(opId, rendition.blob, renditionName, rendition.mimeType, params, writeOptions);
+
+      if (!response.success) {
+        if (uploaded.length === 0) return response;
+        return uploadError(
+          'VARIANT_UPLOAD_FAILED',
+          `Uploaded ${uploaded.map(({ file }) => file.url).join(', ')}, but "${renditionName}" failed: ${response.error?.message}. Retry with duplicateStrategy "reuse" to fill in the missing variants.`
+        );
+      }
+
+      if (response.dryRun) {
+        dryRunResult = dryRunResult || response;
+        dryRunChanges.push(...response.dryRun.changes);
+        continue;
+      }
+
+      uploaded.push({ file: response.data!, rendition });
+    }
+
+    if (dryRunResult) {
+      return { ...dryRunResult, dryRun: { ...dryRunResult.dryRun!, changes: dryRunChanges } };
+    }
+
+    const variants: ImageVariant[] = uploaded.map(({ file, rendition }) => ({
+      id: file.id,
+      url: file.url,
+      width: rendition.width,
+      height: rendition.height,
+      size: rendition.blob.size,
+      mimeType: rendition.mimeType,
+      reused: file.reused
+    }));
+
+    return {
+      success: true,
+      data: {
+        ...uploaded[0].file,
+        variants,
+        srcset: variants.map(variant => `${variant.url} ${variant.width}w`).join(', ')
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Helper: Check image processing options and run the image through the processor
+   */
+  private async processUploadImage(
+    opId: number,
+    blob: Blob,
+    mimeType: string | undefined,
+    options: ImageProcessingOptions
+  ): Promise<HubSpotResponse<ProcessedImage>> {
+    const fail = (status: string, message: string): HubSpotResponse<ProcessedImage> => ({
+      success: false,
+      error: { status, message, correlationId: String(opId) },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    });
+
+    if (!this.imageProcessor.canProcess(mimeType)) {
+      return fail('IMAGE_PROCESSING_UNSUPPORTED', `Image processing supports PNG, JPEG and WebP, but this file is ${mimeType || 'of an unknown type'}. Upload it without imageProcessing.`);
+    }
+
+    const loadError = await this.imageProcessor.loadError();
+    if (loadError) {
+      return fail('IMAGE_PROCESSING_UNSUPPORTED', `Image processing is unavailable on this server because sharp could not be loaded (${loadError}). Upload the image without imageProcessing.`);
+    }
+
+    const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+    if (options.maxWidth !== undefined && !isPositiveInteger(options.maxWidth)) {
+      return fail('INVALID_PARAMS', 'imageProcessing.maxWidth must be a positive whole number of pixels');
+    }
+    if (options.quality !== undefined && !(options.quality >= 1 && options.quality <= 100)) {
+      return fail('INVALID_PARAMS', 'imageProcessing.quality must be between 1 and 100');
+    }
+    if (options.format !== undefined && !['webp', 'jpeg', 'png', 'original'].includes(options.format)) {
+      return fail('INVALID_PARAMS', 'imageProcessing.format must be "webp", "jpeg", "png" or "original"');
+    }
+    if (options.responsiveWidths !== undefined && !(Array.isArray(options.responsiveWidths) && options.responsiveWidths.every(isPositiveInteger))) {
+      return fail('INVALID_PARAMS', 'imageProcessing.responsiveWidths must be a list of positive whole numbers of pixels');
+    }
+
+    try {
+      const processed = await this.imageProcessor.process(blob, mimeType!, options);
+      return { success: true, data: processed, rateLimitStatus: this.rateLimiter.getStatus() };
+    } catch (error) {
+      logger.error('Image processing failed', { opId, error });
+      return fail('IMAGE_PROCESSING_FAILED', `Could not process the image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Helper: Upload one prepared file, after the duplicate check
+   * Implementation: POST /files/v3/files with multipart/form-data
+   */
+  private async uploadBlob(
+    opId: number,
+    fileBlob: Blob,
+    fileName: string,
+    mimeType: string | undefined,
+    params: FileUploadParams,
+    writeOptions: WriteOptions
+  ): Promise<HubSpotResponse<FileUploadResponse>> {
+    const contentHash = await this.hashBlob(fileBlob);
+    const duplicateStrategy = params.duplicateStrategy || 'reuse';
+
+    if (duplicateStrategy !== 'force_new') {
+      const duplicateResponse = await this.findDuplicateFile(fileBlob.size, contentHash, fileName, params.folderPath);
+      if (!duplicateResponse.success) {
+        return { success: false, error: duplicateResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+
+      const duplicate = duplicateResponse.data;
+      if (duplicate && duplicateStrategy === 'reject') {
         return {
           success: false,
           error: {
-            status: 'FILE_FETCH_ERROR',
-            message: `Failed to fetch file from URL: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            correlationId: 'N/A'
+            status: 'DUPLICATE_FILE',
+            message: `${params.folderPath || '/'} already has this file (matched by ${duplicate.match === 'hash' ? 'content hash' : 'name and size'}): ${duplicate.file.url}. Use duplicateStrategy "reuse" to get its URL, or "force_new" to upload another copy.`,
+            correlationId: String(opId)
           },
           rateLimitStatus: this.rateLimiter.getStatus()
         };
       }
-    } else {
-      // Assume it's base64 encoded
-      const base64Data = params.fileContent.replace(/^data:[^;]+;base64,/, '');
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
+
+      if (duplicate) {
+        logger.info('Reusing existing file instead of uploading', { opId, fileId: duplicate.file.id, match: duplicate.match });
+        return {
+          success: true,
+          data: { ...duplicate.file, contentHash, mimeType, reused: true, duplicateMatch: duplicate.match },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
       }
-      fileBlob = new Blob([bytes]);
     }
 
-    formData.append('file', fileBlob, params.fileName);
+    const formData = new FormData();
+    formData.append('file', fileBlob, fileName);
 
     // Add options as JSON string
     const options: any = {
@@ -527,6 +1047,20 @@ export class HubSpotClient {
       formData.append('folderPath', params.folderPath);
     }
 
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<FileUploadResponse>(opId, {
+        method: 'POST',
+        endpoint: '/files/v3/files',
+        payload: {
+          fileName: fileName,
+          fileSize: fileBlob.size,
+          folderPath: params.folderPath,
+          options
+        },
+        changes: [`Upload "${fileName}" (${fileBlob.size} bytes, sha256 ${contentHash.slice(0, 12)}) to ${params.folderPath || '/'}`]
+      });
+    }
+
     // Check rate limits before making request
     if (!this.rateLimiter.canMakeRequest()) {
       return {
@@ -575,7 +1109,7 @@ export class HubSpotClient {
 
       return {
         success: true,
-        data: fileData,
+        data: { ...fileData, contentHash, mimeType, reused: false },
         rateLimitStatus: this.rateLimiter.getStatus()
       };
     } catch (error) {
@@ -594,845 +1128,2779 @@ export class HubSpotClient {
   }
 
   /**
-   * List blog tags with optional search
-   * Inputs: search_term (optional)
-   * Output: Array of tags with id, name, slug
-   * Implementation: GET /cms/v3/blogs/tags
-   * Purpose: Tag selection for content categorization
+   * Helper: Turn upload input (local path, URL or base64) into a Blob with a sniffed MIME type
+   * Safety: Enforces maxUploadBytes before anything is sent
    */
-  async listBlogTags(searchTerm?: string): Promise<HubSpotResponse<PaginatedResponse<BlogTag>>> {
-    const queryParams = new URLSearchParams();
-    queryParams.set('limit', '100');
-
-    if (searchTerm) {
-      queryParams.set('name__icontains', searchTerm);
-    }
-
-    const endpoint = `/cms/v3/blogs/tags?${queryParams.toString()}`;
-    logger.info('Fetching blog tags', { searchTerm });
-
-    return this.request<PaginatedResponse<BlogTag>>(endpoint, { method: 'GET' });
-  }
+  private async loadUploadBlob(
+    opId: number,
+    params: Pick<FileUploadParams, 'fileContent' | 'filePath'>,
+    fileName: string
+  ): Promise<HubSpotResponse<{ blob: Blob; mimeType?: string }>> {
+    const fail = (status: string, message: string): HubSpotResponse<{ blob: Blob; mimeType?: string }> => ({
+      success: false,
+      error: { status, message, correlationId: String(opId) },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    });
 
-  /**
-   * Generate a preview URL for draft content
-   * Input: post_id or page_id
-   * Output: Preview URL for review
-   * Implementation: Construct preview URL with domain + slug + preview token
-   * Purpose: Enable human review before publication
-   */
-  async getDraftPreviewUrl(
-    params: PreviewUrlParams
-  ): Promise<HubSpotResponse<{ previewUrl: string }>> {
-    logger.info('Generating preview URL', { contentId: params.contentId, contentType: params.contentType });
+    let fileBlob: Blob;
+    if (params.filePath) {
+      // Local files stay on disk and are read as the request streams
+      const localResponse = await this.openLocalUpload(opId, params.filePath);
+      if (!localResponse.success || !localResponse.data) {
+        return { success: false, error: localResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      fileBlob = localResponse.data;
+    } else if (!params.fileContent) {
+      return fail('INVALID_PARAMS', 'Provide fileContent (base64 or URL) or filePath');
+    } else if (params.fileContent.startsWith('http://') || params.fileContent.startsWith('https://')) {
+      // If it's a URL, fetch the file first
+      try {
+        const fileResponse = await fetch(params.fileContent);
+        if (!fileResponse.ok) {
+          await fileResponse.body?.cancel();
+          return fail('FILE_FETCH_ERROR', `Failed to fetch file from URL: ${params.fileContent} returned HTTP ${fileResponse.status}`);
+        }
 
-    // First, fetch the content to get the URL and preview key
-    let content: BlogPost | undefined;
+        const declaredSize = Number(fileResponse.headers.get('content-length'));
+        if (declaredSize > this.config.maxUploadBytes) {
+          await fileResponse.body?.cancel();
+          return fail('FILE_TOO_LARGE', `${params.fileContent} is ${declaredSize} bytes; the upload limit is ${this.config.maxUploadBytes} bytes`);
+        }
 
-    if (params.contentType === 'blog-post') {
-      const response = await this.getBlogPost(params.contentId);
-      if (!response.success || !response.data) {
+        // Content-Length is optional and can be wrong, so count bytes as they arrive and stop at the limit
+        const chunks: Uint8Array[] = [];
+        let received = 0;
+        if (fileResponse.body) {
+          const reader = fileResponse.body.getReader();
+          for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            received += chunk.value.byteLength;
+            if (received > this.config.maxUploadBytes) {
+              await reader.cancel();
+              return fail('FILE_TOO_LARGE', `${params.fileContent} is over the upload limit of ${this.config.maxUploadBytes} bytes`);
+            }
+            chunks.push(chunk.value);
+          }
+        }
+        fileBlob = new Blob(chunks, { type: fileResponse.headers.get('content-type') || '' });
+      } catch (error) {
+        logger.error('Failed to fetch file from URL', { opId, url: params.fileContent, error });
         return {
           success: false,
-          error: response.error || {
-            status: 'NOT_FOUND',
-            message: 'Failed to fetch content for preview URL generation',
+          error: {
+            status: 'FILE_FETCH_ERROR',
+            message: `Failed to fetch file from URL: ${error instanceof Error ? error.message : 'Unknown error'}`,
             correlationId: 'N/A'
           },
           rateLimitStatus: this.rateLimiter.getStatus()
         };
       }
-      content = response.data;
     } else {
-      // For pages, we would need to implement page fetching
-      // For now, return an error for unsupported content types
-      return {
-        success: false,
-        error: {
-          status: 'NOT_IMPLEMENTED',
-          message: 'Preview URL generation for pages is not yet implemented. Only blog-post is supported.',
-          correlationId: 'N/A'
-        },
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
+      // Assume it's base64 encoded
+      const base64Data = params.fileContent.replace(/^data:[^;]+;base64,/, '');
+      fileBlob = new Blob([Buffer.from(base64Data, 'base64')]);
     }
 
-    // Construct preview URL
-    let previewUrl: string;
-    if (content.url) {
-      // Add preview key if available, otherwise use generic preview parameter
-      const previewParam = content.previewKey
-        ? `?hs_preview=${content.previewKey}`
-        : '?hsPreview=true';
-      previewUrl = `${content.url}${previewParam}`;
-    } else {
-      return {
-        success: false,
-        error: {
-          status: 'NO_URL',
-          message: 'Content does not have a URL yet. Save the content first to generate a URL.',
-          correlationId: 'N/A'
-        },
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
+    if (fileBlob.size > this.config.maxUploadBytes) {
+      return fail('FILE_TOO_LARGE', `"${fileName}" is ${fileBlob.size} bytes; the upload limit is ${this.config.maxUploadBytes} bytes`);
     }
 
-    logger.info('Preview URL generated', { previewUrl });
+    // Trust the bytes over the extension or a server's Content-Type
+    const mimeType = this.detectMimeType(new Uint8Array(await fileBlob.slice(0, 256).arrayBuffer())) || fileBlob.type || undefined;
+    if (mimeType && mimeType !== fileBlob.type) {
+      fileBlob = fileBlob.slice(0, fileBlob.size, mimeType);
+    }
 
-    return {
-      success: true,
-      data: { previewUrl },
-      rateLimitStatus: this.rateLimiter.getStatus()
-    };
+    return { success: true, data: { blob: fileBlob, mimeType }, rateLimitStatus: this.rateLimiter.getStatus() };
   }
 
-  // ========================================
-  // Phase 3: Page management and advanced features
-  // ========================================
-
   /**
-   * List pages (site pages or landing pages) with filtering and pagination
-   * Inputs: page_type (site-pages/landing-pages), state, template_path, domain
-   * Output: Array of pages with id, name, slug, state, domain
-   * Implementation: GET /cms/v3/pages/{pageType}
+   * Helper: Open a local file for upload as a disk-backed Blob
+   * Safety: The real path (symlinks resolved) must sit inside a configured upload directory,
+   *         and the size is checked from stat before any bytes are read
    */
-  async listPages(
-    params: PageListParams
-  ): Promise<HubSpotResponse<PaginatedResponse<Page>>> {
-    const queryParams = new URLSearchParams();
+  private async openLocalUpload(opId: number, filePath: string): Promise<HubSpotResponse<Blob>> {
+    const fail = (status: string, message: string): HubSpotResponse<Blob> => ({
+      success: false,
+      error: { status, message, correlationId: String(opId) },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    });
 
-    // Add pagination
-    if (params.limit) queryParams.set('limit', Math.min(params.limit, 100).toString());
-    if (params.offset) queryParams.set('offset', params.offset.toString());
+    if (this.config.uploadAllowedDirs.length === 0) {
+      return fail('LOCAL_UPLOADS_DISABLED', 'Uploading from a local path is disabled. Set HUBSPOT_UPLOAD_ALLOWED_DIRS to the directories the server may read from.');
+    }
 
-    // Add filters
-    if (params.state) queryParams.set('state', params.state);
-    if (params.templatePath) queryParams.set('templatePath', params.templatePath);
-    if (params.domain) queryParams.set('domain', params.domain);
-    if (params.name) queryParams.set('name__icontains', params.name);
-    if (params.created) queryParams.set('created__gt', params.created);
-    if (params.updated) queryParams.set('updated__gt', params.updated);
-    if (params.archivedInDashboard !== undefined) {
-      queryParams.set('archivedInDashboard', params.archivedInDashboard.toString());
+    let realPath: string;
+    let stats: fs.Stats;
+    try {
+      realPath = await fs.promises.realpath(filePath);
+      stats = await fs.promises.stat(realPath);
+    } catch (error) {
+      return fail('FILE_NOT_FOUND', `Cannot read "${filePath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    const endpoint = `/cms/v3/pages/${params.pageType}?${queryParams.toString()}`;
-    logger.info('Listing pages', { pageType: params.pageType, filters: params });
+    const allowed = await Promise.all(this.config.uploadAllowedDirs.map(async dir => {
+      const realDir = await fs.promises.realpath(dir).catch(() => path.resolve(dir));
+      const relative = path.relative(realDir, realPath);
+      return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }));
+    if (!allowed.some(Boolean)) {
+      logger.warn('Refused upload from outside the allowed directories', { opId, filePath, realPath });
+      return fail('PATH_NOT_ALLOWED', `"${filePath}" is outside the allowed upload directories: ${this.config.uploadAllowedDirs.join(', ')}`);
+    }
 
-    return this.request<PaginatedResponse<Page>>(endpoint, { method: 'GET' });
+    if (!stats.isFile()) {
+      return fail('NOT_A_FILE', `"${filePath}" is not a regular file`);
+    }
+
+    if (stats.size > this.config.maxUploadBytes) {
+      return fail('FILE_TOO_LARGE', `"${filePath}" is ${stats.size} bytes; the upload limit is ${this.config.maxUploadBytes} bytes`);
+    }
+
+    // openAsBlob (Node 19.8+) reads lazily; older runtimes fall back to reading the file once
+    const blob = typeof fs.openAsBlob === 'function'
+      ? await fs.openAsBlob(realPath)
+      : new Blob([await fs.promises.readFile(realPath)]);
+
+    return { success: true, data: blob, rateLimitStatus: this.rateLimiter.getStatus() };
   }
 
   /**
-   * Get complete page details
-   * Input: page_id, page_type
-   * Output: Full page object (WARNING: includes complex nested structures)
-   * Implementation: GET /cms/v3/pages/{pageType}/{objectId}
+   * Helper: sha256 of a Blob, read chunk by chunk
    */
-  async getPage(pageId: string, pageType: 'site-pages' | 'landing-pages'): Promise<HubSpotResponse<Page>> {
-    logger.info('Fetching page', { pageId, pageType });
-    return this.request<Page>(`/cms/v3/pages/${pageType}/${pageId}`, { method: 'GET' });
+  private async hashBlob(blob: Blob): Promise<string> {
+    const hash = createHash('sha256');
+    const reader = blob.stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+    }
+    return hash.digest('hex');
   }
 
   /**
-   * Update page metadata using fetch-first pattern
-   * CRITICAL: Explicitly excludes layoutSections, widgets, widgetContainers to prevent data loss
-   * Only updates: name, slug, htmlTitle, metaDescription
-   * Inputs: page_id, page_type, title, meta_description, slug
-   * Output: Updated page draft
-   * Implementation: Fetch → modify simple fields only → PATCH /draft
-   * Safety: Explicitly excludes layoutSections, widgets, widgetContainers
-   * Purpose: SEO optimization without layout risk
+   * Helper: MIME type from a file's leading bytes, for the formats File Manager usually holds
    */
-  async updatePageMetadata(
-    pageId: string,
-    pageType: 'site-pages' | 'landing-pages',
-    metadata: PageUpdateMetadata
-  ): Promise<HubSpotResponse<Page>> {
-    const opId = logger.getNextOperationId();
-    logger.info('Starting page metadata update with fetch-first pattern', { opId, pageId, pageType });
+  private detectMimeType(header: Uint8Array): string | undefined {
+    const startsWith = (bytes: number[], offset: number = 0) => bytes.every((byte, i) => header[offset + i] === byte);
+    const ascii = (offset: number, length: number) => String.fromCharCode(...header.slice(offset, offset + length));
+
+    if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'image/webp';
+    if (ascii(0, 2) === 'BM') return 'image/bmp';
+    if (startsWith([0x00, 0x00, 0x01, 0x00])) return 'image/x-icon';
+    if (ascii(4, 4) === 'ftyp') {
+      const brand = ascii(8, 4);
+      if (brand === 'avif' || brand === 'avis') return 'image/avif';
+      if (brand === 'heic' || brand === 'heix') return 'image/heic';
+      if (brand.startsWith('qt')) return 'video/quicktime';
+      return 'video/mp4';
+    }
+    if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+    if (ascii(0, 3) === 'ID3' || startsWith([0xff, 0xfb])) return 'audio/mpeg';
+    if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+    if (startsWith([0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+    if (ascii(0, 4) === 'wOFF') return 'font/woff';
+    if (ascii(0, 4) === 'wOF2') return 'font/woff2';
 
-    // STEP 1: Fetch current state
-    const currentResponse = await this.getPage(pageId, pageType);
-    if (!currentResponse.success || !currentResponse.data) {
-      logger.error('Failed to fetch current page state', { opId, pageId });
-      return currentResponse;
+    const text = ascii(0, header.length).replace(/^\uFEFF/, '').trimStart().toLowerCase();
+    if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) return 'image/svg+xml';
+
+    return undefined;
+  }
+
+  /**
+   * Helper: Find a file in the upload's target folder with the same bytes
+   * A file with the same name and size counts as a match. Otherwise each file of the same size is
+   * downloaded and its sha256 compared - File Manager does not expose content hashes itself.
+   * The search only returns files of the upload's size. Without a folder it can't be limited to the root
+   * folder, so it also filters by name and only name-and-size matches count - hashing every same-size
+   * file across the portal would cost a download each.
+   */
+  private async findDuplicateFile(
+    size: number,
+    contentHash: string,
+    fileName: string,
+    folderPath?: string
+  ): Promise<HubSpotResponse<{ file: FileDetails; match: 'hash' | 'name-size' } | null>> {
+    let folderId: string | undefined;
+    if (folderPath && folderPath.replace(/\/+/g, '') !== '') {
+      const folderResponse = await this.getFolderByPath(folderPath);
+      if (!folderResponse.success || !folderResponse.data) {
+        // A folder that doesn't exist yet has no duplicates
+        if (folderResponse.error?.status === 'FOLDER_NOT_FOUND') {
+          return { success: true, data: null, rateLimitStatus: this.rateLimiter.getStatus() };
+        }
+        return { success: false, error: folderResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      folderId = folderResponse.data.id;
     }
 
-    const beforeState = currentResponse.data;
-    logger.info('Fetched current page state', { opId, pageId });
+    const sameSize: FileDetails[] = [];
+    let after: string | undefined;
 
-    // STEP 2: Merge metadata (explicitly exclude nested structures)
-    const updatedPage = {
-      ...beforeState,
-      ...metadata,
-      // CRITICAL: Preserve all nested structures to prevent data loss
-      widgets: beforeState.widgets,
-      widgetContainers: beforeState.widgetContainers,
-      layoutSections: beforeState.layoutSections
-    };
+    // HubSpot's name filter matches the name without its extension
+    const baseName = fileName.replace(/\.[^.]+$/, '');
 
-    // STEP 3: PATCH to draft endpoint
-    logger.info('Updating page draft with metadata', { opId, pageId });
-    const response = await this.request<Page>(
-      `/cms/v3/pages/${pageType}/${pageId}/draft`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify(updatedPage)
+    do {
+      const response = await this.searchFiles({
+        folderId,
+        size,
+        name: folderId === undefined ? baseName : undefined,
+        limit: 100,
+        after
+      });
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
       }
+
+      sameSize.push(...response.data.results.filter(file =>
+        file.size === size &&
+        !file.archived &&
+        // Without a folder filter the search spans every folder; keep root files only
+        (folderId !== undefined || !file.parentFolderId)
+      ));
+      after = response.data.paging?.next?.after;
+    } while (after);
+
+    const lowerName = fileName.toLowerCase();
+    const byName = sameSize.find(file =>
+      (file.extension ? `${file.name}.${file.extension}` : file.name).toLowerCase() === lowerName
     );
+    if (byName) {
+      return { success: true, data: { file: byName, match: 'name-size' }, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
 
-    if (response.success) {
-      logger.logOperation(
-        'update_page_metadata',
-        { opId, pageId, pageType, metadata },
-        beforeState,
-        response.data
-      );
+    if (folderId === undefined) {
+      return { success: true, data: null, rateLimitStatus: this.rateLimiter.getStatus() };
     }
 
-    return response;
+    for (const file of sameSize) {
+      const fileUrl = file.url || file.defaultHostingUrl;
+      if (!fileUrl) continue;
+
+      try {
+        const download = await fetch(fileUrl);
+        if (!download.ok) continue;
+        const hash = createHash('sha256').update(Buffer.from(await download.arrayBuffer())).digest('hex');
+        if (hash === contentHash) {
+          return { success: true, data: { file, match: 'hash' }, rateLimitStatus: this.rateLimiter.getStatus() };
+        }
+      } catch (error) {
+        // Private files and network hiccups just mean this candidate can't be compared
+        logger.debug('Could not download duplicate candidate', { fileId: file.id, error });
+      }
+    }
+
+    return { success: true, data: null, rateLimitStatus: this.rateLimiter.getStatus() };
   }
 
   /**
-   * List available templates
-   * Output: Array of templates with id, path, label, type
-   * Implementation: GET /cms/v3/source-code/draft/metadata/templates
+   * Search File Manager files
+   * Inputs: name, folder (id or path), type, extension, created/updated date range, sort
+   * Output: Matching files with URL, size, dimensions and access level
+   * Implementation: Resolve folderPath → GET /files/v3/files/search
+   * Purpose: Find already-uploaded assets instead of uploading them again
    */
-  async listTemplates(): Promise<HubSpotResponse<{ results: Template[] }>> {
-    logger.info('Fetching templates list');
+  async searchFiles(params: FileSearchParams = {}): Promise<HubSpotResponse<PaginatedResponse<FileDetails>>> {
+    logger.info('Searching files', params);
+
+    let folderId = params.folderId;
+    if (!folderId && params.folderPath) {
+      const folderResponse = await this.getFolderByPath(params.folderPath);
+      if (!folderResponse.success || !folderResponse.data) {
+        return { success: false, error: folderResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      folderId = folderResponse.data.id;
+    }
 
-    // Note: The actual endpoint structure may vary based on HubSpot API
-    // This is a simplified version - in production you might need to paginate
-    const endpoint = '/content/api/v2/templates';
+    const queryParams = new URLSearchParams();
+    queryParams.set('limit', Math.min(params.limit || 50, 100).toString());
+    if (params.after) queryParams.set('after', params.after);
+    if (params.name) queryParams.set('name', params.name);
+    if (params.size !== undefined) queryParams.set('size', params.size.toString());
+    if (folderId) queryParams.set('parentFolderIds', folderId);
+    if (params.type) queryParams.set('type', params.type);
+    if (params.extension) queryParams.set('extension', params.extension.replace(/^\./, ''));
+    if (params.createdAfter) queryParams.set('createdAtGte', params.createdAfter);
+    if (params.createdBefore) queryParams.set('createdAtLte', params.createdBefore);
+    if (params.updatedAfter) queryParams.set('updatedAtGte', params.updatedAfter);
+    if (params.updatedBefore) queryParams.set('updatedAtLte', params.updatedBefore);
+    if (params.sort) queryParams.set('sort', params.sort);
+
+    return this.request<PaginatedResponse<FileDetails>>(
+      `/files/v3/files/search?${queryParams.toString()}`,
+      { method: 'GET' }
+    );
+  }
 
-    return this.request<{ results: Template[] }>(endpoint, { method: 'GET' });
+  /**
+   * Get file details
+   * Output: URL, size, type, dimensions (images/videos), access level, folder and dates
+   */
+  async getFile(fileId: string): Promise<HubSpotResponse<FileDetails>> {
+    logger.info('Fetching file', { fileId });
+    return this.request<FileDetails>(`/files/v3/files/${fileId}`, { method: 'GET' });
   }
 
   /**
-   * Create a new page from template
-   * Inputs: name, template_path, slug, domain, title, meta_description
-   * Output: Created page in draft state
-   * Implementation: POST /cms/v3/pages/site-pages with minimal content
-   *
-   * IMPORTANT: templatePath must NOT include leading slash
+   * List File Manager folders
+   * Inputs: parent folder (id or path, root if neither), name filter
+   * Implementation: GET /files/v3/folders/search
    */
-  async createPageFromTemplate(
-    params: PageCreateParams,
-    pageType: 'site-pages' | 'landing-pages' = 'site-pages'
-  ): Promise<HubSpotResponse<Page>> {
+  async listFolders(
+    params: { parentFolderId?: string; parentPath?: string; name?: string; limit?: number; after?: string } = {}
+  ): Promise<HubSpotResponse<PaginatedResponse<FileFolder>>> {
+    logger.info('Fetching folders', params);
+
+    let parentFolderId = params.parentFolderId;
+    if (!parentFolderId && params.parentPath && params.parentPath !== '/') {
+      const folderResponse = await this.getFolderByPath(params.parentPath);
+      if (!folderResponse.success || !folderResponse.data) {
+        return { success: false, error: folderResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      parentFolderId = folderResponse.data.id;
+    }
+
+    const queryParams = new URLSearchParams();
+    queryParams.set('limit', Math.min(params.limit || 100, 100).toString());
+    if (params.after) queryParams.set('after', params.after);
+    if (parentFolderId) queryParams.set('parentFolderIds', parentFolderId);
+    if (params.name) queryParams.set('name', params.name);
+
+    return this.request<PaginatedResponse<FileFolder>>(
+      `/files/v3/folders/search?${queryParams.toString()}`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Get a folder by its full path (e.g. "/images/blog")
+   * Implementation: GET /files/v3/folders/search?path= and keep the exact match
+   */
+  async getFolderByPath(path: string): Promise<HubSpotResponse<FileFolder>> {
+    const normalizedPath = `/${path.trim().replace(/^\/+|\/+$/g, '')}`;
+    logger.info('Fetching folder by path', { path: normalizedPath });
+
+    const response = await this.request<PaginatedResponse<FileFolder>>(
+      `/files/v3/folders/search?path=${encodeURIComponent(normalizedPath)}&limit=100`,
+      { method: 'GET' }
+    );
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const folder = response.data.results.find(result => result.path === normalizedPath);
+    if (!folder) {
+      return {
+        success: false,
+        error: {
+          status: 'FOLDER_NOT_FOUND',
+          message: `No File Manager folder at "${normalizedPath}". Use hubspot_list_folders to browse existing folders.`,
+          correlationId: 'N/A'
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    return { success: true, data: folder, rateLimitStatus: this.rateLimiter.getStatus() };
+  }
+
+  /**
+   * Create a File Manager folder
+   * Implementation: POST /files/v3/folders
+   */
+  async createFolder(
+    params: FolderCreateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<FileFolder>> {
     const opId = logger.getNextOperationId();
-    logger.info('Creating page from template', { opId, params, pageType });
+    logger.info('Creating folder', { opId, ...params });
 
-    // Build request body with DRAFT state
-    const requestBody: any = {
-      name: params.name,
-      slug: params.slug,
-      // CRITICAL: Do NOT include leading slash in templatePath
-      templatePath: params.templatePath.replace(/^\//, ''),
-      state: 'DRAFT'  // Always create as draft for safety
-    };
+    const body: Record<string, string> = { name: params.name.trim() };
+    if (params.parentFolderId) {
+      body.parentFolderId = params.parentFolderId;
+    } else if (params.parentPath && params.parentPath !== '/') {
+      body.parentPath = `/${params.parentPath.trim().replace(/^\/+|\/+$/g, '')}`;
+    }
 
-    // Add optional fields
-    if (params.domain) requestBody.domain = params.domain;
-    if (params.htmlTitle) requestBody.htmlTitle = params.htmlTitle;
-    if (params.metaDescription) requestBody.metaDescription = params.metaDescription;
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<FileFolder>(opId, {
+        method: 'POST',
+        endpoint: '/files/v3/folders',
+        payload: body,
+        changes: [`+ folder "${body.name}" in ${body.parentFolderId ? `folder ${body.parentFolderId}` : body.parentPath || '/'}`]
+      });
+    }
 
-    const response = await this.request<Page>(
-      `/cms/v3/pages/${pageType}`,
+    const response = await this.request<FileFolder>(
+      '/files/v3/folders',
       {
         method: 'POST',
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(body)
       }
     );
 
     if (response.success) {
-      logger.logOperation(
-        'create_page_from_template',
-        { opId, params, pageType },
-        undefined,
-        response.data
-      );
+      logger.logOperation('create_folder', { opId, params: body }, undefined, response.data);
     }
 
     return response;
   }
 
-  // ========================================
-  // Phase 5: Safe webpage content and appearance editing
-  // ========================================
-
   /**
-   * Helper: Extract all widgets from a page's layoutSections
-   * Returns a flat array of widgets with their locations
+   * Rename and/or move a File Manager folder
+   * Implementation: GET folder → PATCH /files/v3/folders/{id}
+   * Safety: File URLs include the folder path, so files in a renamed or moved folder get new URLs -
+   *         check content that links to them
    */
-  private extractWidgetsFromPage(page: Page): PageContentStructure {
-    const widgets: PageContentStructure['widgets'] = [];
-    const layoutSections: string[] = [];
+  async updateFolder(
+    folderId: string,
+    updates: FolderUpdateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<FileFolder>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Updating folder', { opId, folderId, ...updates });
 
-    if (!page.layoutSections || typeof page.layoutSections !== 'object') {
-      return {
-        pageId: page.id,
-        pageName: page.name,
-        widgets: [],
-        layoutSections: [],
-        totalWidgets: 0
-      };
+    const currentResponse = await this.request<FileFolder>(`/files/v3/folders/${folderId}`, { method: 'GET' });
+    if (!currentResponse.success || !currentResponse.data) {
+      return currentResponse;
     }
 
-    // Iterate through all layout sections
-    for (const [sectionName, section] of Object.entries(page.layoutSections)) {
-      layoutSections.push(sectionName);
-
-      if (!section || typeof section !== 'object' || !Array.isArray((section as any).rows)) {
-        continue;
-      }
-
-      const rows = (section as any).rows;
+    const beforeState = currentResponse.data;
+    const body: FolderUpdateParams = {};
+    if (updates.name !== undefined) body.name = updates.name.trim();
+    if (updates.parentFolderId !== undefined) body.parentFolderId = updates.parentFolderId;
 
-      // Iterate through rows
-      rows.forEach((row: any, rowIndex: number) => {
-        if (!row.cells || !Array.isArray(row.cells)) {
-          return;
-        }
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<FileFolder>(opId, {
+        method: 'PATCH',
+        endpoint: `/files/v3/folders/${folderId}`,
+        payload: body,
+        changes: Object.entries(body)
+          .filter(([field, value]) => (beforeState as any)[field] !== value)
+          .map(([field, value]) => `~ ${field}: ${JSON.stringify((beforeState as any)[field])} → ${JSON.stringify(value)}`)
+      });
+    }
 
-        // Iterate through columns/cells
-        row.cells.forEach((cell: any, columnIndex: number) => {
-          if (!cell.widgets || !Array.isArray(cell.widgets)) {
-            return;
-          }
+    const response = await this.request<FileFolder>(
+      `/files/v3/folders/${folderId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(body)
+      }
+    );
 
-          // Iterate through widgets
-          cell.widgets.forEach((widget: any, widgetIndex: number) => {
-            const hasHtmlContent = !!(widget.body && widget.body.html);
-            const contentPreview = hasHtmlContent
-              ? widget.body.html.substring(0, 100).replace(/<[^>]*>/g, '').trim()
-              : undefined;
-
-            widgets.push({
-              id: widget.id || `widget-${sectionName}-${rowIndex}-${columnIndex}-${widgetIndex}`,
-              name: widget.name || widget.type || 'Unnamed Widget',
-              type: widget.type || 'unknown',
-              location: {
-                sectionName,
-                rowIndex,
-                columnIndex,
-                widgetIndex
-              },
-              hasHtmlContent,
-              hasStyles: !!(widget.styles && Object.keys(widget.styles).length > 0),
-              hasParams: !!(widget.params && Object.keys(widget.params).length > 0),
-              contentPreview
-            });
-          });
-        });
-      });
+    if (response.success) {
+      logger.logOperation('update_folder', { opId, folderId, updates: body }, beforeState, response.data);
     }
 
-    return {
-      pageId: page.id,
-      pageName: page.name,
-      widgets,
-      layoutSections,
-      totalWidgets: widgets.length
-    };
+    return response;
   }
 
   /**
-   * Helper: Get widget at specific location
+   * Replace a file's content in place
+   * Inputs: file id, new content (local path, URL or base64)
+   * Output: The updated file (same id and URL) and the previous file details
+   * Implementation: GET file → load + sniff new bytes → PUT /files/v3/files/{id} with multipart/form-data
+   * Safety: Refuses to swap an image for a non-image (pages would render a broken image under the same URL).
+   *         The CDN may keep serving the old bytes until its cache expires
    */
-  private getWidgetAtLocation(page: Page, location: WidgetLocation): Widget | null {
-    try {
-      const section = (page.layoutSections as any)[location.sectionName];
-      if (!section || !section.rows) return null;
+  async replaceFile(
+    params: FileReplaceParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<FileReplaceResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Replacing file', { opId, fileId: params.fileId, filePath: params.filePath });
 
-      const row = section.rows[location.rowIndex];
-      if (!row || !row.cells) return null;
+    const currentResponse = await this.getFile(params.fileId);
+    if (!currentResponse.success || !currentResponse.data) {
+      return { success: false, error: currentResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
 
-      const cell = row.cells[location.columnIndex];
-      if (!cell || !cell.widgets) return null;
+    const previous = currentResponse.data;
+    const fileName = previous.extension ? `${previous.name}.${previous.extension}` : previous.name;
 
-      const widget = cell.widgets[location.widgetIndex];
-      return widget || null;
-    } catch (error) {
-      logger.error('Error getting widget at location', { location, error });
-      return null;
+    const blobResponse = await this.loadUploadBlob(opId, params, fileName);
+    if (!blobResponse.success || !blobResponse.data) {
+      return { success: false, error: blobResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
     }
-  }
 
-  /**
-   * Helper: Set widget at specific location
-   */
-  private setWidgetAtLocation(page: Page, location: WidgetLocation, widget: Widget): boolean {
-    try {
-      const section = (page.layoutSections as any)[location.sectionName];
-      if (!section || !section.rows) return false;
+    const { blob: fileBlob, mimeType } = blobResponse.data;
+    if (previous.type === 'IMG' && mimeType && !mimeType.startsWith('image/')) {
+      return {
+        success: false,
+        error: {
+          status: 'FILE_TYPE_MISMATCH',
+          message: `"${fileName}" is an image but the replacement is ${mimeType}. Pages using ${previous.url} would show a broken image. Upload it as a new file instead.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
 
-      const row = section.rows[location.rowIndex];
-      if (!row || !row.cells) return false;
+    const contentHash = await this.hashBlob(fileBlob);
+    const options = { access: previous.access || 'PUBLIC_INDEXABLE' };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<FileReplaceResult>(opId, {
+        method: 'PUT',
+        endpoint: `/files/v3/files/${params.fileId}`,
+        payload: {
+          fileName,
+          fileSize: fileBlob.size,
+          mimeType,
+          options
+        },
+        changes: [
+          `~ content of ${previous.url}: ${previous.size} bytes → ${fileBlob.size} bytes` +
+            `${mimeType ? ` ${mimeType}` : ''} (sha256 ${contentHash.slice(0, 12)})`
+        ]
+      });
+    }
 
-      const cell = row.cells[location.columnIndex];
-      if (!cell || !cell.widgets) return false;
+    const formData = new FormData();
+    formData.append('file', fileBlob, fileName);
+    formData.append('options', JSON.stringify(options));
 
-      cell.widgets[location.widgetIndex] = widget;
-      return true;
-    } catch (error) {
-      logger.error('Error setting widget at location', { location, error });
-      return false;
+    const response = await this.request<FileDetails>(
+      `/files/v3/files/${params.fileId}`,
+      {
+        method: 'PUT',
+        body: formData
+      }
+    );
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
     }
+
+    logger.logOperation('replace_file', { opId, fileId: params.fileId, contentHash, size: fileBlob.size }, previous, response.data);
+
+    return {
+      success: true,
+      data: { file: response.data, previous, contentHash, mimeType },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
   }
 
   /**
-   * Helper: Validate page structure integrity
+   * Find the blog posts and pages that reference a file
+   * Inputs: file id or file URL
+   * Output: Every featured image, post body and widget (body.html or params) that mentions the file
+   * Implementation: Matches the file's hubfs path on any host (CDN, default hosting or custom domain),
+   *                 scanning every blog post, site page and landing page once
+   * Limitation: Templates, modules and global content that hard-code the URL are not scanned
    */
-  private validatePageStructure(beforePage: Page, afterPage: Page): StructuralValidation {
-    const beforeStructure = this.extractWidgetsFromPage(beforePage);
-    const afterStructure = this.extractWidgetsFromPage(afterPage);
+  async findFileUsages(params: { fileId?: string; fileUrl?: string }): Promise<HubSpotResponse<FileUsageReport>> {
+    logger.info('Scanning for file usages', params);
+
+    let file: FileUsageReport['file'];
+    if (params.fileId) {
+      const fileResponse = await this.getFile(params.fileId);
+      if (!fileResponse.success || !fileResponse.data) {
+        return { success: false, error: fileResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      file = { id: fileResponse.data.id, url: fileResponse.data.url, path: fileResponse.data.path };
+    } else if (params.fileUrl) {
+      file = { url: params.fileUrl };
+    } else {
+      return {
+        success: false,
+        error: { status: 'INVALID_PARAMS', message: 'Provide fileId or fileUrl', correlationId: 'N/A' },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
 
-    const warnings: string[] = [];
-    const errors: string[] = [];
+    const matcher = this.buildFileMatcher(file);
+    const usages: FileUsage[] = [];
 
-    // Check widget count
-    if (beforeStructure.totalWidgets !== afterStructure.totalWidgets) {
-      warnings.push(
-        `Widget count changed from ${beforeStructure.totalWidgets} to ${afterStructure.totalWidgets}`
-      );
+    const blogPosts = await this.listAllForScan(offset => this.listBlogPosts({ limit: 100, offset }));
+    if (!blogPosts.success) {
+      return { success: false, error: blogPosts.error, rateLimitStatus: this.rateLimiter.getStatus() };
     }
 
-    // Check section count
-    if (beforeStructure.layoutSections.length !== afterStructure.layoutSections.length) {
-      errors.push(
-        `Layout section count changed from ${beforeStructure.layoutSections.length} to ${afterStructure.layoutSections.length}. This indicates structural damage.`
-      );
+    for (const post of blogPosts.data!) {
+      const postRef = { contentType: 'blog-post' as const, contentId: post.id, name: post.name, url: post.url };
+      for (const matchedUrl of matcher(post.featuredImage)) {
+        usages.push({ ...postRef, field: 'featuredImage', matchedUrl });
+      }
+      for (const matchedUrl of matcher(post.postBody)) {
+        usages.push({ ...postRef, field: 'postBody', matchedUrl });
+      }
     }
 
-    // Check section names
-    const beforeSections = new Set(beforeStructure.layoutSections);
-    const afterSections = new Set(afterStructure.layoutSections);
+    const scanned = { blogPosts: blogPosts.data!.length, sitePages: 0, landingPages: 0 };
 
-    beforeSections.forEach(section => {
-      if (!afterSections.has(section)) {
-        errors.push(`Layout section "${section}" was removed`);
+    for (const pageType of ['site-pages', 'landing-pages'] as const) {
+      const contentType = this.pageTypeToContentType(pageType);
+      const pages = await this.listAllForScan(offset => this.listPages({ pageType, limit: 100, offset }));
+      if (!pages.success) {
+        return { success: false, error: pages.error, rateLimitStatus: this.rateLimiter.getStatus() };
       }
-    });
 
-    afterSections.forEach(section => {
-      if (!beforeSections.has(section)) {
-        warnings.push(`Layout section "${section}" was added`);
+      for (const page of pages.data!) {
+        const pageRef = { contentType, contentId: page.id, name: page.name, url: page.url };
+
+        // Drag-and-drop widgets: rich text lives in body.html, image fields in params
+        for (const widgetInfo of this.extractWidgetsFromPage(page).widgets) {
+          const widget = this.getWidgetAtLocation(page, widgetInfo.location);
+          for (const matchedUrl of matcher(widget?.body?.html, JSON.stringify(widget?.params ?? {}))) {
+            usages.push({ ...pageRef, field: 'widget', location: widgetInfo.location, widgetName: widgetInfo.name, matchedUrl });
+          }
+        }
+
+        // Template-defined widgets outside drag-and-drop areas
+        if (page.widgets && typeof page.widgets === 'object') {
+          for (const [widgetName, widget] of Object.entries(page.widgets as Record<string, any>)) {
+            for (const matchedUrl of matcher(widget?.body?.html, JSON.stringify(widget?.body ?? {}), JSON.stringify(widget?.params ?? {}))) {
+              usages.push({ ...pageRef, field: 'widget', widgetName, matchedUrl });
+            }
+          }
+        }
       }
-    });
+
+      if (pageType === 'site-pages') {
+        scanned.sitePages = pages.data!.length;
+      } else {
+        scanned.landingPages = pages.data!.length;
+      }
+    }
+
+    logger.info('File usage scan complete', { file: file.url, usages: usages.length, scanned });
 
     return {
-      isValid: errors.length === 0,
-      beforeWidgetCount: beforeStructure.totalWidgets,
-      afterWidgetCount: afterStructure.totalWidgets,
-      beforeSectionCount: beforeStructure.layoutSections.length,
-      afterSectionCount: afterStructure.layoutSections.length,
-      warnings,
-      errors
+      success: true,
+      data: { file, usages, scanned },
+      rateLimitStatus: this.rateLimiter.getStatus()
     };
   }
 
   /**
-   * Get page content structure
-   * Returns a structured view of all widgets and their locations
-   * Input: page_id, page_type
-   * Output: PageContentStructure with widget locations and previews
-   * Purpose: Discover what widgets exist and where they are located
+   * Helper: Build a function that returns every distinct reference to a file across some strings
+   * The same file is served from several hosts, so matching uses the hubfs path when it is known
+   * (with an optional portal id segment) and falls back to the exact URL otherwise
    */
-  async getPageContentStructure(
-    pageId: string,
-    pageType: 'site-pages' | 'landing-pages'
-  ): Promise<HubSpotResponse<PageContentStructure>> {
-    logger.info('Getting page content structure', { pageId, pageType });
+  private buildFileMatcher(file: FileUsageReport['file']): (...texts: (string | undefined)[]) => string[] {
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-    const pageResponse = await this.getPage(pageId, pageType);
-    if (!pageResponse.success || !pageResponse.data) {
-      return {
-        success: false,
-        error: pageResponse.error,
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
+    let filePath = file.path;
+    if (!filePath) {
+      try {
+        const match = new URL(file.url).pathname.match(/\/hubfs\/(?:\d+\/)?(.+)$/);
+        if (match) filePath = decodeURIComponent(match[1]);
+      } catch {
+        // Not a URL - match it literally
+      }
     }
 
-    const structure = this.extractWidgetsFromPage(pageResponse.data);
+    const pathVariants = filePath
+      ? [...new Set([filePath.replace(/^\/+/, ''), encodeURI(filePath.replace(/^\/+/, ''))])].map(escape).join('|')
+      : undefined;
+    const pattern = pathVariants
+      ? new RegExp(`[^\\s"'()<>]*hubfs/(?:\\d+/)?(?:${pathVariants})(?=$|[?#\\s"'()<>\\\\])`, 'gi')
+      : new RegExp(escape(file.url), 'gi');
+
+    return (...texts) => {
+      const matches = new Set<string>();
+      for (const text of texts) {
+        if (!text) continue;
+        for (const match of text.matchAll(pattern)) {
+          matches.add(match[0]);
+        }
+      }
+      return [...matches];
+    };
+  }
+
+  /**
+   * List blog tags with optional search
+   * Inputs: search_term (optional)
+   * Output: Every matching tag with id, name, slug
+   * Implementation: GET /cms/v3/blogs/tags, following paging.next.after until exhausted
+   * Purpose: Tag selection for content categorization
+   */
+  async listBlogTags(searchTerm?: string): Promise<HubSpotResponse<PaginatedResponse<BlogTag>>> {
+    logger.info('Fetching blog tags', { searchTerm });
+
+    const results: BlogTag[] = [];
+    let after: string | undefined;
+
+    do {
+      const queryParams = new URLSearchParams();
+      queryParams.set('limit', '100');
+      if (searchTerm) queryParams.set('name__icontains', searchTerm);
+      if (after) queryParams.set('after', after);
+
+      const response = await this.request<PaginatedResponse<BlogTag>>(
+        `/cms/v3/blogs/tags?${queryParams.toString()}`,
+        { method: 'GET' }
+      );
+      if (!response.success || !response.data) {
+        return response;
+      }
+
+      results.push(...response.data.results);
+      after = response.data.paging?.next?.after;
+    } while (after);
 
     return {
       success: true,
-      data: structure,
+      data: { total: results.length, results },
       rateLimitStatus: this.rateLimiter.getStatus()
     };
   }
 
   /**
-   * Update widget content using fetch-first pattern
-   * CRITICAL: Uses complete fetch-first pattern to preserve all page structure
-   * Only modifies the targeted widget's HTML content, styles, or parameters
-   * Inputs: page_id, page_type, location, html/styles/params
-   * Output: Updated page draft with validation
-   * Implementation: Fetch → locate widget → modify widget → validate structure → PATCH /draft
-   * Safety: Validates complete structure is preserved
-   * Purpose: Safe widget-level content editing
+   * Create a blog tag
+   * Implementation: POST /cms/v3/blogs/tags
    */
-  async updateWidgetContent(
-    params: WidgetUpdateParams
-  ): Promise<HubSpotResponse<{ page: Page; validation: StructuralValidation; previewUrl?: string }>> {
+  async createBlogTag(name: string, writeOptions: WriteOptions = {}): Promise<HubSpotResponse<BlogTag>> {
     const opId = logger.getNextOperationId();
-    logger.info('Starting widget content update with fetch-first pattern', {
-      opId,
-      pageId: params.pageId,
-      pageType: params.pageType,
-      location: params.location
-    });
+    logger.info('Creating blog tag', { opId, name });
 
-    // STEP 1: Fetch current state
-    const currentResponse = await this.getPage(params.pageId, params.pageType);
-    if (!currentResponse.success || !currentResponse.data) {
-      logger.error('Failed to fetch current page state', { opId, pageId: params.pageId });
-      return {
-        success: false,
-        error: currentResponse.error,
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
+    const body = { name: name.trim() };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogTag>(opId, {
+        method: 'POST',
+        endpoint: '/cms/v3/blogs/tags',
+        payload: body,
+        changes: [`+ blog tag "${body.name}"`]
+      });
     }
 
-    const beforePage = JSON.parse(JSON.stringify(currentResponse.data)); // Deep clone for comparison
-    const updatedPage = currentResponse.data;
-    logger.info('Fetched current page state', { opId, pageId: params.pageId });
+    const response = await this.request<BlogTag>(
+      '/cms/v3/blogs/tags',
+      {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }
+    );
 
-    // STEP 2: Locate and update the specific widget
-    const widget = this.getWidgetAtLocation(updatedPage, params.location);
-    if (!widget) {
-      return {
-        success: false,
-        error: {
-          status: 'WIDGET_NOT_FOUND',
-          message: `Widget not found at location: section="${params.location.sectionName}", row=${params.location.rowIndex}, column=${params.location.columnIndex}, widget=${params.location.widgetIndex}`,
-          correlationId: String(opId)
-        },
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
+    if (response.success) {
+      logger.logOperation('create_blog_tag', { opId, name: body.name }, undefined, response.data);
     }
 
-    // Update widget properties
-    if (params.html !== undefined) {
-      if (!widget.body) widget.body = {};
-      widget.body.html = params.html;
-      logger.info('Updated widget HTML content', { opId, widgetId: widget.id });
+    return response;
+  }
+
+  /**
+   * Rename a blog tag
+   * Implementation: GET tag → PATCH /cms/v3/blogs/tags/{id} with the new name
+   * Safety: Tags have no draft - the new name shows on published posts immediately
+   */
+  async renameBlogTag(
+    tagId: string,
+    newName: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogTag>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Renaming blog tag', { opId, tagId, newName });
+
+    const currentResponse = await this.request<BlogTag>(`/cms/v3/blogs/tags/${tagId}`, { method: 'GET' });
+    if (!currentResponse.success || !currentResponse.data) {
+      return currentResponse;
     }
 
-    if (params.styles !== undefined) {
-      widget.styles = { ...widget.styles, ...params.styles };
-      logger.info('Updated widget styles', { opId, widgetId: widget.id });
+    const beforeState = currentResponse.data;
+    const body = { name: newName.trim() };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogTag>(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/blogs/tags/${tagId}`,
+        payload: body,
+        changes: [`~ name: ${JSON.stringify(beforeState.name)} → ${JSON.stringify(body.name)}`]
+      });
     }
 
-    if (params.params !== undefined) {
-      widget.params = { ...widget.params, ...params.params };
-      logger.info('Updated widget parameters', { opId, widgetId: widget.id });
+    const response = await this.request<BlogTag>(
+      `/cms/v3/blogs/tags/${tagId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation('rename_blog_tag', { opId, tagId }, beforeState, response.data);
     }
 
-    // Set the updated widget back
-    const setSuccess = this.setWidgetAtLocation(updatedPage, params.location, widget);
-    if (!setSuccess) {
-      return {
-        success: false,
-        error: {
-          status: 'UPDATE_FAILED',
-          message: 'Failed to update widget at specified location',
-          correlationId: String(opId)
-        },
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
+    return response;
+  }
+
+  /**
+   * Delete a blog tag
+   * Inputs: tag_id, force
+   * Output: The tag, the post drafts it was removed from, and whether it was deleted
+   * Implementation: GET tag → scan posts for the tag → (force) updateBlogPostMetadata without the tag
+   *                 → DELETE /cms/v3/blogs/tags/{id}
+   * Safety: Refuses with TAG_IN_USE while posts still carry the tag, unless force is set. With force the tag
+   *         is removed from each post's draft (journaled, undoable), but the tag itself is kept while published
+   *         posts still show it live, so they never point at a deleted tag. Run again after publishing them.
+   */
+  async deleteBlogTag(
+    tagId: string,
+    force: boolean = false,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogTagDeleteResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Deleting blog tag', { opId, tagId, force });
+
+    const tagResponse = await this.request<BlogTag>(`/cms/v3/blogs/tags/${tagId}`, { method: 'GET' });
+    if (!tagResponse.success || !tagResponse.data) {
+      return { success: false, error: tagResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
     }
 
-    // STEP 3: Validate structure integrity
-    const validation = this.validatePageStructure(beforePage, updatedPage);
-    if (!validation.isValid) {
-      logger.error('Structure validation failed', { opId, validation });
+    const tag = tagResponse.data;
+    const postsResponse = await this.findPostsWithTags([Number(tagId)]);
+    if (!postsResponse.success) {
+      return { success: false, error: postsResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const posts = postsResponse.data!;
+    if (posts.length > 0 && !force) {
       return {
         success: false,
         error: {
-          status: 'VALIDATION_FAILED',
-          message: `Structure validation failed: ${validation.errors.join(', ')}`,
+          status: 'TAG_IN_USE',
+          message: `Tag "${tag.name}" is used by ${posts.length} post(s): ${posts.slice(0, 10).map(post => `"${post.name}" (${post.id})`).join(', ')}${posts.length > 10 ? ', ...' : ''}. Merge it into another tag with hubspot_merge_blog_tags, or pass force: true to remove it from their drafts (the tag is deleted once no published post shows it).`,
           correlationId: String(opId)
         },
         rateLimitStatus: this.rateLimiter.getStatus()
       };
     }
 
-    if (validation.warnings.length > 0) {
-      logger.warn('Structure validation warnings', { opId, warnings: validation.warnings });
+    const untag = (tagIds: number[] = []) => tagIds.map(Number).filter(id => id !== Number(tagId));
+    const publishedPosts = this.publishedPostsWithTag(posts, Number(tagId));
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogTagDeleteResult>(opId, {
+        method: 'DELETE',
+        endpoint: `/cms/v3/blogs/tags/${tagId}`,
+        changes: [
+          ...posts.map(post => `~ "${post.name}" (${post.id}) draft tagIds: ${JSON.stringify(post.tagIds)} → ${JSON.stringify(untag(post.tagIds))}`),
+          publishedPosts.length > 0
+            ? `! keep blog tag "${tag.name}" (${tagId}): ${publishedPosts.length} published post(s) still show it until republished`
+            : `- blog tag "${tag.name}" (${tagId})`
+        ]
+      });
     }
 
-    // STEP 4: PATCH to draft endpoint with complete page object
-    logger.info('Updating page draft with modified widget', { opId, pageId: params.pageId });
-    const response = await this.request<Page>(
-      `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify(updatedPage)
-      }
-    );
+    const updatedPosts: BlogTagDeleteResult['updatedPosts'] = [];
+    const failedPosts: BlogTagDeleteResult['failedPosts'] = [];
 
-    if (!response.success) {
-      logger.error('Failed to update page draft', { opId, error: response.error });
-      return {
-        success: false,
-        error: response.error,
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
+    for (const post of posts) {
+      const result = await this.updateBlogPostMetadata(post.id, { tagIds: untag(post.tagIds) });
+      if (result.success) {
+        updatedPosts.push({ postId: post.id, name: post.name, operationId: result.operationId });
+      } else {
+        failedPosts.push({ postId: post.id, name: post.name, error: result.error });
+      }
     }
 
-    // Generate preview URL
-    const previewUrl = response.data?.url
-      ? `${response.data.url}?hs_preview=${response.data.previewKey || 'draft'}`
-      : undefined;
+    let deleted = false;
+    if (failedPosts.length === 0 && publishedPosts.length === 0) {
+      const response = await this.request<void>(`/cms/v3/blogs/tags/${tagId}`, { method: 'DELETE' });
+      if (!response.success) {
+        return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      deleted = true;
+    }
 
     logger.logOperation(
-      'update_widget_content',
-      { opId, pageId: params.pageId, location: params.location },
-      beforePage,
-      response.data
+      'delete_blog_tag',
+      { opId, tagId, deleted, updatedPosts: updatedPosts.length, failedPosts: failedPosts.length, publishedPosts: publishedPosts.length },
+      tag,
+      undefined
     );
 
     return {
       success: true,
-      data: {
-        page: response.data!,
-        validation,
-        previewUrl
-      },
+      data: { tag, deleted, updatedPosts, failedPosts, publishedPosts },
       rateLimitStatus: this.rateLimiter.getStatus()
     };
   }
 
   /**
-   * Add a new widget to a page
-   * CRITICAL: Uses complete fetch-first pattern
-   * Inputs: page_id, page_type, location (without widgetIndex), widget details
-   * Output: Updated page draft
-   * Implementation: Fetch → add widget to cell → validate → PATCH /draft
-   * Safety: Validates structure is preserved and widget count increased by 1
+   * Merge blog tags into one target tag
+   * Inputs: source_tag_ids, target_tag_id, delete_source_tags
+   * Output: Posts that were retagged (with journal operation ids), any that failed, and the source tags deleted or kept
+   * Implementation: Scan posts for source tags → updateBlogPostMetadata with source ids swapped for the target
+   *                 → optionally DELETE the source tags once every post was retagged
+   * Safety: Posts are retagged in their drafts (journaled, undoable); published posts show the merge after publishing.
+   *         Source tags are only deleted if no post failed, and a source tag still shown by a published post is
+   *         kept (reported in keptTagIds) so the live post never points at a deleted tag.
    */
-  async addWidget(
-    params: WidgetAddParams
-  ): Promise<HubSpotResponse<{ page: Page; validation: StructuralValidation; widgetLocation: WidgetLocation }>> {
+  async mergeBlogTags(
+    sourceTagIds: string[],
+    targetTagId: string,
+    deleteSourceTags: boolean = false,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogTagMergeResult>> {
     const opId = logger.getNextOperationId();
-    logger.info('Starting add widget operation', { opId, pageId: params.pageId });
+    logger.info('Merging blog tags', { opId, sourceTagIds, targetTagId, deleteSourceTags });
 
-    // STEP 1: Fetch current state
-    const currentResponse = await this.getPage(params.pageId, params.pageType);
-    if (!currentResponse.success || !currentResponse.data) {
+    const sourceIds = sourceTagIds.map(Number).filter(id => id !== Number(targetTagId));
+    if (sourceIds.length === 0) {
       return {
         success: false,
-        error: currentResponse.error,
+        error: {
+          status: 'INVALID_PARAMS',
+          message: 'sourceTagIds must contain at least one tag other than the target',
+          correlationId: String(opId)
+        },
         rateLimitStatus: this.rateLimiter.getStatus()
       };
     }
 
-    const beforePage = JSON.parse(JSON.stringify(currentResponse.data));
-    const updatedPage = currentResponse.data;
+    const targetResponse = await this.request<BlogTag>(`/cms/v3/blogs/tags/${targetTagId}`, { method: 'GET' });
+    if (!targetResponse.success || !targetResponse.data) {
+      return { success: false, error: targetResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
 
-    // STEP 2: Navigate to the target cell and add widget
-    try {
-      const section = (updatedPage.layoutSections as any)[params.location.sectionName];
-      if (!section || !section.rows) {
-        return {
-          success: false,
-          error: {
-            status: 'SECTION_NOT_FOUND',
-            message: `Layout section "${params.location.sectionName}" not found`,
-            correlationId: String(opId)
-          },
-          rateLimitStatus: this.rateLimiter.getStatus()
-        };
-      }
+    const target = targetResponse.data;
+    const postsResponse = await this.findPostsWithTags(sourceIds);
+    if (!postsResponse.success) {
+      return { success: false, error: postsResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
 
-      const row = section.rows[params.location.rowIndex];
-      if (!row || !row.cells) {
-        return {
-          success: false,
-          error: {
-            status: 'ROW_NOT_FOUND',
-            message: `Row ${params.location.rowIndex} not found in section "${params.location.sectionName}"`,
-            correlationId: String(opId)
-          },
-          rateLimitStatus: this.rateLimiter.getStatus()
-        };
-      }
+    const posts = postsResponse.data!;
+    const retag = (tagIds: number[] = []) => [
+      ...new Set(tagIds.map(id => (sourceIds.includes(Number(id)) ? Number(targetTagId) : Number(id))))
+    ];
+
+    // Published posts keep their source tags live until republished, so those tags must survive the merge
+    const keptTagIds: BlogTagMergeResult['keptTagIds'] = deleteSourceTags
+      ? sourceIds
+        .map(id => ({ tagId: id, publishedPosts: this.publishedPostsWithTag(posts, id) }))
+        .filter(kept => kept.publishedPosts.length > 0)
+      : [];
+    const deletableIds = sourceIds.filter(id => !keptTagIds.some(kept => kept.tagId === id));
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogTagMergeResult>(opId, {
+        method: 'PATCH',
+        endpoint: '/cms/v3/blogs/posts/{postId}/draft',
+        payload: posts.map(post => ({ postId: post.id, tagIds: retag(post.tagIds) })),
+        changes: [
+          ...posts.map(post => `~ "${post.name}" (${post.id}) tagIds: ${JSON.stringify(post.tagIds)} → ${JSON.stringify(retag(post.tagIds))}`),
+          ...(deleteSourceTags ? deletableIds.map(id => `- blog tag ${id}`) : []),
+          ...keptTagIds.map(kept => `! keep blog tag ${kept.tagId}: ${kept.publishedPosts.length} published post(s) still show it until republished`)
+        ]
+      });
+    }
 
-      const cell = row.cells[params.location.columnIndex];
-      if (!cell) {
-        return {
-          success: false,
-          error: {
-            status: 'CELL_NOT_FOUND',
-            message: `Column ${params.location.columnIndex} not found in row ${params.location.rowIndex}`,
-            correlationId: String(opId)
-          },
-          rateLimitStatus: this.rateLimiter.getStatus()
-        };
-      }
+    const updatedPosts: BlogTagMergeResult['updatedPosts'] = [];
+    const failedPosts: BlogTagMergeResult['failedPosts'] = [];
 
-      // Initialize widgets array if it doesn't exist
-      if (!cell.widgets) {
-        cell.widgets = [];
+    for (const post of posts) {
+      const result = await this.updateBlogPostMetadata(post.id, { tagIds: retag(post.tagIds) });
+      if (result.success) {
+        updatedPosts.push({ postId: post.id, name: post.name, operationId: result.operationId });
+      } else {
+        failedPosts.push({ postId: post.id, name: post.name, error: result.error });
       }
+    }
 
-      // Create new widget
-      const newWidget: Widget = {
-        id: `widget-${Date.now()}`,
-        name: params.widgetName,
-        type: params.widgetType,
-        body: params.html ? { html: params.html } : undefined,
-        params: params.params || {},
-        styles: params.styles || {}
-      };
-
-      // Add widget to the end of the cell's widgets array
-      cell.widgets.push(newWidget);
-      const widgetIndex = cell.widgets.length - 1;
-
-      const widgetLocation: WidgetLocation = {
-        sectionName: params.location.sectionName,
-        rowIndex: params.location.rowIndex,
-        columnIndex: params.location.columnIndex,
-        widgetIndex
-      };
+    const deletedTagIds: number[] = [];
+    if (deleteSourceTags && failedPosts.length === 0) {
+      for (const id of deletableIds) {
+        const response = await this.request<void>(`/cms/v3/blogs/tags/${id}`, { method: 'DELETE' });
+        if (response.success) {
+          deletedTagIds.push(id);
+        } else {
+          logger.warn('Failed to delete merged tag', { opId, tagId: id, error: response.error });
+        }
+      }
+    }
 
-      logger.info('Added new widget to page', { opId, widgetLocation, widgetId: newWidget.id });
+    logger.logOperation(
+      'merge_blog_tags',
+      { opId, sourceIds, targetTagId, updatedPosts: updatedPosts.length, failedPosts: failedPosts.length, deletedTagIds, keptTagIds },
+      undefined,
+      undefined
+    );
 
-      // STEP 3: Validate structure
-      const validation = this.validatePageStructure(beforePage, updatedPage);
+    return {
+      success: true,
+      data: { target, updatedPosts, failedPosts, deletedTagIds, keptTagIds },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
 
-      // For adding widgets, we expect widget count to increase by 1
-      if (validation.afterWidgetCount !== validation.beforeWidgetCount + 1) {
-        logger.warn('Unexpected widget count after adding widget', {
-          opId,
-          expected: validation.beforeWidgetCount + 1,
-          actual: validation.afterWidgetCount
-        });
-      }
+  /**
+   * Helper: Published posts whose live version carries a tag
+   * Post listings return the live version of published posts, so their tagIds are what visitors see
+   */
+  private publishedPostsWithTag(posts: BlogPost[], tagId: number): Array<{ postId: string; name: string }> {
+    return posts
+      .filter(post => (post.currentState || post.state) === 'PUBLISHED' && (post.tagIds || []).some(id => Number(id) === tagId))
+      .map(post => ({ postId: post.id, name: post.name }));
+  }
 
-      if (!validation.isValid) {
-        return {
-          success: false,
-          error: {
-            status: 'VALIDATION_FAILED',
-            message: `Structure validation failed: ${validation.errors.join(', ')}`,
-            correlationId: String(opId)
-          },
-          rateLimitStatus: this.rateLimiter.getStatus()
-        };
-      }
+  /**
+   * Resolve tag names to ids, optionally creating the missing ones
+   * Input: tag names (case-insensitive), create_missing
+   * Output: Tag ids in input order plus any tags that were created
+   * Safety: Fails with TAG_NOT_FOUND rather than guessing when a name is unknown and create_missing is off.
+   *         In dry-run mode missing tags are reported in pendingTags instead of being created.
+   */
+  async resolveBlogTags(
+    names: string[],
+    createMissing: boolean = false,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogTagResolution>> {
+    const tagsResponse = await this.listBlogTags();
+    if (!tagsResponse.success || !tagsResponse.data) {
+      return { success: false, error: tagsResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
 
-      // STEP 4: PATCH to draft endpoint
-      const response = await this.request<Page>(
-        `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
-        {
-          method: 'PATCH',
-          body: JSON.stringify(updatedPage)
-        }
-      );
+    const byName = new Map<string, BlogTag[]>();
+    for (const tag of tagsResponse.data.results) {
+      const key = tag.name.trim().toLowerCase();
+      byName.set(key, [...(byName.get(key) || []), tag]);
+    }
 
-      if (!response.success) {
-        return {
-          success: false,
-          error: response.error,
-          rateLimitStatus: this.rateLimiter.getStatus()
-        };
+    const tagIds: number[] = [];
+    const created: BlogTag[] = [];
+    const missing: string[] = [];
+
+    for (const rawName of names) {
+      const name = rawName.trim();
+      const matches = byName.get(name.toLowerCase()) || [];
+      // Several tags can share a name across languages; prefer the exact-case match
+      const match = matches.find(tag => tag.name.trim() === name) || matches[0];
+      if (match) {
+        tagIds.push(Number(match.id));
+      } else {
+        missing.push(name);
       }
+    }
 
-      logger.logOperation(
-        'add_widget',
-        { opId, pageId: params.pageId, widgetLocation },
-        beforePage,
-        response.data
-      );
-
+    if (missing.length > 0 && !createMissing) {
       return {
-        success: true,
-        data: {
-          page: response.data!,
-          validation,
-          widgetLocation
+        success: false,
+        error: {
+          status: 'TAG_NOT_FOUND',
+          message: `No blog tag named ${missing.map(name => `"${name}"`).join(', ')}. Check hubspot_list_blog_tags, or set createMissingTags to create them.`,
+          correlationId: 'N/A'
         },
         rateLimitStatus: this.rateLimiter.getStatus()
       };
-    } catch (error) {
-      logger.error('Error adding widget', { opId, error });
+    }
+
+    if (missing.length > 0 && this.isDryRun(writeOptions)) {
       return {
-        success: false,
-        error: {
-          status: 'ADD_WIDGET_FAILED',
-          message: `Failed to add widget: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          correlationId: String(opId)
-        },
+        success: true,
+        data: { tagIds, created, pendingTags: missing },
         rateLimitStatus: this.rateLimiter.getStatus()
       };
     }
+
+    for (const name of missing) {
+      const response = await this.createBlogTag(name);
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      created.push(response.data);
+      tagIds.push(Number(response.data.id));
+    }
+
+    return {
+      success: true,
+      data: { tagIds, created },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
   }
 
   /**
-   * Remove a widget from a page
-   * CRITICAL: Uses complete fetch-first pattern
-   * Inputs: page_id, page_type, location
-   * Output: Updated page draft
-   * Implementation: Fetch → remove widget from array → validate → PATCH /draft
-   * Safety: Validates widget count decreased by exactly 1
+   * Helper: Combine explicit tag ids with resolved tag names, without creating anything
+   * Returns the merged, de-duplicated id list plus the missing names (when create_missing is on),
+   * which the caller creates with createPendingTags right before its write; errors carry the caller's correlation id
    */
-  async removeWidget(
-    params: WidgetRemoveParams
-  ): Promise<HubSpotResponse<{ page: Page; validation: StructuralValidation }>> {
-    const opId = logger.getNextOperationId();
-    logger.info('Starting remove widget operation', { opId, pageId: params.pageId, location: params.location });
-
-    // STEP 1: Fetch current state
-    const currentResponse = await this.getPage(params.pageId, params.pageType);
-    if (!currentResponse.success || !currentResponse.data) {
+  private async resolveTagParams(
+    opId: number,
+    tagIds: number[] | undefined,
+    tagNames: string[],
+    createMissing: boolean | undefined
+  ): Promise<HubSpotResponse<{ tagIds: number[]; pendingTags: string[] }>> {
+    const resolution = await this.resolveBlogTags(tagNames, createMissing === true, { dryRun: true });
+    if (!resolution.success || !resolution.data) {
       return {
         success: false,
-        error: currentResponse.error,
-        rateLimitStatus: this.rateLimiter.getStatus()
+        error: resolution.error && { ...resolution.error, correlationId: String(opId) }
       };
     }
 
-    const beforePage = JSON.parse(JSON.stringify(currentResponse.data));
-    const updatedPage = currentResponse.data;
-
-    // STEP 2: Navigate to widget and remove it
-    try {
-      const section = (updatedPage.layoutSections as any)[params.location.sectionName];
-      if (!section || !section.rows) {
-        return {
-          success: false,
-          error: {
-            status: 'SECTION_NOT_FOUND',
-            message: `Layout section "${params.location.sectionName}" not found`,
-            correlationId: String(opId)
-          },
-          rateLimitStatus: this.rateLimiter.getStatus()
-        };
+    return {
+      success: true,
+      data: {
+        tagIds: [...new Set([...(tagIds || []), ...resolution.data.tagIds])],
+        pendingTags: resolution.data.pendingTags || []
       }
+    };
+  }
 
-      const row = section.rows[params.location.rowIndex];
-      if (!row || !row.cells) {
+  /**
+   * Helper: Create the tags resolveTagParams found missing and add their ids to tagIds
+   * Called after the conflict check and the dry-run return, so a refused write leaves no unused tags behind
+   */
+  private async createPendingTags(
+    opId: number,
+    tagIds: number[] | undefined,
+    pendingTags: string[]
+  ): Promise<HubSpotResponse<number[]>> {
+    const ids = [...(tagIds || [])];
+    for (const name of pendingTags) {
+      const response = await this.createBlogTag(name);
+      if (!response.success || !response.data) {
         return {
           success: false,
-          error: {
-            status: 'ROW_NOT_FOUND',
-            message: `Row ${params.location.rowIndex} not found`,
-            correlationId: String(opId)
-          },
+          error: response.error && { ...response.error, correlationId: String(opId) },
           rateLimitStatus: this.rateLimiter.getStatus()
         };
       }
+      ids.push(Number(response.data.id));
+    }
 
-      const cell = row.cells[params.location.columnIndex];
-      if (!cell || !cell.widgets) {
-        return {
-          success: false,
-          error: {
-            status: 'CELL_NOT_FOUND',
+    if (pendingTags.length > 0) {
+      logger.info('Created missing blog tags', { opId, tags: pendingTags });
+    }
+
+    return { success: true, data: ids, rateLimitStatus: this.rateLimiter.getStatus() };
+  }
+
+  /**
+   * Helper: Add tags that a dry run would have created to its change summary
+   */
+  private withPendingTags<T>(pendingTags: string[], preview: HubSpotResponse<T>): HubSpotResponse<T> {
+    if (preview.dryRun) {
+      preview.dryRun.changes.push(...pendingTags.map(name => `+ blog tag "${name}" (created before the write)`));
+    }
+    return preview;
+  }
+
+  /**
+   * Helper: Find every blog post carrying any of the given tags
+   * Draft and scheduled posts are listed by state too, so posts that were never published aren't missed
+   */
+  private async findPostsWithTags(tagIds: number[]): Promise<HubSpotResponse<BlogPost[]>> {
+    const postsById = new Map<string, BlogPost>();
+
+    for (const state of [undefined, 'DRAFT', 'SCHEDULED'] as const) {
+      const posts = await this.listAllForScan(offset => this.listBlogPosts({ limit: 100, offset, state }));
+      if (!posts.success) {
+        return posts;
+      }
+      for (const post of posts.data!) {
+        postsById.set(post.id, post);
+      }
+    }
+
+    return {
+      success: true,
+      data: [...postsById.values()].filter(post => (post.tagIds || []).some(id => tagIds.includes(Number(id))))
+    };
+  }
+
+  /**
+   * List blog authors
+   * Inputs: limit, offset
+   * Output: Paginated authors with id, name, email
+   * Implementation: GET /cms/v3/blogs/authors
+   */
+  async listBlogAuthors(
+    limit: number = 100,
+    offset?: number
+  ): Promise<HubSpotResponse<PaginatedResponse<BlogAuthor>>> {
+    const queryParams = new URLSearchParams();
+    queryParams.set('limit', Math.min(limit, 100).toString());
+    if (offset) queryParams.set('offset', offset.toString());
+
+    logger.info('Fetching blog authors', { limit, offset });
+    return this.request<PaginatedResponse<BlogAuthor>>(
+      `/cms/v3/blogs/authors?${queryParams.toString()}`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Search blog authors by name or email
+   * Input: search term (partial, case-insensitive)
+   * Output: Authors whose full name, display name or email contains the term
+   * Implementation: Page through /cms/v3/blogs/authors and filter client-side
+   *                 (the API can't OR a name filter with an email filter)
+   */
+  async searchBlogAuthors(searchTerm: string): Promise<HubSpotResponse<BlogAuthor[]>> {
+    logger.info('Searching blog authors', { searchTerm });
+
+    const authors = await this.listAllForScan(offset => this.listBlogAuthors(100, offset));
+    if (!authors.success) {
+      return { success: false, error: authors.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const term = searchTerm.trim().toLowerCase();
+    return {
+      success: true,
+      data: authors.data!.filter(author =>
+        [author.fullName, author.displayName, author.email]
+          .some(value => value?.toLowerCase().includes(term))
+      ),
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Get a single blog author
+   */
+  async getBlogAuthor(authorId: string): Promise<HubSpotResponse<BlogAuthor>> {
+    logger.info('Fetching blog author', { authorId });
+    return this.request<BlogAuthor>(`/cms/v3/blogs/authors/${authorId}`, { method: 'GET' });
+  }
+
+  /**
+   * Resolve an author name or email to a single author
+   * Input: full name, display name or email (exact, case-insensitive)
+   * Output: The one matching author
+   * Safety: Fails with AMBIGUOUS_AUTHOR when several authors match, and with AUTHOR_NOT_FOUND
+   *         (listing partial matches) when none does - never guesses
+   */
+  async resolveBlogAuthor(nameOrEmail: string): Promise<HubSpotResponse<BlogAuthor>> {
+    const searchResponse = await this.searchBlogAuthors(nameOrEmail);
+    if (!searchResponse.success || !searchResponse.data) {
+      return { success: false, error: searchResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const term = nameOrEmail.trim().toLowerCase();
+    const candidates = searchResponse.data;
+    const exact = candidates.filter(author =>
+      [author.fullName, author.displayName, author.email].some(value => value?.toLowerCase() === term)
+    );
+    const describe = (authors: BlogAuthor[]) =>
+      authors.map(author => `${author.fullName}${author.email ? ` <${author.email}>` : ''} (id ${author.id})`).join(', ');
+
+    if (exact.length === 1) {
+      return { success: true, data: exact[0], rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    if (exact.length > 1) {
+      return {
+        success: false,
+        error: {
+          status: 'AMBIGUOUS_AUTHOR',
+          message: `"${nameOrEmail}" matches ${exact.length} blog authors: ${describe(exact)}. Pass blogAuthorId or the author's email instead.`,
+          correlationId: 'N/A'
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        status: 'AUTHOR_NOT_FOUND',
+        message: `No blog author named "${nameOrEmail}".${candidates.length > 0 ? ` Partial matches: ${describe(candidates.slice(0, 10))}.` : ''} Use hubspot_create_blog_author to add one.`,
+        correlationId: 'N/A'
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Create a blog author
+   * Inputs: full_name, email, bio, website, social links, avatar
+   * Output: Created author
+   * Implementation: POST /cms/v3/blogs/authors
+   */
+  async createBlogAuthor(
+    params: BlogAuthorCreateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogAuthor>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Creating blog author', { opId, fullName: params.fullName });
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogAuthor>(opId, {
+        method: 'POST',
+        endpoint: '/cms/v3/blogs/authors',
+        payload: params,
+        changes: [`+ blog author "${params.fullName}"${params.email ? ` <${params.email}>` : ''}`]
+      });
+    }
+
+    const response = await this.request<BlogAuthor>(
+      '/cms/v3/blogs/authors',
+      {
+        method: 'POST',
+        body: JSON.stringify(params)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation('create_blog_author', { opId, params }, undefined, response.data);
+    }
+
+    return response;
+  }
+
+  /**
+   * Update a blog author using fetch-first pattern
+   * Inputs: author_id, any of full_name, email, bio, website, social links, avatar
+   * Output: Updated author
+   * Implementation: GET author → merge changed fields → PATCH /cms/v3/blogs/authors/{id}
+   * Safety: Authors have no draft - changes apply to every post by this author immediately
+   */
+  async updateBlogAuthor(
+    authorId: string,
+    updates: BlogAuthorUpdateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogAuthor>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Updating blog author', { opId, authorId, fields: Object.keys(updates) });
+
+    const currentResponse = await this.getBlogAuthor(authorId);
+    if (!currentResponse.success || !currentResponse.data) {
+      return currentResponse;
+    }
+
+    const beforeState = currentResponse.data;
+    const changes: string[] = [];
+    for (const [field, value] of Object.entries(updates)) {
+      if (value !== undefined && (beforeState as any)[field] !== value) {
+        changes.push(`~ ${field}: ${JSON.stringify((beforeState as any)[field])} → ${JSON.stringify(value)}`);
+      }
+    }
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogAuthor>(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/blogs/authors/${authorId}`,
+        payload: updates,
+        changes
+      });
+    }
+
+    const response = await this.request<BlogAuthor>(
+      `/cms/v3/blogs/authors/${authorId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updates)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation('update_blog_author', { opId, authorId, updates }, beforeState, response.data);
+    }
+
+    return response;
+  }
+
+  /**
+   * Generate a preview URL for draft content
+   * Input: post_id or page_id
+   * Output: Preview URL for review, plus whether it opens without a HubSpot login
+   * Implementation: Fetch the draft → buildPreviewUrl (draft slug + preview key)
+   * Purpose: Enable human review before publication
+   */
+  async getDraftPreviewUrl(
+    params: PreviewUrlParams
+  ): Promise<HubSpotResponse<PreviewLink>> {
+    logger.info('Generating preview URL', { contentId: params.contentId, contentType: params.contentType });
+
+    // Fetch the draft rather than the live object so an unpublished slug change is reflected
+    const response = await this.getContentDraft(params.contentType, params.contentId);
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error || {
+          status: 'NOT_FOUND',
+          message: 'Failed to fetch content for preview URL generation',
+          correlationId: 'N/A'
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const preview = this.buildPreviewUrl(response.data);
+    if (!preview) {
+      return {
+        success: false,
+        error: {
+          status: 'NO_URL',
+          message: 'Content does not have a URL or domain yet. Save the content with a slug first to generate a URL.',
+          correlationId: 'N/A'
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    logger.info('Preview URL generated', { previewUrl: preview.previewUrl, requiresLogin: preview.requiresLogin });
+
+    return {
+      success: true,
+      data: preview,
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Build the draft preview link for a blog post or page
+   * Input: content object as returned by any read or write method
+   * Output: PreviewLink, or undefined when the content has neither a URL nor a domain
+   * Implementation: Base URL from url (or domain + slug) → append hs_preview={previewKey}-{id}
+   * Safety: Pure - no API call
+   *
+   * HubSpot only serves keyed previews to anonymous visitors on connected custom domains.
+   * System domains (*.hs-sites.com and friends) fall back to the logged-in session, so reviewers
+   * outside the portal can't open them. Without a preview key there is no link that shows the draft,
+   * so previewUrl is left out and the note says why.
+   */
+  buildPreviewUrl(content: BlogPost | Page): PreviewLink | undefined {
+    let baseUrl: string | undefined = content.url || content.absoluteUrl;
+    const domainField = (content as Page).domain;
+
+    if (!baseUrl && domainField) {
+      const slug = (content.slug || '').replace(/^\/+/, '');
+      baseUrl = `https://${domainField}/${slug}`;
+    }
+
+    if (!baseUrl) {
+      return undefined;
+    }
+
+    let domain: string;
+    try {
+      domain = new URL(baseUrl).hostname;
+    } catch {
+      domain = domainField || '';
+    }
+
+    const isSystemDomain = /(^|\.)(hs-sites(-[a-z0-9]+)?\.com|hubspotpagebuilder(-[a-z0-9]+)?\.com|hubspot\.net)$/i.test(domain);
+    const separator = baseUrl.includes('?') ? '&' : '?';
+
+    let previewUrl: string | undefined;
+    let requiresLogin: boolean;
+    let note: string;
+
+    if (content.previewKey) {
+      previewUrl = `${baseUrl}${separator}hs_preview=${content.previewKey}-${content.id}`;
+      requiresLogin = isSystemDomain;
+      note = isSystemDomain
+        ? `${domain} is a HubSpot system domain - the preview only renders for users logged in to the portal.`
+        : 'Shareable preview link - works without a HubSpot login.';
+    } else {
+      previewUrl = undefined;
+      requiresLogin = true;
+      note = 'No preview key on this content, so there is no link that opens the draft. Preview it from the HubSpot editor.';
+    }
+
+    return { previewUrl, domain, isSystemDomain, requiresLogin, note };
+  }
+
+  // ========================================
+  // Phase 3: Page management and advanced features
+  // ========================================
+
+  /**
+   * List pages (site pages or landing pages) with filtering and pagination
+   * Inputs: page_type (site-pages/landing-pages), state, template_path, domain
+   * Output: Array of pages with id, name, slug, state, domain
+   * Implementation: GET /cms/v3/pages/{pageType}
+   */
+  async listPages(
+    params: PageListParams
+  ): Promise<HubSpotResponse<PaginatedResponse<Page>>> {
+    const queryParams = new URLSearchParams();
+
+    // Add pagination
+    if (params.limit) queryParams.set('limit', Math.min(params.limit, 100).toString());
+    if (params.offset) queryParams.set('offset', params.offset.toString());
+
+    // Add filters
+    if (params.state) queryParams.set('state', params.state);
+    if (params.templatePath) queryParams.set('templatePath', params.templatePath);
+    if (params.domain) queryParams.set('domain', params.domain);
+    if (params.name) queryParams.set('name__icontains', params.name);
+    if (params.created) queryParams.set('created__gt', params.created);
+    if (params.updated) queryParams.set('updated__gt', params.updated);
+    if (params.archivedInDashboard !== undefined) {
+      queryParams.set('archivedInDashboard', params.archivedInDashboard.toString());
+    }
+
+    const endpoint = `/cms/v3/pages/${params.pageType}?${queryParams.toString()}`;
+    logger.info('Listing pages', { pageType: params.pageType, filters: params });
+
+    return this.request<PaginatedResponse<Page>>(endpoint, { method: 'GET' });
+  }
+
+  /**
+   * Get complete page details
+   * Input: page_id, page_type
+   * Output: Full page object (WARNING: includes complex nested structures)
+   * Implementation: GET /cms/v3/pages/{pageType}/{objectId}
+   */
+  async getPage(pageId: string, pageType: 'site-pages' | 'landing-pages'): Promise<HubSpotResponse<Page>> {
+    logger.info('Fetching page', { pageId, pageType });
+    return this.request<Page>(`/cms/v3/pages/${pageType}/${pageId}`, { method: 'GET' });
+  }
+
+  /**
+   * Update page metadata using fetch-first pattern
+   * CRITICAL: Explicitly excludes layoutSections, widgets, widgetContainers to prevent data loss
+   * Only updates: name, slug, htmlTitle, metaDescription
+   * Inputs: page_id, page_type, title, meta_description, slug
+   * Output: Updated page draft
+   * Implementation: Fetch → modify simple fields only → PATCH /draft
+   * Safety: Explicitly excludes layoutSections, widgets, widgetContainers
+   * Purpose: SEO optimization without layout risk
+   */
+  async updatePageMetadata(
+    pageId: string,
+    pageType: 'site-pages' | 'landing-pages',
+    metadata: PageUpdateMetadata,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting page metadata update with fetch-first pattern', { opId, pageId, pageType });
+
+    // STEP 1: Fetch current state
+    const currentResponse = await this.getPage(pageId, pageType);
+    if (!currentResponse.success || !currentResponse.data) {
+      logger.error('Failed to fetch current page state', { opId, pageId });
+      return currentResponse;
+    }
+
+    const beforeState = currentResponse.data;
+    logger.info('Fetched current page state', { opId, pageId });
+
+    const { createRedirect, ...fields } = metadata;
+    const redirectPlan = createRedirect && fields.slug !== undefined && fields.slug !== beforeState.slug
+      ? this.planSlugRedirect(beforeState, fields.slug)
+      : undefined;
+
+    // STEP 2: Merge metadata (explicitly exclude nested structures)
+    const updatedPage = {
+      ...beforeState,
+      ...fields,
+      // CRITICAL: Preserve all nested structures to prevent data loss
+      widgets: beforeState.widgets,
+      widgetContainers: beforeState.widgetContainers,
+      layoutSections: beforeState.layoutSections
+    };
+
+    const conflict = await this.checkConcurrentModification(
+      opId, this.pageTypeToContentType(pageType), beforeState, writeOptions, () => this.getPage(pageId, pageType)
+    );
+    if (conflict) {
+      return {
+        success: false,
+        error: conflict,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (this.isDryRun(writeOptions)) {
+      return this.withRedirectPlan(redirectPlan, this.dryRunResponse<Page>(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/pages/${pageType}/${pageId}/draft`,
+        payload: updatedPage,
+        beforeState
+      }));
+    }
+
+    // STEP 3: PATCH to draft endpoint
+    logger.info('Updating page draft with metadata', { opId, pageId });
+    const response = await this.request<Page>(
+      `/cms/v3/pages/${pageType}/${pageId}/draft`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updatedPage)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation(
+        'update_page_metadata',
+        { opId, pageId, pageType, metadata },
+        beforeState,
+        response.data
+      );
+
+      if (redirectPlan) {
+        response.redirect = await this.createSlugRedirect(opId, redirectPlan);
+      }
+
+      response.operationId = await this.journal.record({
+        operation: 'update_page_metadata',
+        contentType: this.pageTypeToContentType(pageType),
+        contentId: pageId,
+        details: { metadata, redirectId: response.redirect?.redirect?.id },
+        beforeState
+      }, opId);
+    }
+
+    return response;
+  }
+
+  /**
+   * Publish a page draft
+   * Inputs: page_id, page_type
+   * Output: Published page
+   * Implementation: POST /cms/v3/pages/{pageType}/{objectId}/draft/push-live
+   * Purpose: Human-approved publication of page edits
+   */
+  async publishPageDraft(
+    pageId: string,
+    pageType: 'site-pages' | 'landing-pages',
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Publishing page draft', { opId, pageId, pageType });
+
+    // Fetch current state for audit log
+    const currentResponse = await this.getPage(pageId, pageType);
+    const beforeState = currentResponse.success ? currentResponse.data : undefined;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<Page>(opId, {
+        method: 'POST',
+        endpoint: `/cms/v3/pages/${pageType}/${pageId}/draft/push-live`,
+        changes: [`Publish draft of "${beforeState?.name || pageId}" live immediately`]
+      });
+    }
+
+    const response = await this.request<Page>(
+      `/cms/v3/pages/${pageType}/${pageId}/draft/push-live`,
+      { method: 'POST' }
+    );
+
+    if (response.success) {
+      logger.logOperation(
+        'publish_page',
+        { opId, pageId, pageType },
+        beforeState,
+        response.data
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Schedule a page to be published at a future date
+   * Inputs: page_id, page_type, publish_date
+   * Output: Scheduled page
+   * Implementation: POST /cms/v3/pages/{pageType}/schedule with { id, publishDate }
+   * Purpose: Coordinated launches
+   */
+  async schedulePage(
+    pageId: string,
+    pageType: 'site-pages' | 'landing-pages',
+    publishDate: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Scheduling page', { opId, pageId, pageType, publishDate });
+
+    // Fetch current state for audit log
+    const currentResponse = await this.getPage(pageId, pageType);
+    const beforeState = currentResponse.success ? currentResponse.data : undefined;
+
+    const body = { id: pageId, publishDate };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<Page>(opId, {
+        method: 'POST',
+        endpoint: `/cms/v3/pages/${pageType}/schedule`,
+        payload: body,
+        changes: [`Schedule "${beforeState?.name || pageId}" to go live at ${publishDate}`]
+      });
+    }
+
+    const response = await this.request<Page>(
+      `/cms/v3/pages/${pageType}/schedule`,
+      {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation(
+        'schedule_page',
+        { opId, pageId, pageType, publishDate },
+        beforeState,
+        // The schedule endpoint returns no body, so log the requested schedule instead
+        response.data && Object.keys(response.data).length > 0 ? response.data : body
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Unpublish a page, reverting it to draft
+   * Inputs: page_id, page_type
+   * Output: Page in DRAFT state
+   * Implementation: PATCH /cms/v3/pages/{pageType}/{objectId} with { state: "DRAFT" }
+   * Safety: Takes the page offline; the content itself is not changed
+   */
+  async unpublishPage(
+    pageId: string,
+    pageType: 'site-pages' | 'landing-pages',
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Unpublishing page', { opId, pageId, pageType });
+
+    // Fetch current state for audit log
+    const currentResponse = await this.getPage(pageId, pageType);
+    const beforeState = currentResponse.success ? currentResponse.data : undefined;
+
+    const body = { state: 'DRAFT' };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<Page>(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/pages/${pageType}/${pageId}`,
+        payload: body,
+        changes: [`Unpublish "${beforeState?.name || pageId}" (state ${beforeState?.state || 'unknown'} → DRAFT)`]
+      });
+    }
+
+    const response = await this.request<Page>(
+      `/cms/v3/pages/${pageType}/${pageId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation(
+        'unpublish_page',
+        { opId, pageId, pageType },
+        beforeState,
+        response.data
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Create an A/B test variation of a page
+   * Inputs: page_id, page_type, variation_name
+   * Output: The master page, the new variation page and the variation's widget structure
+   * Implementation: GET master → POST /cms/v3/pages/{pageType}/ab-test/create-variation
+   * Safety: Refuses to branch from a page that is itself a variant; the variation starts as a draft copy
+   * Purpose: Let the widget tools edit the variant while the master stays untouched
+   */
+  async createAbTestVariation(
+    pageId: string,
+    pageType: 'site-pages' | 'landing-pages',
+    variationName: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<AbTestVariationResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Creating A/B test variation', { opId, pageId, pageType, variationName });
+
+    const masterResponse = await this.getPage(pageId, pageType);
+    if (!masterResponse.success || !masterResponse.data) {
+      return {
+        success: false,
+        error: masterResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const master = masterResponse.data;
+    if (master.abStatus && master.abStatus !== 'MASTER') {
+      return {
+        success: false,
+        error: {
+          status: 'INVALID_AB_TEST_TARGET',
+          message: `Page "${master.name}" is an A/B test ${master.abStatus} (test ${master.abTestId || 'unknown'}). Create variations from the master page.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const endpoint = `/cms/v3/pages/${pageType}/ab-test/create-variation`;
+    const body = { contentId: pageId, variationName };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<AbTestVariationResult>(opId, {
+        method: 'POST',
+        endpoint,
+        payload: body,
+        changes: [`+ A/B test variation "${variationName}" of "${master.name}" (${pageId})`]
+      });
+    }
+
+    const response = await this.request<Page>(
+      endpoint,
+      {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (!response.success || !response.data) {
+      logger.error('Failed to create A/B test variation', { opId, error: response.error });
+      return {
+        success: false,
+        error: response.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const variation = response.data;
+
+    // Re-fetch the master so the response carries its new abTestId/abStatus
+    const updatedMaster = await this.getPage(pageId, pageType);
+
+    logger.logOperation(
+      'create_ab_test_variation',
+      { opId, pageId, pageType, variationId: variation.id, abTestId: variation.abTestId },
+      master,
+      variation
+    );
+
+    return {
+      success: true,
+      data: {
+        master: updatedMaster.success && updatedMaster.data ? updatedMaster.data : master,
+        variation,
+        structure: this.getContentStructure(variation)
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * End an A/B test and keep the chosen winner
+   * Inputs: page_type, ab_test_id, winner_id
+   * Output: The winning page after the test ended
+   * Implementation: GET winner → check it belongs to the test → POST /cms/v3/pages/{pageType}/ab-test/end
+   * Safety: The losing page becomes LOSER_VARIANT and is no longer served
+   */
+  async endAbTest(
+    pageType: 'site-pages' | 'landing-pages',
+    abTestId: string,
+    winnerId: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Ending A/B test', { opId, pageType, abTestId, winnerId });
+
+    const winnerResponse = await this.getPage(winnerId, pageType);
+    if (!winnerResponse.success || !winnerResponse.data) {
+      return {
+        success: false,
+        error: winnerResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const winner = winnerResponse.data;
+    if (winner.abTestId !== abTestId) {
+      return {
+        success: false,
+        error: {
+          status: 'INVALID_WINNER',
+          message: `Page "${winner.name}" (${winnerId}) is not part of A/B test ${abTestId}${winner.abTestId ? ` (it belongs to test ${winner.abTestId})` : ''}. Pick the master or variant of this test as the winner.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const endpoint = `/cms/v3/pages/${pageType}/ab-test/end`;
+    const body = { abTestId, winnerId };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<Page>(opId, {
+        method: 'POST',
+        endpoint,
+        payload: body,
+        changes: [`End A/B test ${abTestId} with "${winner.name}" (${winnerId}, ${winner.abStatus}) as the winner`]
+      });
+    }
+
+    const response = await this.request<void>(
+      endpoint,
+      {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (!response.success) {
+      logger.error('Failed to end A/B test', { opId, error: response.error });
+      return {
+        success: false,
+        error: response.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const updatedWinner = await this.getPage(winnerId, pageType);
+
+    logger.logOperation(
+      'end_ab_test',
+      { opId, pageType, abTestId, winnerId },
+      winner,
+      updatedWinner.data
+    );
+
+    return {
+      success: true,
+      data: updatedWinner.success && updatedWinner.data ? updatedWinner.data : winner,
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * List available templates
+   * Output: Array of templates with id, path, label, type
+   * Implementation: GET /cms/v3/source-code/draft/metadata/templates
+   */
+  async listTemplates(): Promise<HubSpotResponse<{ results: Template[] }>> {
+    logger.info('Fetching templates list');
+
+    // Note: The actual endpoint structure may vary based on HubSpot API
+    // This is a simplified version - in production you might need to paginate
+    const endpoint = '/content/api/v2/templates';
+
+    return this.request<{ results: Template[] }>(endpoint, { method: 'GET' });
+  }
+
+  /**
+   * Create a new page from template
+   * Inputs: name, template_path, slug, domain, title, meta_description
+   * Output: Created page in draft state
+   * Implementation: POST /cms/v3/pages/site-pages with minimal content
+   *
+   * IMPORTANT: templatePath must NOT include leading slash
+   */
+  async createPageFromTemplate(
+    params: PageCreateParams,
+    pageType: 'site-pages' | 'landing-pages' = 'site-pages',
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Creating page from template', { opId, params, pageType });
+
+    // Build request body with DRAFT state
+    const requestBody: any = {
+      name: params.name,
+      slug: params.slug,
+      // CRITICAL: Do NOT include leading slash in templatePath
+      templatePath: params.templatePath.replace(/^\//, ''),
+      state: 'DRAFT'  // Always create as draft for safety
+    };
+
+    // Add optional fields
+    if (params.domain) requestBody.domain = params.domain;
+    if (params.htmlTitle) requestBody.htmlTitle = params.htmlTitle;
+    if (params.metaDescription) requestBody.metaDescription = params.metaDescription;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<Page>(opId, {
+        method: 'POST',
+        endpoint: `/cms/v3/pages/${pageType}`,
+        payload: requestBody,
+        beforeState: null
+      });
+    }
+
+    const response = await this.request<Page>(
+      `/cms/v3/pages/${pageType}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(requestBody)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation(
+        'create_page_from_template',
+        { opId, params, pageType },
+        undefined,
+        response.data
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Clone a blog post or page into a new draft
+   * Inputs: content_type, content_id, name (optional), slug (optional)
+   * Output: The clone in DRAFT state plus its widget structure
+   * Implementation: GET source → POST .../clone → PATCH slug (and state) onto the new object
+   * Safety: The source is never modified; the clone is never published
+   * Purpose: Start a new campaign page or post from an existing one
+   */
+  async cloneContent(
+    params: CloneContentParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<CloneContentResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Cloning content', { opId, params });
+
+    const collectionPath = this.getContentCollectionPath(params.contentType);
+
+    // STEP 1: Fetch the source so a bad id fails before anything is created
+    const sourceResponse = await this.request<BlogPost | Page>(
+      this.getContentBasePath(params.contentType, params.contentId),
+      { method: 'GET' }
+    );
+    if (!sourceResponse.success || !sourceResponse.data) {
+      return {
+        success: false,
+        error: sourceResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const source = sourceResponse.data;
+    const requestBody: any = { id: params.contentId };
+    if (params.name) requestBody.cloneName = params.name;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<CloneContentResult>(opId, {
+        method: 'POST',
+        endpoint: `${collectionPath}/clone`,
+        payload: requestBody,
+        changes: [
+          `+ clone of "${source.name}" (${source.id}) as "${params.name || `${source.name} (clone)`}"`,
+          ...(params.slug ? [`+ slug: ${JSON.stringify(params.slug)}`] : []),
+          '+ state: "DRAFT"'
+        ]
+      });
+    }
+
+    // STEP 2: Clone
+    const cloneResponse = await this.request<BlogPost | Page>(
+      `${collectionPath}/clone`,
+      {
+        method: 'POST',
+        body: JSON.stringify(requestBody)
+      }
+    );
+    if (!cloneResponse.success || !cloneResponse.data) {
+      logger.error('Failed to clone content', { opId, error: cloneResponse.error });
+      return {
+        success: false,
+        error: cloneResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    let clone = cloneResponse.data;
+
+    // STEP 3: Apply slug and force DRAFT. The clone has never been published,
+    // so the object itself is the draft and can be PATCHed directly.
+    const patchBody: any = {};
+    if (params.slug) patchBody.slug = params.slug;
+    if (clone.state !== 'DRAFT') patchBody.state = 'DRAFT';
+
+    if (Object.keys(patchBody).length > 0) {
+      const patchResponse = await this.request<BlogPost | Page>(
+        this.getContentBasePath(params.contentType, clone.id),
+        {
+          method: 'PATCH',
+          body: JSON.stringify(patchBody)
+        }
+      );
+      if (!patchResponse.success || !patchResponse.data) {
+        logger.error('Clone created but follow-up update failed', { opId, cloneId: clone.id, error: patchResponse.error });
+        return {
+          success: false,
+          error: {
+            status: patchResponse.error?.status || 'CLONE_UPDATE_FAILED',
+            message: `Clone ${clone.id} was created, but setting ${Object.keys(patchBody).join(' and ')} failed: ${patchResponse.error?.message || 'unknown error'}. Fix the clone by hand or delete it.`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+      clone = patchResponse.data;
+    }
+
+    logger.logOperation(
+      'clone_content',
+      { opId, contentType: params.contentType, sourceId: params.contentId, cloneId: clone.id },
+      undefined,
+      clone
+    );
+
+    return {
+      success: true,
+      data: {
+        sourceId: params.contentId,
+        clone,
+        structure: this.getContentStructure(clone)
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  // ========================================
+  // Phase 5: Safe webpage content and appearance editing
+  // ========================================
+
+  /**
+   * Helper: Extract all widgets from a page's layoutSections
+   * Returns a flat array of widgets with their locations
+   */
+  private extractWidgetsFromPage(page: Page | BlogPost): PageContentStructure {
+    const widgets: PageContentStructure['widgets'] = [];
+    const layoutSections: string[] = [];
+
+    if (!page.layoutSections || typeof page.layoutSections !== 'object') {
+      return {
+        pageId: page.id,
+        pageName: page.name,
+        updated: page.updated,
+        widgets: [],
+        layoutSections: [],
+        totalWidgets: 0
+      };
+    }
+
+    // Iterate through all layout sections
+    for (const [sectionName, section] of Object.entries(page.layoutSections)) {
+      layoutSections.push(sectionName);
+
+      if (!section || typeof section !== 'object' || !Array.isArray((section as any).rows)) {
+        continue;
+      }
+
+      const rows = (section as any).rows;
+
+      // Iterate through rows
+      rows.forEach((row: any, rowIndex: number) => {
+        if (!row.cells || !Array.isArray(row.cells)) {
+          return;
+        }
+
+        // Iterate through columns/cells
+        row.cells.forEach((cell: any, columnIndex: number) => {
+          if (!cell.widgets || !Array.isArray(cell.widgets)) {
+            return;
+          }
+
+          // Iterate through widgets
+          cell.widgets.forEach((widget: any, widgetIndex: number) => {
+            widgets.push(this.summarizeWidget(widget, { sectionName, rowIndex, columnIndex, widgetIndex }));
+          });
+        });
+      });
+    }
+
+    return {
+      pageId: page.id,
+      pageName: page.name,
+      updated: page.updated,
+      widgets,
+      layoutSections,
+      totalWidgets: widgets.length
+    };
+  }
+
+  /**
+   * Helper: Flattened summary of one widget at a known location
+   */
+  private summarizeWidget(widget: any, location: WidgetLocation): PageContentStructure['widgets'][number] {
+    const hasHtmlContent = !!(widget.body && widget.body.html);
+    const contentPreview = hasHtmlContent
+      ? widget.body.html.substring(0, 100).replace(/<[^>]*>/g, '').trim()
+      : undefined;
+
+    return {
+      id: widget.id || `widget-${location.sectionName}-${location.rowIndex}-${location.columnIndex}-${location.widgetIndex}`,
+      name: widget.name || widget.type || 'Unnamed Widget',
+      type: widget.type || 'unknown',
+      location,
+      hasHtmlContent,
+      hasStyles: !!(widget.styles && Object.keys(widget.styles).length > 0),
+      hasParams: !!(widget.params && Object.keys(widget.params).length > 0),
+      contentPreview
+    };
+  }
+
+  /**
+   * Helper: Get widget at specific location
+   */
+  private getWidgetAtLocation(page: Page | BlogPost, location: WidgetLocation): Widget | null {
+    try {
+      const section = (page.layoutSections as any)[location.sectionName];
+      if (!section || !section.rows) return null;
+
+      const row = section.rows[location.rowIndex];
+      if (!row || !row.cells) return null;
+
+      const cell = row.cells[location.columnIndex];
+      if (!cell || !cell.widgets) return null;
+
+      const widget = cell.widgets[location.widgetIndex];
+      return widget || null;
+    } catch (error) {
+      logger.error('Error getting widget at location', { location, error });
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Set widget at specific location
+   */
+  private setWidgetAtLocation(page: Page, location: WidgetLocation, widget: Widget): boolean {
+    try {
+      const section = (page.layoutSections as any)[location.sectionName];
+      if (!section || !section.rows) return false;
+
+      const row = section.rows[location.rowIndex];
+      if (!row || !row.cells) return false;
+
+      const cell = row.cells[location.columnIndex];
+      if (!cell || !cell.widgets) return false;
+
+      cell.widgets[location.widgetIndex] = widget;
+      return true;
+    } catch (error) {
+      logger.error('Error setting widget at location', { location, error });
+      return false;
+    }
+  }
+
+  /**
+   * Helper: Validate page structure integrity
+   */
+  private validatePageStructure(beforePage: Page, afterPage: Page): StructuralValidation {
+    const beforeStructure = this.extractWidgetsFromPage(beforePage);
+    const afterStructure = this.extractWidgetsFromPage(afterPage);
+
+    const warnings: string[] = [];
+    const errors: string[] = [];
+
+    // Check widget count
+    if (beforeStructure.totalWidgets !== afterStructure.totalWidgets) {
+      warnings.push(
+        `Widget count changed from ${beforeStructure.totalWidgets} to ${afterStructure.totalWidgets}`
+      );
+    }
+
+    // Check section count
+    if (beforeStructure.layoutSections.length !== afterStructure.layoutSections.length) {
+      errors.push(
+        `Layout section count changed from ${beforeStructure.layoutSections.length} to ${afterStructure.layoutSections.length}. This indicates structural damage.`
+      );
+    }
+
+    // Check section names
+    const beforeSections = new Set(beforeStructure.layoutSections);
+    const afterSections = new Set(afterStructure.layoutSections);
+
+    beforeSections.forEach(section => {
+      if (!afterSections.has(section)) {
+        errors.push(`Layout section "${section}" was removed`);
+      }
+    });
+
+    afterSections.forEach(section => {
+      if (!beforeSections.has(section)) {
+        warnings.push(`Layout section "${section}" was added`);
+      }
+    });
+
+    return {
+      isValid: errors.length === 0,
+      beforeWidgetCount: beforeStructure.totalWidgets,
+      afterWidgetCount: afterStructure.totalWidgets,
+      beforeSectionCount: beforeStructure.layoutSections.length,
+      afterSectionCount: afterStructure.layoutSections.length,
+      warnings,
+      errors
+    };
+  }
+
+  /**
+   * Get page content structure
+   * Returns a structured view of all widgets and their locations
+   * Input: page_id, page_type
+   * Output: PageContentStructure with widget locations and previews
+   * Purpose: Discover what widgets exist and where they are located
+   */
+  async getPageContentStructure(
+    pageId: string,
+    pageType: 'site-pages' | 'landing-pages'
+  ): Promise<HubSpotResponse<PageContentStructure>> {
+    logger.info('Getting page content structure', { pageId, pageType });
+
+    const pageResponse = await this.getPage(pageId, pageType);
+    if (!pageResponse.success || !pageResponse.data) {
+      return {
+        success: false,
+        error: pageResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const structure = this.extractWidgetsFromPage(pageResponse.data);
+
+    return {
+      success: true,
+      data: structure,
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Get the flattened widget structure of an already-fetched page, post or snapshot
+   * Purpose: Lets callers holding a revision or clone show widget locations without refetching
+   */
+  getContentStructure(content: Page | BlogPost): PageContentStructure {
+    return this.extractWidgetsFromPage(content);
+  }
+
+  /**
+   * Update widget content using fetch-first pattern
+   * CRITICAL: Uses complete fetch-first pattern to preserve all page structure
+   * Only modifies the targeted widget's HTML content, styles, or parameters
+   * Inputs: page_id, page_type, location, html/styles/params
+   * Output: Updated page draft with validation
+   * Implementation: Fetch → locate widget → modify widget → validate structure → PATCH /draft
+   * Safety: Validates complete structure is preserved
+   * Purpose: Safe widget-level content editing
+   */
+  async updateWidgetContent(
+    params: WidgetUpdateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<{ page: Page; validation: StructuralValidation; preview?: PreviewLink }>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting widget content update with fetch-first pattern', {
+      opId,
+      pageId: params.pageId,
+      pageType: params.pageType,
+      location: params.location
+    });
+
+    // STEP 1: Fetch current state
+    const currentResponse = await this.getPage(params.pageId, params.pageType);
+    if (!currentResponse.success || !currentResponse.data) {
+      logger.error('Failed to fetch current page state', { opId, pageId: params.pageId });
+      return {
+        success: false,
+        error: currentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforePage = JSON.parse(JSON.stringify(currentResponse.data)); // Deep clone for comparison
+    const updatedPage = currentResponse.data;
+    logger.info('Fetched current page state', { opId, pageId: params.pageId });
+
+    // STEP 2: Locate and update the specific widget
+    const widget = this.getWidgetAtLocation(updatedPage, params.location);
+    if (!widget) {
+      return {
+        success: false,
+        error: {
+          status: 'WIDGET_NOT_FOUND',
+          message: `Widget not found at location: section="${params.location.sectionName}", row=${params.location.rowIndex}, column=${params.location.columnIndex}, widget=${params.location.widgetIndex}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // Update widget properties
+    if (params.html !== undefined) {
+      if (!widget.body) widget.body = {};
+      widget.body.html = params.html;
+      logger.info('Updated widget HTML content', { opId, widgetId: widget.id });
+    }
+
+    if (params.styles !== undefined) {
+      widget.styles = { ...widget.styles, ...params.styles };
+      logger.info('Updated widget styles', { opId, widgetId: widget.id });
+    }
+
+    if (params.params !== undefined) {
+      widget.params = { ...widget.params, ...params.params };
+      logger.info('Updated widget parameters', { opId, widgetId: widget.id });
+    }
+
+    // Set the updated widget back
+    const setSuccess = this.setWidgetAtLocation(updatedPage, params.location, widget);
+    if (!setSuccess) {
+      return {
+        success: false,
+        error: {
+          status: 'UPDATE_FAILED',
+          message: 'Failed to update widget at specified location',
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // STEP 3: Validate structure integrity
+    const validation = this.validatePageStructure(beforePage, updatedPage);
+    if (!validation.isValid) {
+      logger.error('Structure validation failed', { opId, validation });
+      return {
+        success: false,
+        error: {
+          status: 'VALIDATION_FAILED',
+          message: `Structure validation failed: ${validation.errors.join(', ')}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (validation.warnings.length > 0) {
+      logger.warn('Structure validation warnings', { opId, warnings: validation.warnings });
+    }
+
+    const conflict = await this.checkConcurrentModification(
+      opId, this.pageTypeToContentType(params.pageType), beforePage, writeOptions, () => this.getPage(params.pageId, params.pageType)
+    );
+    if (conflict) {
+      return {
+        success: false,
+        error: conflict,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+        payload: updatedPage,
+        beforeState: beforePage,
+        validation
+      });
+    }
+
+    // STEP 4: PATCH to draft endpoint with complete page object
+    logger.info('Updating page draft with modified widget', { opId, pageId: params.pageId });
+    const response = await this.request<Page>(
+      `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updatedPage)
+      }
+    );
+
+    if (!response.success) {
+      logger.error('Failed to update page draft', { opId, error: response.error });
+      return {
+        success: false,
+        error: response.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const preview = response.data ? this.buildPreviewUrl(response.data) : undefined;
+
+    logger.logOperation(
+      'update_widget_content',
+      { opId, pageId: params.pageId, location: params.location },
+      beforePage,
+      response.data
+    );
+
+    const operationId = await this.journal.record({
+      operation: 'update_widget_content',
+      contentType: this.pageTypeToContentType(params.pageType),
+      contentId: params.pageId,
+      details: { location: params.location },
+      beforeState: beforePage
+    }, opId);
+
+    return {
+      success: true,
+      data: {
+        page: response.data!,
+        validation,
+        preview
+      },
+      rateLimitStatus: this.rateLimiter.getStatus(),
+      operationId
+    };
+  }
+
+  /**
+   * Add a new widget to a page
+   * CRITICAL: Uses complete fetch-first pattern
+   * Inputs: page_id, page_type, location (without widgetIndex), widget details
+   * Output: Updated page draft
+   * Implementation: Fetch → add widget to cell → validate → PATCH /draft
+   * Safety: Validates structure is preserved and widget count increased by 1
+   */
+  async addWidget(
+    params: WidgetAddParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<{ page: Page; validation: StructuralValidation; widgetLocation: WidgetLocation }>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting add widget operation', { opId, pageId: params.pageId });
+
+    // STEP 1: Fetch current state
+    const currentResponse = await this.getPage(params.pageId, params.pageType);
+    if (!currentResponse.success || !currentResponse.data) {
+      return {
+        success: false,
+        error: currentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforePage = JSON.parse(JSON.stringify(currentResponse.data));
+    const updatedPage = currentResponse.data;
+
+    // STEP 2: Navigate to the target cell and add widget
+    try {
+      const section = (updatedPage.layoutSections as any)[params.location.sectionName];
+      if (!section || !section.rows) {
+        return {
+          success: false,
+          error: {
+            status: 'SECTION_NOT_FOUND',
+            message: `Layout section "${params.location.sectionName}" not found`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const row = section.rows[params.location.rowIndex];
+      if (!row || !row.cells) {
+        return {
+          success: false,
+          error: {
+            status: 'ROW_NOT_FOUND',
+            message: `Row ${params.location.rowIndex} not found in section "${params.location.sectionName}"`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const cell = row.cells[params.location.columnIndex];
+      if (!cell) {
+        return {
+          success: false,
+          error: {
+            status: 'CELL_NOT_FOUND',
+            message: `Column ${params.location.columnIndex} not found in row ${params.location.rowIndex}`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      // Initialize widgets array if it doesn't exist
+      if (!cell.widgets) {
+        cell.widgets = [];
+      }
+
+      // Create new widget
+      const newWidget: Widget = {
+        id: `widget-${Date.now()}`,
+        name: params.widgetName,
+        type: params.widgetType,
+        body: params.html ? { html: params.html } : undefined,
+        params: params.params || {},
+        styles: params.styles || {}
+      };
+
+      // Add widget to the end of the cell's widgets array
+      cell.widgets.push(newWidget);
+      const widgetIndex = cell.widgets.length - 1;
+
+      const widgetLocation: WidgetLocation = {
+        sectionName: params.location.sectionName,
+        rowIndex: params.location.rowIndex,
+        columnIndex: params.location.columnIndex,
+        widgetIndex
+      };
+
+      logger.info('Added new widget to page', { opId, widgetLocation, widgetId: newWidget.id });
+
+      // STEP 3: Validate structure
+      const validation = this.validatePageStructure(beforePage, updatedPage);
+
+      // For adding widgets, we expect widget count to increase by 1
+      if (validation.afterWidgetCount !== validation.beforeWidgetCount + 1) {
+        logger.warn('Unexpected widget count after adding widget', {
+          opId,
+          expected: validation.beforeWidgetCount + 1,
+          actual: validation.afterWidgetCount
+        });
+      }
+
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: {
+            status: 'VALIDATION_FAILED',
+            message: `Structure validation failed: ${validation.errors.join(', ')}`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const conflict = await this.checkConcurrentModification(
+        opId, this.pageTypeToContentType(params.pageType), beforePage, writeOptions, () => this.getPage(params.pageId, params.pageType)
+      );
+      if (conflict) {
+        return {
+          success: false,
+          error: conflict,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      if (this.isDryRun(writeOptions)) {
+        return this.dryRunResponse(opId, {
+          method: 'PATCH',
+          endpoint: `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+          payload: updatedPage,
+          beforeState: beforePage,
+          validation
+        });
+      }
+
+      // STEP 4: PATCH to draft endpoint
+      const response = await this.request<Page>(
+        `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(updatedPage)
+        }
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      logger.logOperation(
+        'add_widget',
+        { opId, pageId: params.pageId, widgetLocation },
+        beforePage,
+        response.data
+      );
+
+      const operationId = await this.journal.record({
+        operation: 'add_widget',
+        contentType: this.pageTypeToContentType(params.pageType),
+        contentId: params.pageId,
+        details: { widgetLocation },
+        beforeState: beforePage
+      }, opId);
+
+      return {
+        success: true,
+        data: {
+          page: response.data!,
+          validation,
+          widgetLocation
+        },
+        rateLimitStatus: this.rateLimiter.getStatus(),
+        operationId
+      };
+    } catch (error) {
+      logger.error('Error adding widget', { opId, error });
+      return {
+        success: false,
+        error: {
+          status: 'ADD_WIDGET_FAILED',
+          message: `Failed to add widget: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+  }
+
+  /**
+   * Remove a widget from a page
+   * CRITICAL: Uses complete fetch-first pattern
+   * Inputs: page_id, page_type, location
+   * Output: Updated page draft
+   * Implementation: Fetch → remove widget from array → validate → PATCH /draft
+   * Safety: Validates widget count decreased by exactly 1
+   */
+  async removeWidget(
+    params: WidgetRemoveParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<{ page: Page; validation: StructuralValidation }>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting remove widget operation', { opId, pageId: params.pageId, location: params.location });
+
+    // STEP 1: Fetch current state
+    const currentResponse = await this.getPage(params.pageId, params.pageType);
+    if (!currentResponse.success || !currentResponse.data) {
+      return {
+        success: false,
+        error: currentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforePage = JSON.parse(JSON.stringify(currentResponse.data));
+    const updatedPage = currentResponse.data;
+
+    // STEP 2: Navigate to widget and remove it
+    try {
+      const section = (updatedPage.layoutSections as any)[params.location.sectionName];
+      if (!section || !section.rows) {
+        return {
+          success: false,
+          error: {
+            status: 'SECTION_NOT_FOUND',
+            message: `Layout section "${params.location.sectionName}" not found`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const row = section.rows[params.location.rowIndex];
+      if (!row || !row.cells) {
+        return {
+          success: false,
+          error: {
+            status: 'ROW_NOT_FOUND',
+            message: `Row ${params.location.rowIndex} not found`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const cell = row.cells[params.location.columnIndex];
+      if (!cell || !cell.widgets) {
+        return {
+          success: false,
+          error: {
+            status: 'CELL_NOT_FOUND',
             message: `Column ${params.location.columnIndex} not found`,
             correlationId: String(opId)
           },
@@ -1440,35 +3908,3188 @@ export class HubSpotClient {
         };
       }
 
-      if (params.location.widgetIndex >= cell.widgets.length) {
+      if (params.location.widgetIndex >= cell.widgets.length) {
+        return {
+          success: false,
+          error: {
+            status: 'WIDGET_NOT_FOUND',
+            message: `Widget index ${params.location.widgetIndex} out of bounds (total: ${cell.widgets.length})`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      // Remove the widget
+      const removedWidget = cell.widgets.splice(params.location.widgetIndex, 1)[0];
+      logger.info('Removed widget from page', { opId, widgetId: removedWidget.id });
+
+      // STEP 3: Validate structure
+      const validation = this.validatePageStructure(beforePage, updatedPage);
+
+      // For removing widgets, we expect widget count to decrease by 1
+      if (validation.afterWidgetCount !== validation.beforeWidgetCount - 1) {
+        logger.warn('Unexpected widget count after removing widget', {
+          opId,
+          expected: validation.beforeWidgetCount - 1,
+          actual: validation.afterWidgetCount
+        });
+      }
+
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: {
+            status: 'VALIDATION_FAILED',
+            message: `Structure validation failed: ${validation.errors.join(', ')}`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const conflict = await this.checkConcurrentModification(
+        opId, this.pageTypeToContentType(params.pageType), beforePage, writeOptions, () => this.getPage(params.pageId, params.pageType)
+      );
+      if (conflict) {
+        return {
+          success: false,
+          error: conflict,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      if (this.isDryRun(writeOptions)) {
+        return this.dryRunResponse(opId, {
+          method: 'PATCH',
+          endpoint: `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+          payload: updatedPage,
+          beforeState: beforePage,
+          validation
+        });
+      }
+
+      // STEP 4: PATCH to draft endpoint
+      const response = await this.request<Page>(
+        `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(updatedPage)
+        }
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      logger.logOperation(
+        'remove_widget',
+        { opId, pageId: params.pageId, location: params.location },
+        beforePage,
+        response.data
+      );
+
+      const operationId = await this.journal.record({
+        operation: 'remove_widget',
+        contentType: this.pageTypeToContentType(params.pageType),
+        contentId: params.pageId,
+        details: { location: params.location },
+        beforeState: beforePage
+      }, opId);
+
+      return {
+        success: true,
+        data: {
+          page: response.data!,
+          validation
+        },
+        rateLimitStatus: this.rateLimiter.getStatus(),
+        operationId
+      };
+    } catch (error) {
+      logger.error('Error removing widget', { opId, error });
+      return {
+        success: false,
+        error: {
+          status: 'REMOVE_WIDGET_FAILED',
+          message: `Failed to remove widget: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+  }
+
+  /**
+   * Move a widget to a new position on a page
+   * CRITICAL: Uses complete fetch-first pattern
+   * Inputs: page_id, page_type, from_location, to_location
+   * Output: Updated page draft with the widget's final location
+   * Implementation: Fetch → splice widget out → insert at target cell → validate → PATCH /draft
+   * Safety: Validates widget count is unchanged (a move must never add or drop widgets)
+   *
+   * toLocation.widgetIndex is the index the widget should occupy after the move.
+   * Indexes past the end of the target cell append the widget.
+   */
+  async reorderWidget(
+    params: WidgetReorderParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<{ page: Page; validation: StructuralValidation; widgetLocation: WidgetLocation }>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting reorder widget operation', {
+      opId,
+      pageId: params.pageId,
+      fromLocation: params.fromLocation,
+      toLocation: params.toLocation
+    });
+
+    // STEP 1: Fetch current state
+    const currentResponse = await this.getPage(params.pageId, params.pageType);
+    if (!currentResponse.success || !currentResponse.data) {
+      return {
+        success: false,
+        error: currentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforePage = JSON.parse(JSON.stringify(currentResponse.data));
+    const updatedPage = currentResponse.data;
+
+    // STEP 2: Locate source widget and target cell
+    try {
+      const from = params.fromLocation;
+      const to = params.toLocation;
+
+      const sourceWidget = this.getWidgetAtLocation(updatedPage, from);
+      if (!sourceWidget) {
+        return {
+          success: false,
+          error: {
+            status: 'WIDGET_NOT_FOUND',
+            message: `Widget not found at location: section="${from.sectionName}", row=${from.rowIndex}, column=${from.columnIndex}, widget=${from.widgetIndex}`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const targetSection = (updatedPage.layoutSections as any)[to.sectionName];
+      if (!targetSection || !targetSection.rows) {
+        return {
+          success: false,
+          error: {
+            status: 'SECTION_NOT_FOUND',
+            message: `Layout section "${to.sectionName}" not found`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const targetRow = targetSection.rows[to.rowIndex];
+      if (!targetRow || !targetRow.cells) {
+        return {
+          success: false,
+          error: {
+            status: 'ROW_NOT_FOUND',
+            message: `Row ${to.rowIndex} not found in section "${to.sectionName}"`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const targetCell = targetRow.cells[to.columnIndex];
+      if (!targetCell) {
+        return {
+          success: false,
+          error: {
+            status: 'CELL_NOT_FOUND',
+            message: `Column ${to.columnIndex} not found in row ${to.rowIndex}`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      if (to.widgetIndex < 0) {
+        return {
+          success: false,
+          error: {
+            status: 'INVALID_LOCATION',
+            message: `Target widget index ${to.widgetIndex} must be 0 or greater`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      // Remove from source cell, then insert into target cell
+      const sourceCell = (updatedPage.layoutSections as any)[from.sectionName].rows[from.rowIndex].cells[from.columnIndex];
+      const movedWidget = sourceCell.widgets.splice(from.widgetIndex, 1)[0];
+
+      if (!targetCell.widgets) {
+        targetCell.widgets = [];
+      }
+
+      const widgetIndex = Math.min(to.widgetIndex, targetCell.widgets.length);
+      targetCell.widgets.splice(widgetIndex, 0, movedWidget);
+
+      const widgetLocation: WidgetLocation = {
+        sectionName: to.sectionName,
+        rowIndex: to.rowIndex,
+        columnIndex: to.columnIndex,
+        widgetIndex
+      };
+
+      logger.info('Moved widget on page', { opId, widgetId: movedWidget.id, from, widgetLocation });
+
+      // STEP 3: Validate structure
+      const validation = this.validatePageStructure(beforePage, updatedPage);
+
+      // For moving widgets, the widget count must be exactly unchanged
+      if (validation.afterWidgetCount !== validation.beforeWidgetCount) {
+        validation.errors.push(
+          `Widget count changed from ${validation.beforeWidgetCount} to ${validation.afterWidgetCount} during a move`
+        );
+        validation.isValid = false;
+      }
+
+      if (!validation.isValid) {
+        logger.error('Structure validation failed', { opId, validation });
+        return {
+          success: false,
+          error: {
+            status: 'VALIDATION_FAILED',
+            message: `Structure validation failed: ${validation.errors.join(', ')}`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      const conflict = await this.checkConcurrentModification(
+        opId, this.pageTypeToContentType(params.pageType), beforePage, writeOptions, () => this.getPage(params.pageId, params.pageType)
+      );
+      if (conflict) {
+        return {
+          success: false,
+          error: conflict,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      if (this.isDryRun(writeOptions)) {
+        return this.dryRunResponse(opId, {
+          method: 'PATCH',
+          endpoint: `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+          payload: updatedPage,
+          beforeState: beforePage,
+          validation
+        });
+      }
+
+      // STEP 4: PATCH to draft endpoint
+      const response = await this.request<Page>(
+        `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(updatedPage)
+        }
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      logger.logOperation(
+        'reorder_widget',
+        { opId, pageId: params.pageId, fromLocation: from, toLocation: widgetLocation },
+        beforePage,
+        response.data
+      );
+
+      const operationId = await this.journal.record({
+        operation: 'reorder_widget',
+        contentType: this.pageTypeToContentType(params.pageType),
+        contentId: params.pageId,
+        details: { fromLocation: from, toLocation: widgetLocation },
+        beforeState: beforePage
+      }, opId);
+
+      return {
+        success: true,
+        data: {
+          page: response.data!,
+          validation,
+          widgetLocation
+        },
+        rateLimitStatus: this.rateLimiter.getStatus(),
+        operationId
+      };
+    } catch (error) {
+      logger.error('Error reordering widget', { opId, error });
+      return {
+        success: false,
+        error: {
+          status: 'REORDER_WIDGET_FAILED',
+          message: `Failed to reorder widget: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+  }
+
+  // ========================================
+  // Revision history
+  // ========================================
+
+  /**
+   * Helper: Resolve the API base path for a blog post or page
+   */
+  private getContentBasePath(contentType: ContentType, contentId: string): string {
+    return `${this.getContentCollectionPath(contentType)}/${contentId}`;
+  }
+
+  /**
+   * Helper: Map a ContentType to its collection endpoint
+   */
+  private getContentCollectionPath(contentType: ContentType): string {
+    switch (contentType) {
+      case 'blog-post':
+        return '/cms/v3/blogs/posts';
+      case 'site-page':
+        return '/cms/v3/pages/site-pages';
+      case 'landing-page':
+        return '/cms/v3/pages/landing-pages';
+    }
+  }
+
+  /**
+   * Helper: Map a page API type to its ContentType
+   */
+  private pageTypeToContentType(pageType: 'site-pages' | 'landing-pages'): ContentType {
+    return pageType === 'site-pages' ? 'site-page' : 'landing-page';
+  }
+
+  /**
+   * Helper: Drop identity, publish-state and timestamp fields from a snapshot
+   * Used when writing a historical snapshot back onto the current draft
+   */
+  private stripLifecycleFields(content: BlogPost | Page): Partial<BlogPost | Page> {
+    const {
+      id, state, currentState, publishDate, created, updated, url, absoluteUrl,
+      currentlyPublished, archivedInDashboard, previewKey,
+      ...rest
+    } = content as Page;
+    return rest;
+  }
+
+  /**
+   * Helper: Compare two snapshots of a blog post or page
+   * Top-level fields are compared by value; layoutSections are flattened with
+   * extractWidgetsFromPage and compared widget by widget, keyed by WidgetLocation.
+   */
+  private diffContent(before: Page | BlogPost, after: Page | BlogPost): ContentDiff {
+    const fieldChanges: FieldChange[] = [];
+    const widgetChanges: WidgetChange[] = [];
+
+    // Compare top-level fields (layoutSections are covered by the widget diff)
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    fields.delete('layoutSections');
+
+    fields.forEach(field => {
+      const beforeValue = (before as any)[field];
+      const afterValue = (after as any)[field];
+      if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+        fieldChanges.push({ field, before: beforeValue, after: afterValue });
+      }
+    });
+
+    // Compare widgets by location
+    const locationKey = (location: WidgetLocation) =>
+      `${location.sectionName}/${location.rowIndex}/${location.columnIndex}/${location.widgetIndex}`;
+
+    const beforeWidgets = new Map(
+      this.extractWidgetsFromPage(before).widgets.map(w => [locationKey(w.location), w])
+    );
+    const afterWidgets = new Map(
+      this.extractWidgetsFromPage(after).widgets.map(w => [locationKey(w.location), w])
+    );
+
+    beforeWidgets.forEach((summary, key) => {
+      const beforeWidget = this.getWidgetAtLocation(before, summary.location);
+
+      if (!afterWidgets.has(key)) {
+        widgetChanges.push({
+          location: summary.location,
+          widgetId: summary.id,
+          changeType: 'removed',
+          before: beforeWidget
+        });
+        return;
+      }
+
+      const afterWidget = this.getWidgetAtLocation(after, summary.location);
+      const changedProperties = this.diffWidgetProperties(beforeWidget, afterWidget);
+      if (changedProperties.length > 0) {
+        widgetChanges.push({
+          location: summary.location,
+          widgetId: summary.id,
+          changeType: 'modified',
+          changedProperties,
+          before: beforeWidget,
+          after: afterWidget
+        });
+      }
+    });
+
+    afterWidgets.forEach((summary, key) => {
+      if (!beforeWidgets.has(key)) {
+        widgetChanges.push({
+          location: summary.location,
+          widgetId: summary.id,
+          changeType: 'added',
+          after: this.getWidgetAtLocation(after, summary.location)
+        });
+      }
+    });
+
+    return {
+      fieldChanges,
+      widgetChanges,
+      hasChanges: fieldChanges.length > 0 || widgetChanges.length > 0
+    };
+  }
+
+  /**
+   * Helper: Diff for content that doesn't exist yet - every payload field is new
+   */
+  private diffNewContent(payload: Record<string, unknown>): ContentDiff {
+    const fieldChanges: FieldChange[] = Object.entries(payload).map(([field, after]) => ({ field, before: undefined, after }));
+    return { fieldChanges, widgetChanges: [], hasChanges: fieldChanges.length > 0 };
+  }
+
+  /**
+   * Helper: List the properties that differ between two widgets
+   * body.html is reported separately from the rest of body since it is the
+   * property editors care about most.
+   */
+  private diffWidgetProperties(before: Widget | null, after: Widget | null): string[] {
+    const changed: string[] = [];
+    const beforeWidget: any = before || {};
+    const afterWidget: any = after || {};
+
+    const properties = new Set([...Object.keys(beforeWidget), ...Object.keys(afterWidget)]);
+    properties.forEach(property => {
+      if (property === 'body') {
+        const { html: beforeHtml, ...beforeRest } = beforeWidget.body || {};
+        const { html: afterHtml, ...afterRest } = afterWidget.body || {};
+        if (beforeHtml !== afterHtml) changed.push('body.html');
+        if (JSON.stringify(beforeRest) !== JSON.stringify(afterRest)) changed.push('body');
+        return;
+      }
+
+      if (JSON.stringify(beforeWidget[property]) !== JSON.stringify(afterWidget[property])) {
+        changed.push(property);
+      }
+    });
+
+    return changed;
+  }
+
+  /**
+   * Helper: Render a ContentDiff as human-readable lines
+   * "+" added, "-" removed, "~" changed. Long values are truncated.
+   */
+  private formatDiff(diff: ContentDiff): string[] {
+    const show = (value: any): string => {
+      const text = JSON.stringify(value) ?? 'undefined';
+      return text.length > 80 ? `${text.substring(0, 77)}...` : text;
+    };
+    const where = (location: WidgetLocation) =>
+      `${location.sectionName} row ${location.rowIndex}, column ${location.columnIndex}, widget ${location.widgetIndex}`;
+
+    const lines: string[] = [];
+
+    diff.fieldChanges.forEach(change => {
+      if (change.before === undefined) {
+        lines.push(`+ ${change.field}: ${show(change.after)}`);
+      } else if (change.after === undefined) {
+        lines.push(`- ${change.field}: ${show(change.before)}`);
+      } else {
+        lines.push(`~ ${change.field}: ${show(change.before)} → ${show(change.after)}`);
+      }
+    });
+
+    diff.widgetChanges.forEach(change => {
+      const label = `widget "${change.widgetId}" at ${where(change.location)}`;
+      if (change.changeType === 'added') {
+        lines.push(`+ ${label}`);
+      } else if (change.changeType === 'removed') {
+        lines.push(`- ${label}`);
+      } else {
+        lines.push(`~ ${label}: ${(change.changedProperties || []).join(', ')} changed`);
+      }
+    });
+
+    return lines;
+  }
+
+  /**
+   * List revisions of a blog post or page
+   * Inputs: content_type, content_id, limit, after (paging cursor)
+   * Output: Paginated revisions, each with a full snapshot of the content
+   * Implementation: GET /cms/v3/blogs/posts/{id}/revisions or /cms/v3/pages/{pageType}/{id}/revisions
+   * Purpose: Discover version history before diffing or rolling back
+   */
+  async listRevisions(
+    params: RevisionListParams
+  ): Promise<HubSpotResponse<PaginatedResponse<ContentRevision<BlogPost | Page>>>> {
+    const queryParams = new URLSearchParams();
+    if (params.limit) queryParams.set('limit', Math.min(params.limit, 100).toString());
+    if (params.after) queryParams.set('after', params.after);
+
+    const endpoint = `${this.getContentBasePath(params.contentType, params.contentId)}/revisions?${queryParams.toString()}`;
+    logger.info('Listing revisions', { contentType: params.contentType, contentId: params.contentId });
+
+    return this.request<PaginatedResponse<ContentRevision<BlogPost | Page>>>(endpoint, { method: 'GET' });
+  }
+
+  /**
+   * Helper: Find the revision whose snapshot was last updated at the given time
+   * Revisions come newest first, so paging stops once they are older than the target.
+   * Returns null when none matches (or the revisions can't be listed)
+   */
+  private async findRevisionAt(
+    contentType: ContentType,
+    contentId: string,
+    updated: string
+  ): Promise<ContentRevision<BlogPost | Page> | null> {
+    const target = Date.parse(updated);
+    if (isNaN(target)) return null;
+
+    let after: string | undefined;
+    for (let page = 0; page < 5; page++) {
+      const response = await this.listRevisions({ contentType, contentId, limit: 100, after });
+      if (!response.success || !response.data) return null;
+
+      for (const revision of response.data.results) {
+        const revisionTime = Date.parse(revision.object?.updated || revision.updatedAt || '');
+        if (revisionTime === target) return revision;
+        if (revisionTime < target) return null;
+      }
+
+      after = response.data.paging?.next?.after;
+      if (!after) return null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get a single revision of a blog post or page
+   * Inputs: content_type, content_id, revision_id
+   * Output: Revision with full content snapshot
+   * Implementation: GET .../{id}/revisions/{revisionId}
+   */
+  async getRevision(
+    contentType: ContentType,
+    contentId: string,
+    revisionId: string
+  ): Promise<HubSpotResponse<ContentRevision<BlogPost | Page>>> {
+    logger.info('Fetching revision', { contentType, contentId, revisionId });
+    return this.request<ContentRevision<BlogPost | Page>>(
+      `${this.getContentBasePath(contentType, contentId)}/revisions/${revisionId}`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Get the current draft of a blog post or page
+   * Implementation: GET .../{id}/draft
+   */
+  async getContentDraft(
+    contentType: ContentType,
+    contentId: string
+  ): Promise<HubSpotResponse<BlogPost | Page>> {
+    logger.info('Fetching draft', { contentType, contentId });
+    return this.request<BlogPost | Page>(
+      `${this.getContentBasePath(contentType, contentId)}/draft`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Diff two revisions, or a revision against the current draft
+   * Inputs: content_type, content_id, from_revision_id, to_revision_id (optional)
+   * Output: Field-by-field and widget-by-widget changes from -> to
+   * Implementation: Fetch both snapshots → flatten widgets → compare client-side
+   * Purpose: Show editors what changed before they decide to roll back
+   */
+  async diffRevisions(
+    contentType: ContentType,
+    contentId: string,
+    fromRevisionId: string,
+    toRevisionId?: string
+  ): Promise<HubSpotResponse<{ from: string; to: string; diff: ContentDiff }>> {
+    logger.info('Diffing revisions', { contentType, contentId, fromRevisionId, toRevisionId });
+
+    const fromResponse = await this.getRevision(contentType, contentId, fromRevisionId);
+    if (!fromResponse.success || !fromResponse.data) {
+      return {
+        success: false,
+        error: fromResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    let toSnapshot: BlogPost | Page;
+    if (toRevisionId) {
+      const toResponse = await this.getRevision(contentType, contentId, toRevisionId);
+      if (!toResponse.success || !toResponse.data) {
+        return {
+          success: false,
+          error: toResponse.error,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+      toSnapshot = toResponse.data.object;
+    } else {
+      const draftResponse = await this.getContentDraft(contentType, contentId);
+      if (!draftResponse.success || !draftResponse.data) {
+        return {
+          success: false,
+          error: draftResponse.error,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+      toSnapshot = draftResponse.data;
+    }
+
+    const diff = this.diffContent(fromResponse.data.object, toSnapshot);
+
+    return {
+      success: true,
+      data: {
+        from: fromRevisionId,
+        to: toRevisionId || 'draft',
+        diff
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Restore a revision as the current draft
+   * Inputs: content_type, content_id, revision_id
+   * Output: Restored draft (never published)
+   * Implementation:
+   *   Blog posts: POST /cms/v3/blogs/posts/{id}/revisions/{revisionId}/restore
+   *   Pages: Fetch revision → merge onto current draft → validate structure → PATCH /draft
+   * Safety: Restored content always lands in draft and requires explicit publishing
+   * Purpose: Undo a bad edit without going into the HubSpot UI
+   */
+  async restoreRevision(
+    contentType: ContentType,
+    contentId: string,
+    revisionId: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<{ content: BlogPost | Page; validation?: StructuralValidation }>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting revision restore', { opId, contentType, contentId, revisionId });
+
+    const basePath = this.getContentBasePath(contentType, contentId);
+
+    // STEP 1: Fetch current draft for the audit log (and as the merge base for pages)
+    const currentResponse = await this.getContentDraft(contentType, contentId);
+    if (!currentResponse.success || !currentResponse.data) {
+      logger.error('Failed to fetch current draft', { opId, contentId });
+      return {
+        success: false,
+        error: currentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforeState = currentResponse.data;
+
+    // Blog posts have a native restore endpoint that writes to the draft
+    if (contentType === 'blog-post') {
+      if (this.isDryRun(writeOptions)) {
+        // Preview against the revision snapshot, since the native endpoint takes no payload
+        const revisionResponse = await this.getRevision(contentType, contentId, revisionId);
+        if (!revisionResponse.success || !revisionResponse.data) {
+          return {
+            success: false,
+            error: revisionResponse.error,
+            rateLimitStatus: this.rateLimiter.getStatus()
+          };
+        }
+
+        return this.dryRunResponse(opId, {
+          method: 'POST',
+          endpoint: `${basePath}/revisions/${revisionId}/restore`,
+          beforeState,
+          afterState: { ...beforeState, ...this.stripLifecycleFields(revisionResponse.data.object) } as BlogPost
+        });
+      }
+
+      const response = await this.request<BlogPost>(
+        `${basePath}/revisions/${revisionId}/restore`,
+        { method: 'POST' }
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+
+      logger.logOperation(
+        'restore_revision',
+        { opId, contentType, contentId, revisionId },
+        beforeState,
+        response.data
+      );
+
+      const operationId = await this.journal.record({
+        operation: 'restore_revision',
+        contentType,
+        contentId,
+        details: { revisionId },
+        beforeState
+      }, opId);
+
+      return {
+        success: true,
+        data: { content: response.data! },
+        rateLimitStatus: this.rateLimiter.getStatus(),
+        operationId
+      };
+    }
+
+    // STEP 2: Fetch the historical revision
+    const revisionResponse = await this.getRevision(contentType, contentId, revisionId);
+    if (!revisionResponse.success || !revisionResponse.data) {
+      return {
+        success: false,
+        error: revisionResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // STEP 3: Merge historical content onto the current draft
+    // Lifecycle fields are kept from the current draft so the restore can never change publish state
+    const restoredPage: Page = {
+      ...(beforeState as Page),
+      ...this.stripLifecycleFields(revisionResponse.data.object)
+    };
+
+    // STEP 4: Validate structure against the current draft
+    const validation = this.validatePageStructure(beforeState as Page, restoredPage);
+    if (!validation.isValid) {
+      logger.error('Structure validation failed', { opId, validation });
+      return {
+        success: false,
+        error: {
+          status: 'VALIDATION_FAILED',
+          message: `Structure validation failed: ${validation.errors.join(', ')}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (validation.warnings.length > 0) {
+      logger.warn('Structure validation warnings', { opId, warnings: validation.warnings });
+    }
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse(opId, {
+        method: 'PATCH',
+        endpoint: `${basePath}/draft`,
+        payload: restoredPage,
+        beforeState,
+        validation
+      });
+    }
+
+    // STEP 5: PATCH to draft endpoint
+    const response = await this.request<Page>(
+      `${basePath}/draft`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(restoredPage)
+      }
+    );
+
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    logger.logOperation(
+      'restore_revision',
+      { opId, contentType, contentId, revisionId },
+      beforeState,
+      response.data
+    );
+
+    const operationId = await this.journal.record({
+      operation: 'restore_revision',
+      contentType,
+      contentId,
+      details: { revisionId },
+      beforeState
+    }, opId);
+
+    return {
+      success: true,
+      data: {
+        content: response.data!,
+        validation
+      },
+      rateLimitStatus: this.rateLimiter.getStatus(),
+      operationId
+    };
+  }
+
+  /**
+   * Discard all unpublished changes on a blog post or page
+   * Inputs: content_type, content_id
+   * Output: Draft reset to match the live version, plus the journaled draft snapshot
+   * Implementation: Fetch draft → save to undo journal → POST .../{id}/draft/reset
+   * Safety: HubSpot's reset cannot be reversed, so the draft is journaled first and
+   * the reset is refused if the journal write fails
+   */
+  async resetDraft(
+    contentType: ContentType,
+    contentId: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<{ discardedDraft: BlogPost | Page }>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting draft reset', { opId, contentType, contentId });
+
+    const basePath = this.getContentBasePath(contentType, contentId);
+
+    // STEP 1: Fetch current draft
+    const draftResponse = await this.getContentDraft(contentType, contentId);
+    if (!draftResponse.success || !draftResponse.data) {
+      return {
+        success: false,
+        error: draftResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const discardedDraft = draftResponse.data;
+
+    if (this.isDryRun(writeOptions)) {
+      // After a reset the draft matches the live version
+      const liveResponse = await this.request<BlogPost | Page>(basePath, { method: 'GET' });
+      return this.dryRunResponse(opId, {
+        method: 'POST',
+        endpoint: `${basePath}/draft/reset`,
+        beforeState: discardedDraft,
+        afterState: liveResponse.success && liveResponse.data ? liveResponse.data : undefined,
+        changes: liveResponse.success ? undefined : [`Discard all unpublished changes on "${discardedDraft.name}"`]
+      });
+    }
+
+    // STEP 2: Save the draft before it is discarded
+    const operationId = await this.journal.record({
+      operation: 'reset_draft',
+      contentType,
+      contentId,
+      details: {},
+      beforeState: discardedDraft
+    }, opId);
+
+    if (!operationId) {
+      return {
+        success: false,
+        error: {
+          status: 'JOURNAL_WRITE_FAILED',
+          message: 'Could not save the current draft to the undo journal. The draft was NOT reset. Check that HUBSPOT_JOURNAL_DIR is writable.',
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // STEP 3: Reset the draft
+    const response = await this.request<BlogPost | Page>(
+      `${basePath}/draft/reset`,
+      { method: 'POST' }
+    );
+
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    logger.logOperation(
+      'reset_draft',
+      { opId, contentType, contentId, operationId },
+      discardedDraft,
+      response.data
+    );
+
+    return {
+      success: true,
+      data: { discardedDraft },
+      rateLimitStatus: this.rateLimiter.getStatus(),
+      operationId
+    };
+  }
+
+  // ========================================
+  // Multi-language variants
+  // ========================================
+
+  /**
+   * Create a language variant of a blog post or page
+   * Inputs: content_type, content_id (primary), language, primary_language (optional)
+   * Output: The new variant (a draft copy of the primary)
+   * Implementation: GET primary → POST .../multi-language/create-language-variation
+   * Safety: Refuses to branch from a variant or to create a second variant for the same language
+   */
+  async createLanguageVariation(
+    params: LanguageVariationParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogPost | Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Creating language variation', { opId, params });
+
+    const primaryResponse = await this.request<BlogPost | Page>(
+      this.getContentBasePath(params.contentType, params.contentId),
+      { method: 'GET' }
+    );
+    if (!primaryResponse.success || !primaryResponse.data) {
+      return {
+        success: false,
+        error: primaryResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const primary = primaryResponse.data;
+
+    if (primary.translatedFromId) {
+      return {
+        success: false,
+        error: {
+          status: 'NOT_PRIMARY',
+          message: `"${primary.name}" is itself a ${primary.language || 'language'} variant of ${primary.translatedFromId}. Create language variants from the primary.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const language = params.language.toLowerCase();
+    const existing = primary.translations?.[language];
+    if (primary.language?.toLowerCase() === language || existing) {
+      return {
+        success: false,
+        error: {
+          status: 'LANGUAGE_EXISTS',
+          message: existing
+            ? `"${primary.name}" already has a "${language}" variant (${existing.id}).`
+            : `"${primary.name}" is already in "${language}".`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const endpoint = `${this.getContentCollectionPath(params.contentType)}/multi-language/create-language-variation`;
+    const body: any = { id: params.contentId, language };
+    if (params.primaryLanguage) body.primaryLanguage = params.primaryLanguage;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<BlogPost | Page>(opId, {
+        method: 'POST',
+        endpoint,
+        payload: body,
+        changes: [`+ "${language}" variant of "${primary.name}" (${primary.language || params.primaryLanguage || 'no language set'})`]
+      });
+    }
+
+    const response = await this.request<BlogPost | Page>(
+      endpoint,
+      {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation(
+        'create_language_variation',
+        { opId, contentType: params.contentType, primaryId: params.contentId, language, variantId: response.data?.id },
+        undefined,
+        response.data
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * List every language variant in a translation group
+   * Inputs: content_type, content_id (primary or any variant)
+   * Output: The primary and its variants with language, name, slug, state
+   * Implementation: GET content → follow translatedFromId to the primary → read primary.translations
+   */
+  async listTranslationGroup(
+    contentType: ContentType,
+    contentId: string
+  ): Promise<HubSpotResponse<TranslationGroup>> {
+    logger.info('Listing translation group', { contentType, contentId });
+
+    const contentResponse = await this.request<BlogPost | Page>(
+      this.getContentBasePath(contentType, contentId),
+      { method: 'GET' }
+    );
+    if (!contentResponse.success || !contentResponse.data) {
+      return {
+        success: false,
+        error: contentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    let primary = contentResponse.data;
+    if (primary.translatedFromId) {
+      const primaryResponse = await this.request<BlogPost | Page>(
+        this.getContentBasePath(contentType, primary.translatedFromId),
+        { method: 'GET' }
+      );
+      if (!primaryResponse.success || !primaryResponse.data) {
+        return {
+          success: false,
+          error: primaryResponse.error,
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+      primary = primaryResponse.data;
+    }
+
+    const variants = Object.entries(primary.translations || {})
+      .filter(([, translation]) => String(translation.id) !== String(primary.id))
+      .map(([language, translation]) => ({
+        id: String(translation.id),
+        language: translation.language || language,
+        name: translation.name,
+        slug: translation.slug,
+        state: translation.state
+      }));
+
+    return {
+      success: true,
+      data: {
+        contentType,
+        primary: {
+          id: primary.id,
+          language: primary.language,
+          name: primary.name,
+          slug: primary.slug,
+          state: primary.state,
+          url: primary.url
+        },
+        variants
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Copy the primary page's layout skeleton onto a language variant
+   * Inputs: variant_page_id, page_type
+   * Output: Updated variant draft, validation, and which widget locations were kept vs copied
+   * Implementation: Fetch variant + primary → clone primary layoutSections → put the variant's own widget back
+   *                 wherever one of the same type sits at the same location → validate → PATCH /draft
+   * Safety: Refuses if any variant widget has no same-type counterpart in the primary (it would be lost);
+   *         validatePageStructure rejects removed sections
+   * Purpose: Give an empty or partial translation the primary's layout without overwriting translated text
+   */
+  async syncTranslationStructure(
+    variantId: string,
+    pageType: 'site-pages' | 'landing-pages',
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<TranslationSyncResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting translation structure sync', { opId, variantId, pageType });
+
+    // STEP 1: Fetch the variant and its primary
+    const variantResponse = await this.getPage(variantId, pageType);
+    if (!variantResponse.success || !variantResponse.data) {
+      return {
+        success: false,
+        error: variantResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforePage: Page = JSON.parse(JSON.stringify(variantResponse.data)); // Deep clone for comparison
+    const primaryId = beforePage.translatedFromId;
+    if (!primaryId) {
+      return {
+        success: false,
+        error: {
+          status: 'NOT_A_TRANSLATION',
+          message: `Page "${beforePage.name}" has no translatedFromId, so it is not a language variant. Pass the variant's ID, not the primary's.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const primaryResponse = await this.getPage(primaryId, pageType);
+    if (!primaryResponse.success || !primaryResponse.data) {
+      return {
+        success: false,
+        error: primaryResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const primary = primaryResponse.data;
+    if (!primary.layoutSections || typeof primary.layoutSections !== 'object') {
+      return {
+        success: false,
+        error: {
+          status: 'NO_LAYOUT',
+          message: `Primary page "${primary.name}" has no layoutSections to copy.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // STEP 2: Build the synced layout from the primary skeleton
+    const syncedPage: Page = {
+      ...JSON.parse(JSON.stringify(beforePage)),
+      layoutSections: JSON.parse(JSON.stringify(primary.layoutSections))
+    };
+
+    const keptLocations: WidgetLocation[] = [];
+    const copiedLocations: WidgetLocation[] = [];
+    const keptKeys = new Set<string>();
+    const locationKey = (location: WidgetLocation) =>
+      `${location.sectionName}/${location.rowIndex}/${location.columnIndex}/${location.widgetIndex}`;
+
+    for (const { location } of this.extractWidgetsFromPage(syncedPage).widgets) {
+      const primaryWidget = this.getWidgetAtLocation(syncedPage, location);
+      const variantWidget = this.getWidgetAtLocation(beforePage, location);
+
+      if (variantWidget && primaryWidget && variantWidget.type === primaryWidget.type) {
+        this.setWidgetAtLocation(syncedPage, location, JSON.parse(JSON.stringify(variantWidget)));
+        keptLocations.push(location);
+        keptKeys.add(locationKey(location));
+      } else {
+        copiedLocations.push(location);
+      }
+    }
+
+    // Any variant widget not carried over would be silently lost
+    const orphaned = this.extractWidgetsFromPage(beforePage).widgets
+      .filter(widget => !keptKeys.has(locationKey(widget.location)));
+    if (orphaned.length > 0) {
+      return {
+        success: false,
+        error: {
+          status: 'STRUCTURE_CONFLICT',
+          message: `The variant has ${orphaned.length} widget(s) with no same-type widget at the same location in the primary: ${orphaned.map(widget => `"${widget.name}" at ${locationKey(widget.location)}`).join(', ')}. Syncing would discard them. Remove or move them first.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // STEP 3: Validate structure integrity
+    const validation = this.validatePageStructure(beforePage, syncedPage);
+    if (!validation.isValid) {
+      logger.error('Structure validation failed', { opId, validation });
+      return {
+        success: false,
+        error: {
+          status: 'VALIDATION_FAILED',
+          message: `Structure validation failed: ${validation.errors.join(', ')}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const conflict = await this.checkConcurrentModification(
+      opId, this.pageTypeToContentType(pageType), beforePage, writeOptions, () => this.getPage(variantId, pageType)
+    );
+    if (conflict) {
+      return {
+        success: false,
+        error: conflict,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const payload = { layoutSections: syncedPage.layoutSections };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/pages/${pageType}/${variantId}/draft`,
+        payload,
+        beforeState: beforePage,
+        afterState: syncedPage,
+        validation
+      });
+    }
+
+    // STEP 4: PATCH the new layout to the variant's draft
+    const response = await this.request<Page>(
+      `/cms/v3/pages/${pageType}/${variantId}/draft`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(payload)
+      }
+    );
+
+    if (!response.success || !response.data) {
+      logger.error('Failed to update variant draft', { opId, error: response.error });
+      return {
+        success: false,
+        error: response.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    logger.logOperation(
+      'sync_translation_structure',
+      { opId, variantId, primaryId, pageType, kept: keptLocations.length, copied: copiedLocations.length },
+      beforePage,
+      response.data
+    );
+
+    const operationId = await this.journal.record({
+      operation: 'sync_translation_structure',
+      contentType: this.pageTypeToContentType(pageType),
+      contentId: variantId,
+      details: { primaryId },
+      beforeState: beforePage
+    }, opId);
+
+    return {
+      success: true,
+      data: {
+        page: response.data,
+        primaryId,
+        validation,
+        keptLocations,
+        copiedLocations
+      },
+      rateLimitStatus: this.rateLimiter.getStatus(),
+      operationId
+    };
+  }
+
+  // ========================================
+  // URL redirects
+  // ========================================
+
+  /**
+   * List URL redirects
+   * Inputs: limit, after (paging cursor)
+   * Implementation: GET /cms/v3/url-redirects/
+   */
+  async listUrlRedirects(
+    limit: number = 100,
+    after?: string
+  ): Promise<HubSpotResponse<PaginatedResponse<UrlRedirect>>> {
+    const queryParams = new URLSearchParams();
+    queryParams.set('limit', Math.min(limit, 100).toString());
+    if (after) queryParams.set('after', after);
+
+    logger.info('Fetching URL redirects', { limit, after });
+    return this.request<PaginatedResponse<UrlRedirect>>(
+      `/cms/v3/url-redirects/?${queryParams.toString()}`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Get a single URL redirect
+   */
+  async getUrlRedirect(redirectId: string): Promise<HubSpotResponse<UrlRedirect>> {
+    logger.info('Fetching URL redirect', { redirectId });
+    return this.request<UrlRedirect>(`/cms/v3/url-redirects/${redirectId}`, { method: 'GET' });
+  }
+
+  /**
+   * Create a URL redirect
+   * Inputs: route_prefix, destination, redirect_style (default 301), matching options
+   * Implementation: POST /cms/v3/url-redirects/
+   * Safety: Redirects are live as soon as they are created - there is no draft
+   */
+  async createUrlRedirect(
+    params: UrlRedirectCreateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<UrlRedirect>> {
+    const opId = logger.getNextOperationId();
+    const body = { redirectStyle: 301, ...params };
+    logger.info('Creating URL redirect', { opId, routePrefix: body.routePrefix, destination: body.destination });
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<UrlRedirect>(opId, {
+        method: 'POST',
+        endpoint: '/cms/v3/url-redirects/',
+        payload: body,
+        changes: [`+ ${body.redirectStyle} redirect ${body.routePrefix} → ${body.destination}`]
+      });
+    }
+
+    const response = await this.request<UrlRedirect>(
+      '/cms/v3/url-redirects/',
+      {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation('create_url_redirect', { opId, params: body }, undefined, response.data);
+    }
+
+    return response;
+  }
+
+  /**
+   * Update a URL redirect using fetch-first pattern
+   * Implementation: GET redirect → merge → PATCH /cms/v3/url-redirects/{id}
+   */
+  async updateUrlRedirect(
+    redirectId: string,
+    updates: UrlRedirectUpdateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<UrlRedirect>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Updating URL redirect', { opId, redirectId, fields: Object.keys(updates) });
+
+    const currentResponse = await this.getUrlRedirect(redirectId);
+    if (!currentResponse.success || !currentResponse.data) {
+      return currentResponse;
+    }
+
+    const beforeState = currentResponse.data;
+    const updatedRedirect = { ...beforeState, ...updates };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<UrlRedirect>(opId, {
+        method: 'PATCH',
+        endpoint: `/cms/v3/url-redirects/${redirectId}`,
+        payload: updatedRedirect,
+        changes: Object.entries(updates)
+          .filter(([field, value]) => value !== undefined && (beforeState as any)[field] !== value)
+          .map(([field, value]) => `~ ${field}: ${JSON.stringify((beforeState as any)[field])} → ${JSON.stringify(value)}`)
+      });
+    }
+
+    const response = await this.request<UrlRedirect>(
+      `/cms/v3/url-redirects/${redirectId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updatedRedirect)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation('update_url_redirect', { opId, redirectId, updates }, beforeState, response.data);
+    }
+
+    return response;
+  }
+
+  /**
+   * Delete a URL redirect
+   * Implementation: GET redirect (for the audit log) → DELETE /cms/v3/url-redirects/{id}
+   */
+  async deleteUrlRedirect(
+    redirectId: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<UrlRedirect>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Deleting URL redirect', { opId, redirectId });
+
+    const currentResponse = await this.getUrlRedirect(redirectId);
+    if (!currentResponse.success || !currentResponse.data) {
+      return currentResponse;
+    }
+
+    const beforeState = currentResponse.data;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<UrlRedirect>(opId, {
+        method: 'DELETE',
+        endpoint: `/cms/v3/url-redirects/${redirectId}`,
+        changes: [`- ${beforeState.redirectStyle} redirect ${beforeState.routePrefix} → ${beforeState.destination}`]
+      });
+    }
+
+    const response = await this.request<void>(`/cms/v3/url-redirects/${redirectId}`, { method: 'DELETE' });
+    if (!response.success) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    logger.logOperation('delete_url_redirect', { opId, redirectId }, beforeState, undefined);
+
+    return {
+      success: true,
+      data: beforeState,
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Helper: Work out the redirect a slug change needs
+   * Old path comes from the content's live url; the new path is the new slug on the same host
+   */
+  private planSlugRedirect(before: BlogPost | Page, newSlug: string): SlugRedirectResult {
+    if (!before.url) {
+      return { skipped: 'Content has no URL yet, so there is no old URL to redirect' };
+    }
+
+    let from: string;
+    try {
+      from = new URL(before.url).pathname;
+    } catch {
+      return { skipped: `Could not parse the current URL "${before.url}"` };
+    }
+
+    const to = `/${newSlug.replace(/^\/+/, '')}`;
+    if (from.replace(/\/+$/, '') === to.replace(/\/+$/, '')) {
+      return { skipped: 'Old and new paths are the same' };
+    }
+
+    if (before.state !== 'PUBLISHED' && !before.currentlyPublished) {
+      return { from, to, skipped: 'Content has never been published, so nothing links to the old URL yet' };
+    }
+
+    return { from, to };
+  }
+
+  /**
+   * Helper: Add the redirect a dry run would have created to its change summary
+   */
+  private withRedirectPlan<T>(plan: SlugRedirectResult | undefined, preview: HubSpotResponse<T>): HubSpotResponse<T> {
+    if (preview.dryRun && plan) {
+      preview.dryRun.changes.push(
+        plan.skipped
+          ? `= no redirect: ${plan.skipped}`
+          : `+ 301 redirect ${plan.from} → ${plan.to} (after the write)`
+      );
+    }
+    return preview;
+  }
+
+  /**
+   * Helper: Create the 301 for a slug change after the content write succeeded
+   * Uses isOnlyAfterNotFound so the live page keeps serving at the old path until the new slug is published
+   * A failure is reported in the result, never thrown - the content write already happened
+   */
+  private async createSlugRedirect(opId: number, plan: SlugRedirectResult): Promise<SlugRedirectResult> {
+    if (plan.skipped || !plan.from || !plan.to) {
+      return plan;
+    }
+
+    const response = await this.createUrlRedirect({
+      routePrefix: plan.from,
+      destination: plan.to,
+      redirectStyle: 301,
+      isOnlyAfterNotFound: true
+    });
+
+    if (!response.success || !response.data) {
+      logger.warn('Slug changed but redirect creation failed', { opId, from: plan.from, to: plan.to, error: response.error });
+      return { ...plan, error: response.error };
+    }
+
+    return { ...plan, redirect: response.data };
+  }
+
+  // ========================================
+  // HubDB
+  // ========================================
+
+  /**
+   * List HubDB tables
+   * Inputs: draft (include tables that were never published)
+   * Output: Every table with id, name, label, row count and publish state (no columns)
+   * Implementation: GET /cms/v3/hubdb/tables[/draft], following paging.next.after until exhausted
+   */
+  async listHubDbTables(draft: boolean = false): Promise<HubSpotResponse<PaginatedResponse<HubDbTable>>> {
+    logger.info('Fetching HubDB tables', { draft });
+
+    const results: HubDbTable[] = [];
+    let after: string | undefined;
+
+    do {
+      const queryParams = new URLSearchParams();
+      queryParams.set('limit', '100');
+      if (after) queryParams.set('after', after);
+
+      const response = await this.request<PaginatedResponse<HubDbTable>>(
+        `/cms/v3/hubdb/tables${draft ? '/draft' : ''}?${queryParams.toString()}`,
+        { method: 'GET' }
+      );
+      if (!response.success || !response.data) {
+        return response;
+      }
+
+      results.push(...response.data.results);
+      after = response.data.paging?.next?.after;
+    } while (after);
+
+    return {
+      success: true,
+      data: { total: results.length, results },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Get a HubDB table with its column schema
+   * Inputs: table id or name, draft
+   */
+  async getHubDbTable(tableIdOrName: string, draft: boolean = false): Promise<HubSpotResponse<HubDbTable>> {
+    logger.info('Fetching HubDB table', { tableIdOrName, draft });
+    return this.request<HubDbTable>(
+      `/cms/v3/hubdb/tables/${encodeURIComponent(tableIdOrName)}${draft ? '/draft' : ''}`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * List HubDB rows with filtering
+   * Inputs: table id or name, filters (column/operator/value), sort, limit, after, properties, draft
+   * Implementation: GET /cms/v3/hubdb/tables/{table}/rows[/draft] with filters as {column}__{operator}={value}
+   */
+  async listHubDbRows(
+    tableIdOrName: string,
+    params: HubDbRowListParams = {}
+  ): Promise<HubSpotResponse<PaginatedResponse<HubDbRow>>> {
+    const queryParams = new URLSearchParams();
+    queryParams.set('limit', Math.min(params.limit || 100, 1000).toString());
+    if (params.after) queryParams.set('after', params.after);
+    if (params.sort) queryParams.set('sort', params.sort);
+    for (const property of params.properties || []) {
+      queryParams.append('properties', property);
+    }
+    for (const filter of params.filters || []) {
+      const value = Array.isArray(filter.value) ? filter.value.join(',') : String(filter.value ?? '');
+      queryParams.append(`${filter.column}__${filter.operator}`, value);
+    }
+
+    logger.info('Fetching HubDB rows', { tableIdOrName, ...params });
+    return this.request<PaginatedResponse<HubDbRow>>(
+      `/cms/v3/hubdb/tables/${encodeURIComponent(tableIdOrName)}/rows${params.draft ? '/draft' : ''}?${queryParams.toString()}`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Get a single row from the draft table
+   */
+  async getHubDbRowDraft(tableIdOrName: string, rowId: string): Promise<HubSpotResponse<HubDbRow>> {
+    logger.info('Fetching HubDB draft row', { tableIdOrName, rowId });
+    return this.request<HubDbRow>(
+      `/cms/v3/hubdb/tables/${encodeURIComponent(tableIdOrName)}/rows/${rowId}/draft`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Create a row in the draft table
+   * Implementation: GET draft schema → check column names → POST /cms/v3/hubdb/tables/{table}/rows/draft
+   * Safety: Only the draft table changes; the row goes live when the table is published
+   */
+  async createHubDbRow(
+    tableIdOrName: string,
+    row: HubDbRowWrite,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<HubDbRowWriteResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Creating HubDB row', { opId, tableIdOrName, columns: Object.keys(row.values) });
+
+    const tableResponse = await this.getHubDbTable(tableIdOrName, true);
+    if (!tableResponse.success || !tableResponse.data) {
+      return { success: false, error: tableResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const table = tableResponse.data;
+    const columnError = this.checkHubDbColumns(opId, table, row.values);
+    if (columnError) {
+      return { success: false, error: columnError, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const endpoint = `/cms/v3/hubdb/tables/${table.id}/rows/draft`;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<HubDbRowWriteResult>(opId, {
+        method: 'POST',
+        endpoint,
+        payload: row,
+        changes: Object.entries(row.values).map(([column, value]) => `+ ${column}: ${JSON.stringify(value)}`)
+      });
+    }
+
+    const response = await this.request<HubDbRow>(
+      endpoint,
+      {
+        method: 'POST',
+        body: JSON.stringify(row)
+      }
+    );
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    logger.logOperation('create_hubdb_row', { opId, tableId: table.id }, undefined, response.data);
+
+    return {
+      success: true,
+      data: { tableId: table.id, row: response.data },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Update a row in the draft table using fetch-first pattern
+   * Implementation: GET draft schema + draft row → check column names → PATCH /rows/{id}/draft with the changed values
+   * Safety: Columns left out of values keep their current value; the change goes live when the table is published
+   */
+  async updateHubDbRow(
+    tableIdOrName: string,
+    rowId: string,
+    updates: Partial<HubDbRowWrite>,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<HubDbRowWriteResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Updating HubDB row', { opId, tableIdOrName, rowId, columns: Object.keys(updates.values || {}) });
+
+    const tableResponse = await this.getHubDbTable(tableIdOrName, true);
+    if (!tableResponse.success || !tableResponse.data) {
+      return { success: false, error: tableResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const table = tableResponse.data;
+    const columnError = this.checkHubDbColumns(opId, table, updates.values || {});
+    if (columnError) {
+      return { success: false, error: columnError, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const currentResponse = await this.getHubDbRowDraft(table.id, rowId);
+    if (!currentResponse.success || !currentResponse.data) {
+      return { success: false, error: currentResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const beforeState = currentResponse.data;
+    const endpoint = `/cms/v3/hubdb/tables/${table.id}/rows/${rowId}/draft`;
+
+    if (this.isDryRun(writeOptions)) {
+      const { values, ...fields } = updates;
+      return this.dryRunResponse<HubDbRowWriteResult>(opId, {
+        method: 'PATCH',
+        endpoint,
+        payload: updates,
+        changes: [
+          ...Object.entries(values || {}).map(([column, value]) => [column, beforeState.values[column], value]),
+          ...Object.entries(fields).map(([field, value]) => [field, (beforeState as any)[field], value])
+        ]
+          .filter(([, before, after]) => JSON.stringify(before) !== JSON.stringify(after))
+          .map(([field, before, after]) => `~ ${field}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`)
+      });
+    }
+
+    const response = await this.request<HubDbRow>(
+      endpoint,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updates)
+      }
+    );
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    logger.logOperation('update_hubdb_row', { opId, tableId: table.id, rowId, updates }, beforeState, response.data);
+
+    return {
+      success: true,
+      data: { tableId: table.id, row: response.data, before: beforeState },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Delete a row from the draft table
+   * Implementation: GET draft row (for the audit log) → DELETE /rows/{id}/draft
+   * Safety: The row stays live until the table is published
+   */
+  async deleteHubDbRow(
+    tableIdOrName: string,
+    rowId: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<HubDbRowWriteResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Deleting HubDB row', { opId, tableIdOrName, rowId });
+
+    const currentResponse = await this.getHubDbRowDraft(tableIdOrName, rowId);
+    if (!currentResponse.success || !currentResponse.data) {
+      return { success: false, error: currentResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const beforeState = currentResponse.data;
+    const endpoint = `/cms/v3/hubdb/tables/${encodeURIComponent(tableIdOrName)}/rows/${rowId}/draft`;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<HubDbRowWriteResult>(opId, {
+        method: 'DELETE',
+        endpoint,
+        changes: [`- row ${rowId}: ${JSON.stringify(beforeState.values)}`]
+      });
+    }
+
+    const response = await this.request<void>(endpoint, { method: 'DELETE' });
+    if (!response.success) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    logger.logOperation('delete_hubdb_row', { opId, tableIdOrName, rowId }, beforeState, undefined);
+
+    return {
+      success: true,
+      data: { tableId: tableIdOrName, row: beforeState },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Publish a HubDB table draft
+   * Implementation: GET draft + published table → POST /cms/v3/hubdb/tables/{table}/draft/publish
+   * Safety: Every draft row change goes live at once - dynamic pages and modules reading the table update immediately
+   */
+  async publishHubDbTable(
+    tableIdOrName: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<HubDbPublishResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Publishing HubDB table', { opId, tableIdOrName });
+
+    const draftResponse = await this.getHubDbTable(tableIdOrName, true);
+    if (!draftResponse.success || !draftResponse.data) {
+      return { success: false, error: draftResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const draftTable = draftResponse.data;
+
+    // A table that was never published has no live version to compare against
+    const liveResponse = await this.getHubDbTable(draftTable.id, false);
+    const liveTable = liveResponse.success ? liveResponse.data : undefined;
+
+    const endpoint = `/cms/v3/hubdb/tables/${draftTable.id}/draft/publish`;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<HubDbPublishResult>(opId, {
+        method: 'POST',
+        endpoint,
+        changes: [
+          liveTable
+            ? `~ rowCount: ${liveTable.rowCount} → ${draftTable.rowCount}`
+            : `+ first publish of "${draftTable.label || draftTable.name}" with ${draftTable.rowCount} row(s)`
+        ]
+      });
+    }
+
+    const response = await this.request<HubDbTable>(endpoint, { method: 'POST' });
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    logger.logOperation('publish_hubdb_table', { opId, tableId: draftTable.id }, liveTable, response.data);
+
+    return {
+      success: true,
+      data: { table: response.data, publishedRowCountBefore: liveTable?.rowCount },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Helper: Reject row values for columns the table doesn't have
+   * Catches column-name typos before they reach HubSpot
+   */
+  private checkHubDbColumns(opId: number, table: HubDbTable, values: Record<string, unknown>): HubSpotError | null {
+    const columnNames = new Set((table.columns || []).map(column => column.name));
+    const unknown = Object.keys(values).filter(name => !columnNames.has(name));
+    if (unknown.length === 0) return null;
+
+    return {
+      status: 'INVALID_COLUMN',
+      message: `Table "${table.name}" has no column(s) ${unknown.map(name => `"${name}"`).join(', ')}. Columns: ${[...columnNames].join(', ') || '(none)'}`,
+      correlationId: String(opId)
+    };
+  }
+
+  // ========================================
+  // Global content (global modules, groups and partials)
+  // ========================================
+
+  /**
+   * List global content
+   * Output: Every global module, group and partial, each with the pages that use it
+   * Implementation: GET /content/api/v2/global-content (offset paging) → one page scan shared by all elements
+   * Purpose: Headers, footers and shared CTAs live here, outside any page's layoutSections
+   */
+  async listGlobalContent(): Promise<HubSpotResponse<Array<{ globalContent: GlobalContent; usage: GlobalContentUsage }>>> {
+    logger.info('Fetching global content');
+
+    const elements: GlobalContent[] = [];
+    let offset = 0;
+    let total = 0;
+
+    do {
+      const response = await this.request<{ objects: GlobalContent[]; total: number }>(
+        `/content/api/v2/global-content?limit=100&offset=${offset}`,
+        { method: 'GET' }
+      );
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+
+      const batch = response.data.objects || [];
+      elements.push(...batch);
+      total = response.data.total ?? elements.length;
+      offset += batch.length;
+      if (batch.length === 0) break;
+    } while (offset < total);
+
+    const usageResponse = await this.findGlobalContentUsage(elements);
+    if (!usageResponse.success || !usageResponse.data) {
+      return { success: false, error: usageResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    return {
+      success: true,
+      data: elements.map(globalContent => ({ globalContent, usage: usageResponse.data!.get(globalContent.id)! })),
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Get a global content element's widgets in the flattened WidgetLocation structure
+   * Inputs: global_content_id, draft (read the unpublished buffer)
+   * Output: GlobalContentStructure with widget locations and the pages that use the element
+   * Purpose: Same discovery step as getPageContentStructure, for content that sits on every page
+   */
+  async getGlobalContentStructure(
+    globalContentId: string,
+    draft: boolean = true
+  ): Promise<HubSpotResponse<GlobalContentStructure>> {
+    logger.info('Getting global content structure', { globalContentId, draft });
+
+    const response = await this.getGlobalContent(globalContentId, draft);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const element = response.data;
+    const usageResponse = await this.findGlobalContentUsage([element]);
+    if (!usageResponse.success || !usageResponse.data) {
+      return { success: false, error: usageResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const widgets = this.extractGlobalWidgets(element).map(({ widget, location }) => this.summarizeWidget(widget, location));
+
+    return {
+      success: true,
+      data: {
+        globalContentId: element.id,
+        name: element.name,
+        type: element.type,
+        path: element.path,
+        updated: element.updated,
+        widgets,
+        totalWidgets: widgets.length,
+        usage: usageResponse.data.get(element.id)!
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Get a global content element
+   * Implementation: GET /content/api/v2/global-content/{id}[/buffer] - the buffer is the unpublished draft
+   */
+  async getGlobalContent(globalContentId: string, draft: boolean = false): Promise<HubSpotResponse<GlobalContent>> {
+    logger.info('Fetching global content', { globalContentId, draft });
+    return this.request<GlobalContent>(
+      `/content/api/v2/global-content/${globalContentId}${draft ? '/buffer' : ''}`,
+      { method: 'GET' }
+    );
+  }
+
+  /**
+   * Update a widget in a global content element's draft using fetch-first pattern
+   * Inputs: global_content_id, location, html/styles/params
+   * Output: The updated draft and the pages that will change when it is published
+   * Implementation: GET buffer → locate widget → modify → check widget count → PUT /buffer
+   * Safety: Draft only - nothing changes on the site until publishGlobalContent. Publishing changes every page listed in usage.
+   */
+  async updateGlobalContentWidget(
+    params: GlobalContentUpdateParams,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<GlobalContentWriteResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting global content update with fetch-first pattern', {
+      opId,
+      globalContentId: params.globalContentId,
+      location: params.location
+    });
+
+    // STEP 1: Fetch current draft
+    const currentResponse = await this.getGlobalContent(params.globalContentId, true);
+    if (!currentResponse.success || !currentResponse.data) {
+      return { success: false, error: currentResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const beforeState: GlobalContent = JSON.parse(JSON.stringify(currentResponse.data));
+    const updatedElement = currentResponse.data;
+
+    // STEP 2: Locate and update the widget
+    const atLocation = ({ location }: { location: WidgetLocation }) =>
+      location.sectionName === params.location.sectionName && location.widgetIndex === params.location.widgetIndex;
+    const widget = this.extractGlobalWidgets(updatedElement).find(atLocation)?.widget;
+    const beforeWidget = this.extractGlobalWidgets(beforeState).find(atLocation)?.widget;
+    if (!widget || !beforeWidget) {
+      return {
+        success: false,
+        error: {
+          status: 'WIDGET_NOT_FOUND',
+          message: `Widget not found at location: section="${params.location.sectionName}", widget=${params.location.widgetIndex}. Use hubspot_get_global_content_structure to find valid locations.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (params.html !== undefined) {
+      if (!widget.body) widget.body = {};
+      widget.body.html = params.html;
+    }
+    if (params.styles !== undefined) {
+      widget.styles = { ...widget.styles, ...params.styles };
+    }
+    if (params.params !== undefined) {
+      widget.params = { ...widget.params, ...params.params };
+    }
+
+    // STEP 3: The edit must not add or drop widgets
+    const beforeCount = this.extractGlobalWidgets(beforeState).length;
+    const afterCount = this.extractGlobalWidgets(updatedElement).length;
+    if (beforeCount !== afterCount) {
+      return {
+        success: false,
+        error: {
+          status: 'VALIDATION_FAILED',
+          message: `Structure validation failed: widget count changed from ${beforeCount} to ${afterCount}`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // Blast radius is reported on every outcome, including dry runs
+    const usageResponse = await this.findGlobalContentUsage([beforeState]);
+    if (!usageResponse.success || !usageResponse.data) {
+      return { success: false, error: usageResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+    const usage = usageResponse.data.get(beforeState.id)!;
+
+    const endpoint = `/content/api/v2/global-content/${params.globalContentId}/buffer`;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<GlobalContentWriteResult>(opId, {
+        method: 'PUT',
+        endpoint,
+        payload: updatedElement,
+        changes: [...this.diffWidget(params.location, beforeWidget, widget), `! ${usage.warning}`]
+      });
+    }
+
+    // STEP 4: PUT the complete element to the draft buffer
+    const response = await this.request<GlobalContent>(
+      endpoint,
+      {
+        method: 'PUT',
+        body: JSON.stringify(updatedElement)
+      }
+    );
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    logger.logOperation(
+      'update_global_content_widget',
+      { opId, globalContentId: params.globalContentId, location: params.location, affectedPages: usage.pages.length },
+      beforeState,
+      response.data
+    );
+
+    return {
+      success: true,
+      data: { globalContent: response.data, usage },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Publish a global content element's draft
+   * Implementation: GET live + buffer (for the audit log) → POST /content/api/v2/global-content/{id}/push-buffer-live
+   * Safety: Changes every page that uses the element at once
+   */
+  async publishGlobalContent(
+    globalContentId: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<GlobalContentWriteResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Publishing global content', { opId, globalContentId });
+
+    const liveResponse = await this.getGlobalContent(globalContentId, false);
+    if (!liveResponse.success || !liveResponse.data) {
+      return { success: false, error: liveResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const draftResponse = await this.getGlobalContent(globalContentId, true);
+    if (!draftResponse.success || !draftResponse.data) {
+      return { success: false, error: draftResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const usageResponse = await this.findGlobalContentUsage([liveResponse.data]);
+    if (!usageResponse.success || !usageResponse.data) {
+      return { success: false, error: usageResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+    const usage = usageResponse.data.get(liveResponse.data.id)!;
+
+    const endpoint = `/content/api/v2/global-content/${globalContentId}/push-buffer-live`;
+
+    if (this.isDryRun(writeOptions)) {
+      const liveWidgets = this.extractGlobalWidgets(liveResponse.data);
+      const draftWidgets = this.extractGlobalWidgets(draftResponse.data);
+      return this.dryRunResponse<GlobalContentWriteResult>(opId, {
+        method: 'POST',
+        endpoint,
+        changes: [
+          ...draftWidgets.flatMap(({ widget, location }, index) =>
+            this.diffWidget(location, liveWidgets[index]?.widget || {}, widget)
+          ),
+          `! ${usage.warning}`
+        ]
+      });
+    }
+
+    const response = await this.request<GlobalContent>(endpoint, { method: 'POST' });
+    if (!response.success) {
+      return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    logger.logOperation(
+      'publish_global_content',
+      { opId, globalContentId, affectedPages: usage.pages.length },
+      liveResponse.data,
+      draftResponse.data
+    );
+
+    return {
+      success: true,
+      data: { globalContent: response.data || draftResponse.data, usage },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Helper: Widgets of a global content element with WidgetLocation-style addresses
+   * A single module is at section "widget", index 0; groups and partials list theirs under section "widgets"
+   */
+  private extractGlobalWidgets(element: GlobalContent): Array<{ widget: Widget; location: WidgetLocation }> {
+    const located: Array<{ widget: Widget; location: WidgetLocation }> = [];
+
+    if (element.widget && typeof element.widget === 'object') {
+      located.push({
+        widget: element.widget,
+        location: { sectionName: 'widget', rowIndex: 0, columnIndex: 0, widgetIndex: 0 }
+      });
+    }
+
+    if (Array.isArray(element.widgets)) {
+      element.widgets.forEach((widget, widgetIndex) => {
+        located.push({
+          widget,
+          location: { sectionName: 'widgets', rowIndex: 0, columnIndex: 0, widgetIndex }
+        });
+      });
+    }
+
+    return located;
+  }
+
+  /**
+   * Helper: Human-readable changes between two versions of one widget
+   */
+  private diffWidget(location: WidgetLocation, before: Partial<Widget>, after: Partial<Widget>): string[] {
+    const where = `${location.sectionName}[${location.widgetIndex}]`;
+    const changes: string[] = [];
+
+    if (before.body?.html !== after.body?.html) {
+      changes.push(`~ ${where} body.html changed (${(before.body?.html || '').length} → ${(after.body?.html || '').length} chars)`);
+    }
+    for (const field of ['styles', 'params'] as const) {
+      const keys = new Set([...Object.keys(before[field] || {}), ...Object.keys(after[field] || {})]);
+      for (const key of keys) {
+        const beforeValue = JSON.stringify(before[field]?.[key]);
+        const afterValue = JSON.stringify(after[field]?.[key]);
+        if (beforeValue !== afterValue) {
+          changes.push(`~ ${where} ${field}.${key}: ${beforeValue} → ${afterValue}`);
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Helper: Find the pages that use each global content element
+   * Scans every site and landing page once for references by id, name or partial path in
+   * layoutSections, widgets and widgetContainers
+   * Limitation: Elements included directly by a template leave no trace in the page data, so they
+   * affect every page on that template - the warning says so rather than implying the list is complete
+   */
+  private async findGlobalContentUsage(
+    elements: GlobalContent[]
+  ): Promise<HubSpotResponse<Map<string, GlobalContentUsage>>> {
+    const pagesByElement = new Map<string, GlobalContentUsage['pages']>(elements.map(element => [element.id, []]));
+    const scanned = { sitePages: 0, landingPages: 0 };
+
+    for (const pageType of ['site-pages', 'landing-pages'] as const) {
+      const contentType = this.pageTypeToContentType(pageType);
+      const pages = await this.listAllForScan(offset => this.listPages({ pageType, limit: 100, offset }));
+      if (!pages.success) {
+        return { success: false, error: pages.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+
+      for (const page of pages.data!) {
+        const serialized = JSON.stringify([page.layoutSections, page.widgets, page.widgetContainers]);
+        for (const element of elements) {
+          if (this.referencesGlobalContent(serialized, element)) {
+            pagesByElement.get(element.id)!.push({ contentType, contentId: page.id, name: page.name, url: page.url });
+          }
+        }
+      }
+
+      if (pageType === 'site-pages') {
+        scanned.sitePages = pages.data!.length;
+      } else {
+        scanned.landingPages = pages.data!.length;
+      }
+    }
+
+    const usage = new Map<string, GlobalContentUsage>();
+    for (const element of elements) {
+      const pages = pagesByElement.get(element.id)!;
+      usage.set(element.id, {
+        pages,
+        scanned,
+        warning: `⚠️ GLOBAL CONTENT - "${element.label || element.name}" is shared. Publishing a change updates ` +
+          `${pages.length} page(s) that reference it${pages.length > 0 ? ` (${pages.slice(0, 10).map(page => `"${page.name}"`).join(', ')}${pages.length > 10 ? ', ...' : ''})` : ''}, ` +
+          'plus every page or blog post whose template includes it directly (those cannot be listed).'
+      });
+    }
+
+    return { success: true, data: usage, rateLimitStatus: this.rateLimiter.getStatus() };
+  }
+
+  /**
+   * Helper: Whether serialized page widgets point at a global content element
+   */
+  private referencesGlobalContent(serializedPage: string, element: GlobalContent): boolean {
+    const id = String(element.id);
+    const byId = new RegExp(`"(global_widget_id|globalWidgetId|global_content_id|globalContentId)":"?${id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"?[,}]`);
+    if (byId.test(serializedPage)) return true;
+
+    if (element.name && serializedPage.includes(`"global_widget_name":${JSON.stringify(element.name)}`)) return true;
+    if (element.path && serializedPage.includes(JSON.stringify(element.path).slice(1, -1))) return true;
+
+    return false;
+  }
+
+  // ========================================
+  // Source code (templates and modules)
+  // ========================================
+
+  /**
+   * Helper: Endpoint for a design manager path, with each segment encoded
+   */
+  private sourceCodePath(kind: 'content' | 'metadata' | 'validate', environment: SourceCodeEnvironment, path: string): string {
+    const encoded = this.normalizeSourcePath(path).split('/').map(encodeURIComponent).join('/');
+    return kind === 'validate'
+      ? `/cms/v3/source-code/${environment}/validate/${encoded}`
+      : `/cms/v3/source-code/${environment}/${kind}/${encoded}`;
+  }
+
+  /**
+   * Helper: Design manager paths are used without a leading slash, like templatePath
+   */
+  private normalizeSourcePath(path: string): string {
+    return path.trim().replace(/^\/+/, '');
+  }
+
+  /**
+   * Helper: The ".module" folder a path is in (or is), e.g. "theme/hero.module" for "theme/hero.module/fields.json"
+   * Pages reference a module by its folder, never by the files inside it
+   */
+  private moduleFolderOf(path: string): string | undefined {
+    return this.normalizeSourcePath(path).match(/^(.*?\.module)(\/|$)/)?.[1];
+  }
+
+  /**
+   * Get a template or module file's metadata (or a folder's children)
+   * Implementation: GET /cms/v3/source-code/{environment}/metadata/{path}
+   */
+  async getSourceCodeMetadata(
+    path: string,
+    environment: SourceCodeEnvironment = 'published'
+  ): Promise<HubSpotResponse<SourceCodeMetadata>> {
+    logger.info('Fetching source code metadata', { path, environment });
+    return this.request<SourceCodeMetadata>(this.sourceCodePath('metadata', environment, path), { method: 'GET' });
+  }
+
+  /**
+   * Read a template or module file
+   * Inputs: path, environment (published or draft)
+   * Output: Raw source plus metadata
+   * Implementation: GET /cms/v3/source-code/{environment}/content/{path} + /metadata/{path}
+   */
+  async getSourceCode(
+    path: string,
+    environment: SourceCodeEnvironment = 'published'
+  ): Promise<HubSpotResponse<SourceCodeFile>> {
+    logger.info('Fetching source code', { path, environment });
+
+    const contentResponse = await this.request<string>(this.sourceCodePath('content', environment, path), { method: 'GET' });
+    if (!contentResponse.success) {
+      return { success: false, error: contentResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const metadataResponse = await this.getSourceCodeMetadata(path, environment);
+    const source = contentResponse.data;
+
+    return {
+      success: true,
+      data: {
+        path: this.normalizeSourcePath(path),
+        environment,
+        source: typeof source === 'string' ? source : JSON.stringify(source, null, 2),
+        metadata: metadataResponse.success ? metadataResponse.data : undefined
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Validate template or module source without saving it
+   * Implementation: POST /cms/v3/source-code/draft/validate/{path} with the file as multipart/form-data
+   * Output: valid flag plus HubL / syntax errors reported by HubSpot
+   */
+  async validateSourceCode(path: string, source: string): Promise<HubSpotResponse<SourceCodeValidation>> {
+    const normalizedPath = this.normalizeSourcePath(path);
+    logger.info('Validating source code', { path: normalizedPath, size: source.length });
+
+    const response = await this.request<unknown>(
+      this.sourceCodePath('validate', 'draft', normalizedPath),
+      {
+        method: 'POST',
+        body: this.sourceCodeForm(normalizedPath, source)
+      }
+    );
+
+    if (response.success) {
+      return {
+        success: true,
+        data: { path: normalizedPath, valid: true, errors: [] },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // A 400 with error details means the source is invalid, not that the call failed
+    if (response.error?.errors && response.error.errors.length > 0) {
+      return {
+        success: true,
+        data: { path: normalizedPath, valid: false, errors: response.error.errors },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    return { success: false, error: response.error, rateLimitStatus: this.rateLimiter.getStatus() };
+  }
+
+  /**
+   * Find the pages built on a template or using a module
+   * Implementation: Scan all site and landing pages for templatePath (templates) or widget references (modules)
+   */
+  async findTemplateUsage(path: string): Promise<HubSpotResponse<TemplateUsage>> {
+    const normalizedPath = this.normalizeSourcePath(path);
+    logger.info('Scanning for template usage', { path: normalizedPath });
+
+    const usage: TemplateUsage = { path: normalizedPath, pages: [], scanned: { sitePages: 0, landingPages: 0 } };
+    // Files inside a module (module.html, fields.json, ...) are used wherever the module is. Widget data
+    // references the module folder's path without the ".module" suffix
+    const modulePath = this.moduleFolderOf(normalizedPath)?.replace(/\.module$/, '');
+
+    for (const pageType of ['site-pages', 'landing-pages'] as const) {
+      const contentType = this.pageTypeToContentType(pageType);
+      const pages = await this.listAllForScan(offset => this.listPages({ pageType, limit: 100, offset }));
+      if (!pages.success) {
+        return { success: false, error: pages.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+
+      for (const page of pages.data!) {
+        const entry = { contentType, contentId: page.id, name: page.name, url: page.url, state: page.state };
+
+        if (page.templatePath && this.normalizeSourcePath(page.templatePath) === normalizedPath) {
+          usage.pages.push({ ...entry, reference: 'templatePath' });
+        } else if (modulePath) {
+          const serialized = JSON.stringify([page.layoutSections, page.widgets, page.widgetContainers]);
+          if (serialized.includes(`"${modulePath}`) || serialized.includes(`"/${modulePath}`)) {
+            usage.pages.push({ ...entry, reference: 'module' });
+          }
+        }
+      }
+
+      if (pageType === 'site-pages') {
+        usage.scanned.sitePages = pages.data!.length;
+      } else {
+        usage.scanned.landingPages = pages.data!.length;
+      }
+    }
+
+    return { success: true, data: usage, rateLimitStatus: this.rateLimiter.getStatus() };
+  }
+
+  /**
+   * Clone a template, or a module's whole folder, in the draft environment
+   * Inputs: source_path, clone_path
+   * Output: The new file(s) plus the pages that still use the original
+   * Implementation: GET draft source → refuse if clone_path exists → validate → PUT /cms/v3/source-code/draft/content/{clone_path}
+   *                 A path in a ".module" folder copies every file of the folder, since a module is only usable whole
+   * Safety: The original is never written. Pages keep using it until they are switched to the clone.
+   */
+  async cloneSourceCode(
+    sourcePath: string,
+    clonePath: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<SourceCodeWriteResult>> {
+    const opId = logger.getNextOperationId();
+    const from = this.normalizeSourcePath(sourcePath);
+    const to = this.normalizeSourcePath(clonePath);
+    logger.info('Cloning source code', { opId, from, to });
+
+    if (from === to) {
+      return {
+        success: false,
+        error: {
+          status: 'INVALID_CLONE_PATH',
+          message: 'clonePath must differ from sourcePath - the original is never edited in place',
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const moduleFolder = this.moduleFolderOf(from);
+    if (moduleFolder) {
+      return this.cloneModuleFolder(opId, moduleFolder, to, writeOptions);
+    }
+
+    const sourceResponse = await this.getSourceCode(from, 'draft');
+    if (!sourceResponse.success || !sourceResponse.data) {
+      return { success: false, error: sourceResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const existing = await this.refuseExistingClone(opId, to);
+    if (existing) return existing;
+
+    return this.writeDraftSourceCode(
+      opId, 'clone_source_code', to, [{ path: to, source: sourceResponse.data.source }], writeOptions, from
+    );
+  }
+
+  /**
+   * Helper: Copy every file of a ".module" folder to a new ".module" folder
+   */
+  private async cloneModuleFolder(
+    opId: number,
+    from: string,
+    clonePath: string,
+    writeOptions: WriteOptions
+  ): Promise<HubSpotResponse<SourceCodeWriteResult>> {
+    const to = this.moduleFolderOf(clonePath);
+    if (!to || to === from) {
+      return {
+        success: false,
+        error: {
+          status: 'INVALID_CLONE_PATH',
+          message: `"${from}" is a module, and cloning it copies the whole folder. clonePath must be a new .module folder, e.g. "${from.replace(/[^/]*\.module$/, 'my-copy.module')}".`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const folderResponse = await this.getSourceCodeMetadata(from, 'draft');
+    if (!folderResponse.success || !folderResponse.data) {
+      return { success: false, error: folderResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    const files: Array<{ path: string; source: string }> = [];
+    for (const child of folderResponse.data.children || []) {
+      const name = child.split('/').pop()!;
+      const fileResponse = await this.getSourceCode(`${from}/${name}`, 'draft');
+      if (!fileResponse.success || !fileResponse.data) {
+        return { success: false, error: fileResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      files.push({ path: `${to}/${name}`, source: fileResponse.data.source });
+    }
+
+    if (files.length === 0) {
+      return {
+        success: false,
+        error: {
+          status: 'MODULE_EMPTY',
+          message: `The module folder "${from}" has no files to copy.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const existing = await this.refuseExistingClone(opId, to);
+    if (existing) return existing;
+
+    return this.writeDraftSourceCode(opId, 'clone_source_code', to, files, writeOptions, from);
+  }
+
+  /**
+   * Helper: CLONE_EXISTS error when the clone target is already in the draft environment
+   */
+  private async refuseExistingClone(opId: number, path: string): Promise<HubSpotResponse<SourceCodeWriteResult> | undefined> {
+    const existing = await this.getSourceCodeMetadata(path, 'draft');
+    if (!existing.success) return undefined;
+
+    return {
+      success: false,
+      error: {
+        status: 'CLONE_EXISTS',
+        message: `"${path}" already exists. Pick a new clonePath, or edit the existing clone with hubspot_update_source_code.`,
+        correlationId: String(opId)
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Replace the source of a cloned file in the draft environment
+   * Inputs: path, source
+   * Implementation: Look up the clone record → validate → PUT /cms/v3/source-code/draft/content/{path}
+   * Safety: Only templates and module folders created by cloneSourceCode can be edited. Anything else may be
+   *         shared by pages, blog templates, partials or other modules, so NOT_A_CLONE points to cloneSourceCode.
+   */
+  async updateSourceCode(
+    path: string,
+    source: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<SourceCodeWriteResult>> {
+    const opId = logger.getNextOperationId();
+    const normalizedPath = this.normalizeSourcePath(path);
+    logger.info('Updating source code', { opId, path: normalizedPath, size: source.length });
+
+    // A module's files belong to the clone of its folder
+    const clone = await this.journal.getSourceClone(this.moduleFolderOf(normalizedPath) || normalizedPath);
+    if (!clone) {
+      return {
+        success: false,
+        error: {
+          status: 'NOT_A_CLONE',
+          message: `"${normalizedPath}" was not created by hubspot_clone_source_code, and only clones can be edited - the original may be used by pages, blog templates, partials or other modules. Clone it and edit the clone instead.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    return this.writeDraftSourceCode(
+      opId, 'update_source_code', normalizedPath, [{ path: normalizedPath, source }], writeOptions
+    );
+  }
+
+  /**
+   * Helper: Validate every file, then PUT them to the draft environment under path (a file or a module folder)
+   */
+  private async writeDraftSourceCode(
+    opId: number,
+    operation: string,
+    path: string,
+    files: Array<{ path: string; source: string }>,
+    writeOptions: WriteOptions,
+    clonedFrom?: string
+  ): Promise<HubSpotResponse<SourceCodeWriteResult>> {
+    let validation: SourceCodeValidation = { path, valid: true, errors: [] };
+    for (const file of files) {
+      const validationResponse = await this.validateSourceCode(file.path, file.source);
+      if (!validationResponse.success || !validationResponse.data) {
+        return { success: false, error: validationResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+
+      if (files.length === 1) validation = validationResponse.data;
+      if (!validationResponse.data.valid) {
+        return {
+          success: false,
+          error: {
+            status: 'VALIDATION_FAILED',
+            message: `HubSpot rejected the source of "${file.path}": ${validationResponse.data.errors.map(error => error.message).join('; ')}`,
+            correlationId: String(opId),
+            errors: validationResponse.data.errors
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+    }
+
+    let originalUsage: TemplateUsage | undefined;
+    if (clonedFrom) {
+      const usageResponse = await this.findTemplateUsage(clonedFrom);
+      if (!usageResponse.success) {
+        return { success: false, error: usageResponse.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      originalUsage = usageResponse.data;
+    }
+
+    // Clones have no previous version; updates log what they replace
+    const previous = clonedFrom ? undefined : await this.getSourceCode(path, 'draft');
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<SourceCodeWriteResult>(opId, {
+        method: 'PUT',
+        endpoint: this.sourceCodePath('content', 'draft', files.length === 1 ? files[0].path : path),
+        payload: files.map(file => ({ path: file.path, size: file.source.length })),
+        changes: files.map(file => clonedFrom
+          ? `+ ${file.path} (copy of ${clonedFrom}, ${file.source.length} chars)`
+          : `~ ${file.path}: ${previous?.data?.source.length ?? 0} → ${file.source.length} chars`
+        )
+      });
+    }
+
+    // Record the clone before writing it: a clone that isn't recorded could never be edited
+    if (clonedFrom) {
+      const recorded = await this.journal.recordSourceClone({ path, clonedFrom, clonedAt: new Date().toISOString(), operationId: opId });
+      if (!recorded) {
+        return {
+          success: false,
+          error: {
+            status: 'JOURNAL_WRITE_FAILED',
+            message: `Could not record "${path}" as a clone, so it could not be edited later. Nothing was written. Check that HUBSPOT_JOURNAL_DIR is writable.`,
+            correlationId: String(opId)
+          },
+          rateLimitStatus: this.rateLimiter.getStatus()
+        };
+      }
+    }
+
+    let metadata: SourceCodeMetadata | undefined;
+    const written: string[] = [];
+    for (const file of files) {
+      const response = await this.request<SourceCodeMetadata>(
+        this.sourceCodePath('content', 'draft', file.path),
+        {
+          method: 'PUT',
+          body: this.sourceCodeForm(file.path, file.source)
+        }
+      );
+      if (!response.success) {
+        const error = written.length > 0
+          ? { ...response.error!, message: `${response.error?.message} (already written: ${written.join(', ')} - delete "${path}" in the design manager before retrying)` }
+          : response.error;
+        return { success: false, error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+      metadata = response.data;
+      written.push(file.path);
+    }
+
+    logger.logOperation(
+      operation,
+      { opId, path, files: written, clonedFrom },
+      previous?.data ? { source: previous.data.source } : undefined,
+      files.length === 1 ? { source: files[0].source } : { files }
+    );
+
+    return {
+      success: true,
+      data: {
+        path,
+        environment: 'draft',
+        metadata: files.length === 1 ? metadata : undefined,
+        files: files.length === 1 ? undefined : written,
+        validation,
+        clonedFrom,
+        originalUsage
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Helper: Multipart body carrying one design manager file
+   */
+  private sourceCodeForm(path: string, source: string): FormData {
+    const formData = new FormData();
+    formData.append('file', new Blob([source], { type: 'text/plain' }), path.split('/').pop() || path);
+    return formData;
+  }
+
+  // ========================================
+  // Content retirement
+  // ========================================
+
+  /**
+   * Archive or unarchive a blog post or page in the HubSpot dashboard
+   * Inputs: content_type, content_id, archived
+   * Output: Updated content object
+   * Implementation: GET → PATCH archivedInDashboard on the object itself
+   * Safety: Archived content stays live at its URL, so no link check is needed; reversible with archived=false
+   */
+  async archiveContent(
+    contentType: ContentType,
+    contentId: string,
+    archived: boolean = true,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<BlogPost | Page>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Setting archived flag', { opId, contentType, contentId, archived });
+
+    const basePath = this.getContentBasePath(contentType, contentId);
+
+    const currentResponse = await this.request<BlogPost | Page>(basePath, { method: 'GET' });
+    if (!currentResponse.success || !currentResponse.data) {
+      return {
+        success: false,
+        error: currentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforeState = currentResponse.data;
+    const requestBody = { archivedInDashboard: archived };
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse(opId, {
+        method: 'PATCH',
+        endpoint: basePath,
+        payload: requestBody,
+        beforeState,
+        afterState: { ...beforeState, ...requestBody }
+      });
+    }
+
+    const response = await this.request<BlogPost | Page>(
+      basePath,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(requestBody)
+      }
+    );
+
+    if (response.success) {
+      logger.logOperation(
+        archived ? 'archive_content' : 'unarchive_content',
+        { opId, contentType, contentId },
+        beforeState,
+        response.data
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Find posts and pages that link to a blog post or page
+   * Inputs: content_type, content_id
+   * Output: Every postBody / widget body.html link that resolves to the target's URL or slug
+   * Implementation: GET target → page through listBlogPosts and listPages (both page types) → match href/src values and bare URLs
+   * Purpose: Stop deletes that would leave broken links behind
+   */
+  async findInboundLinks(
+    contentType: ContentType,
+    contentId: string
+  ): Promise<HubSpotResponse<InboundLinkReport>> {
+    logger.info('Scanning for inbound links', { contentType, contentId });
+
+    const targetResponse = await this.request<BlogPost | Page>(
+      this.getContentBasePath(contentType, contentId),
+      { method: 'GET' }
+    );
+    if (!targetResponse.success || !targetResponse.data) {
+      return {
+        success: false,
+        error: targetResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const target = targetResponse.data;
+    const matcher = this.buildLinkMatcher(target);
+    const references: InboundReference[] = [];
+
+    const blogPosts = await this.listAllForScan(offset => this.listBlogPosts({ limit: 100, offset }));
+    if (!blogPosts.success) {
+      return { success: false, error: blogPosts.error, rateLimitStatus: this.rateLimiter.getStatus() };
+    }
+
+    for (const post of blogPosts.data!) {
+      if (contentType === 'blog-post' && post.id === target.id) continue;
+      for (const matchedUrl of matcher(post.postBody)) {
+        references.push({
+          contentType: 'blog-post',
+          contentId: post.id,
+          name: post.name,
+          url: post.url,
+          field: 'postBody',
+          matchedUrl
+        });
+      }
+    }
+
+    const scanned = { blogPosts: blogPosts.data!.length, sitePages: 0, landingPages: 0 };
+
+    for (const pageType of ['site-pages', 'landing-pages'] as const) {
+      const pageContentType = this.pageTypeToContentType(pageType);
+      const pages = await this.listAllForScan(offset => this.listPages({ pageType, limit: 100, offset }));
+      if (!pages.success) {
+        return { success: false, error: pages.error, rateLimitStatus: this.rateLimiter.getStatus() };
+      }
+
+      for (const page of pages.data!) {
+        if (contentType === pageContentType && page.id === target.id) continue;
+
+        // Drag-and-drop widgets
+        for (const widgetInfo of this.extractWidgetsFromPage(page).widgets) {
+          const widget = this.getWidgetAtLocation(page, widgetInfo.location);
+          for (const matchedUrl of matcher(widget?.body?.html)) {
+            references.push({
+              contentType: pageContentType,
+              contentId: page.id,
+              name: page.name,
+              url: page.url,
+              field: 'widget',
+              location: widgetInfo.location,
+              widgetName: widgetInfo.name,
+              matchedUrl
+            });
+          }
+        }
+
+        // Template-defined widgets outside drag-and-drop areas
+        if (page.widgets && typeof page.widgets === 'object') {
+          for (const [widgetName, widget] of Object.entries(page.widgets as Record<string, any>)) {
+            for (const matchedUrl of matcher(widget?.body?.html)) {
+              references.push({
+                contentType: pageContentType,
+                contentId: page.id,
+                name: page.name,
+                url: page.url,
+                field: 'widget',
+                widgetName,
+                matchedUrl
+              });
+            }
+          }
+        }
+      }
+
+      if (pageType === 'site-pages') {
+        scanned.sitePages = pages.data!.length;
+      } else {
+        scanned.landingPages = pages.data!.length;
+      }
+    }
+
+    logger.info('Inbound link scan complete', { contentType, contentId, references: references.length, scanned });
+
+    return {
+      success: true,
+      data: {
+        target: {
+          id: target.id,
+          name: target.name,
+          slug: target.slug,
+          url: target.url
+        },
+        references,
+        scanned
+      },
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Delete a blog post or page after checking for inbound links
+   * Inputs: content_type, content_id, confirmation_token (optional)
+   * Output: The deleted object and the inbound link report
+   * Implementation: findInboundLinks → token check → GET object + draft → journal export → DELETE
+   * Safety: Refuses with INBOUND_LINKS_FOUND and a confirmation token when anything links to the target;
+   *         refuses if the export can't be journaled, because HubSpot can't restore deleted content via the API
+   */
+  async deleteContent(
+    contentType: ContentType,
+    contentId: string,
+    confirmationToken?: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<DeleteContentResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting delete', { opId, contentType, contentId });
+
+    const basePath = this.getContentBasePath(contentType, contentId);
+
+    // STEP 1: Scan for inbound links (also confirms the target exists)
+    const scanResponse = await this.findInboundLinks(contentType, contentId);
+    if (!scanResponse.success || !scanResponse.data) {
+      return {
+        success: false,
+        error: scanResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const inboundLinks = scanResponse.data;
+
+    // STEP 2: Require the token when links exist. The token is bound to the current
+    // set of referencing items, so a token from an earlier scan stops working if new links appear.
+    if (inboundLinks.references.length > 0) {
+      const expectedToken = createHash('sha256')
+        .update([contentType, contentId, ...inboundLinks.references.map(ref => `${ref.contentType}:${ref.contentId}`).sort()].join('|'))
+        .digest('hex')
+        .slice(0, 12);
+
+      if (confirmationToken !== expectedToken) {
+        const referrers = new Set(inboundLinks.references.map(ref => `${ref.contentType}:${ref.contentId}`));
+        logger.warn('Delete refused: inbound links found', { opId, references: inboundLinks.references.length });
         return {
           success: false,
           error: {
-            status: 'WIDGET_NOT_FOUND',
-            message: `Widget index ${params.location.widgetIndex} out of bounds (total: ${cell.widgets.length})`,
-            correlationId: String(opId)
+            status: 'INBOUND_LINKS_FOUND',
+            message: `${inboundLinks.references.length} link(s) from ${referrers.size} post(s)/page(s) point to "${inboundLinks.target.name}". Nothing was deleted. Fix or remove the links, or pass confirmationToken "${expectedToken}" to delete anyway.`,
+            correlationId: String(opId),
+            inboundLinks,
+            confirmationToken: expectedToken
           },
           rateLimitStatus: this.rateLimiter.getStatus()
         };
       }
+    }
 
-      // Remove the widget
-      const removedWidget = cell.widgets.splice(params.location.widgetIndex, 1)[0];
-      logger.info('Removed widget from page', { opId, widgetId: removedWidget.id });
+    // STEP 3: Fetch the full object and its draft for the export
+    const objectResponse = await this.request<BlogPost | Page>(basePath, { method: 'GET' });
+    if (!objectResponse.success || !objectResponse.data) {
+      return {
+        success: false,
+        error: objectResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
 
-      // STEP 3: Validate structure
-      const validation = this.validatePageStructure(beforePage, updatedPage);
+    const deleted = objectResponse.data;
+
+    if (this.isDryRun(writeOptions)) {
+      return this.dryRunResponse<DeleteContentResult>(opId, {
+        method: 'DELETE',
+        endpoint: basePath,
+        changes: [
+          `- delete "${deleted.name}"${deleted.url ? ` (${deleted.url})` : ''}`,
+          ...inboundLinks.references.map(ref =>
+            `! ${ref.contentType} ${ref.contentId} "${ref.name}" links here (${ref.field}): ${ref.matchedUrl}`
+          )
+        ]
+      });
+    }
 
-      // For removing widgets, we expect widget count to decrease by 1
-      if (validation.afterWidgetCount !== validation.beforeWidgetCount - 1) {
-        logger.warn('Unexpected widget count after removing widget', {
-          opId,
-          expected: validation.beforeWidgetCount - 1,
-          actual: validation.afterWidgetCount
-        });
+    const draftResponse = await this.getContentDraft(contentType, contentId);
+
+    // STEP 4: Export to the journal before deleting
+    const operationId = await this.journal.record({
+      operation: 'delete_content',
+      contentType,
+      contentId,
+      details: {
+        draft: draftResponse.success ? draftResponse.data : undefined,
+        inboundLinks: inboundLinks.references
+      },
+      beforeState: deleted
+    }, opId);
+
+    if (!operationId) {
+      return {
+        success: false,
+        error: {
+          status: 'JOURNAL_WRITE_FAILED',
+          message: 'Could not export the content to the undo journal. Nothing was deleted. Check that HUBSPOT_JOURNAL_DIR is writable.',
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // STEP 5: Delete
+    const response = await this.request<void>(basePath, { method: 'DELETE' });
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    logger.logOperation(
+      'delete_content',
+      { opId, contentType, contentId, operationId, inboundLinks: inboundLinks.references.length },
+      deleted,
+      undefined
+    );
+
+    return {
+      success: true,
+      data: { deleted, inboundLinks },
+      rateLimitStatus: this.rateLimiter.getStatus(),
+      operationId
+    };
+  }
+
+  /**
+   * Helper: Page through a list endpoint until every result has been collected
+   * Fails as a whole if any page fails, so a scan never reports a partial result as clean
+   */
+  private async listAllForScan<T>(
+    fetchPage: (offset: number) => Promise<HubSpotResponse<PaginatedResponse<T>>>
+  ): Promise<HubSpotResponse<T[]>> {
+    const results: T[] = [];
+
+    while (true) {
+      const response = await fetchPage(results.length);
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error };
+      }
+
+      results.push(...response.data.results);
+
+      if (response.data.results.length === 0 || results.length >= response.data.total) {
+        return { success: true, data: results };
+      }
+    }
+  }
+
+  /**
+   * Helper: Build a function that returns every link in an HTML string pointing at the target
+   * Matches href/src/action values that resolve to the target's host + path (relative links
+   * match on path alone), plus bare occurrences of the target's URL in text
+   */
+  private buildLinkMatcher(target: BlogPost | Page): (html?: string) => string[] {
+    const normalizePath = (pathname: string) => {
+      let decoded = pathname;
+      try {
+        decoded = decodeURIComponent(pathname);
+      } catch {
+        // Keep the raw path
+      }
+      return decoded.replace(/\/+$/, '').toLowerCase() || '/';
+    };
+
+    let targetHost: string | undefined;
+    let targetPath = normalizePath(`/${(target.slug || '').replace(/^\/+/, '')}`);
+    if (target.url) {
+      try {
+        const parsed = new URL(target.url);
+        targetHost = parsed.hostname.toLowerCase();
+        targetPath = normalizePath(parsed.pathname);
+      } catch {
+        // Fall back to the slug
+      }
+    }
+
+    const bareUrl = target.url
+      ? target.url.replace(/^https?:\/\//i, '').replace(/\/+$/, '').toLowerCase()
+      : undefined;
+    const base = targetHost ? `https://${targetHost}` : 'https://relative.invalid';
+
+    return (html?: string) => {
+      if (!html) return [];
+
+      const matches = new Set<string>();
+      const attrPattern = /(?:href|src|action)\s*=\s*["']([^"']+)["']/gi;
+      let match: RegExpExecArray | null;
+
+      while ((match = attrPattern.exec(html)) !== null) {
+        const value = match[1].trim();
+        if (/^(mailto:|tel:|javascript:|#)/i.test(value)) continue;
+
+        let resolved: URL;
+        try {
+          resolved = new URL(value, base);
+        } catch {
+          continue;
+        }
+
+        const isRelative = !/^([a-z][a-z0-9+.-]*:)?\/\//i.test(value);
+        const hostMatches = isRelative || (targetHost !== undefined && resolved.hostname.toLowerCase() === targetHost);
+        if (hostMatches && normalizePath(resolved.pathname) === targetPath) {
+          matches.add(value);
+        }
+      }
+
+      if (bareUrl && matches.size === 0 && html.toLowerCase().includes(bareUrl)) {
+        matches.add(target.url!);
       }
 
+      return [...matches];
+    };
+  }
+
+  // ========================================
+  // Undo journal
+  // ========================================
+
+  /**
+   * List recent journaled operations, newest first
+   * Input: limit, content_id (optional)
+   * Output: Journal entries (including before-state snapshots)
+   * Implementation: Reads the local on-disk journal, no API call
+   */
+  async listRecentOperations(
+    limit: number = 20,
+    contentId?: string
+  ): Promise<HubSpotResponse<JournalEntry[]>> {
+    logger.info('Listing recent operations', { limit, contentId });
+    const entries = await this.journal.list(limit, contentId);
+
+    return {
+      success: true,
+      data: entries,
+      rateLimitStatus: this.rateLimiter.getStatus()
+    };
+  }
+
+  /**
+   * Undo a journaled operation by PATCHing its before-state back to the draft
+   * Input: operation_id
+   * Output: Reverted draft
+   * Implementation: Load journal entry → fetch current draft → merge before-state → validate (pages) → PATCH /draft
+   * Safety: Writes to draft only. The undo is itself journaled so it can be undone.
+   *         A 301 created by an undone slug change is deleted too, so the restored slug isn't redirected away
+   * Purpose: Reliable rollback for pages, which have no HubSpot revisions while unpublished edits pile up
+   */
+  async undoOperation(
+    operationId: string,
+    writeOptions: WriteOptions = {}
+  ): Promise<HubSpotResponse<UndoOperationResult>> {
+    const opId = logger.getNextOperationId();
+    logger.info('Starting undo operation', { opId, operationId });
+
+    const entry = await this.journal.get(operationId);
+    if (!entry) {
+      return {
+        success: false,
+        error: {
+          status: 'OPERATION_NOT_FOUND',
+          message: `No journal entry found for operation "${operationId}". Use hubspot_list_recent_operations to find valid ids.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (entry.undoneAt) {
+      return {
+        success: false,
+        error: {
+          status: 'ALREADY_UNDONE',
+          message: `Operation "${operationId}" was already undone at ${entry.undoneAt} (by ${entry.undoneByOperationId || 'unknown operation'}).`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    if (entry.operation === 'delete_content') {
+      return {
+        success: false,
+        error: {
+          status: 'NOT_UNDOABLE',
+          message: `Operation "${operationId}" deleted ${entry.contentType} ${entry.contentId}, and HubSpot can't restore deleted content through the API. The full export is in this journal entry's beforeState (draft in details.draft) - recreate the content from it or restore it in the HubSpot UI.`,
+          correlationId: String(opId)
+        },
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    // STEP 1: Fetch current draft
+    const currentResponse = await this.getContentDraft(entry.contentType, entry.contentId);
+    if (!currentResponse.success || !currentResponse.data) {
+      return {
+        success: false,
+        error: currentResponse.error,
+        rateLimitStatus: this.rateLimiter.getStatus()
+      };
+    }
+
+    const beforeState = currentResponse.data;
+
+    // STEP 2: Merge saved before-state onto the current draft
+    const revertedContent = {
+      ...beforeState,
+      ...this.stripLifecycleFields(entry.beforeState)
+    } as BlogPost | Page;
+
+    // STEP 3: Validate structure (pages only - blog posts keep content in postBody)
+    let validation: StructuralValidation | undefined;
+    if (entry.contentType !== 'blog-post') {
+      validation = this.validatePageStructure(beforeState as Page, revertedContent as Page);
       if (!validation.isValid) {
+        logger.error('Structure validation failed', { opId, validation });
         return {
           success: false,
           error: {
@@ -1479,50 +7100,84 @@ export class HubSpotClient {
           rateLimitStatus: this.rateLimiter.getStatus()
         };
       }
+    }
 
-      // STEP 4: PATCH to draft endpoint
-      const response = await this.request<Page>(
-        `/cms/v3/pages/${params.pageType}/${params.pageId}/draft`,
-        {
-          method: 'PATCH',
-          body: JSON.stringify(updatedPage)
-        }
-      );
+    const redirectId: string | undefined = entry.details?.redirectId ? String(entry.details.redirectId) : undefined;
 
-      if (!response.success) {
-        return {
-          success: false,
-          error: response.error,
-          rateLimitStatus: this.rateLimiter.getStatus()
-        };
+    if (this.isDryRun(writeOptions)) {
+      const preview = this.dryRunResponse<UndoOperationResult>(opId, {
+        method: 'PATCH',
+        endpoint: `${this.getContentBasePath(entry.contentType, entry.contentId)}/draft`,
+        payload: revertedContent,
+        beforeState,
+        validation
+      });
+      if (redirectId) {
+        preview.dryRun!.changes.push(`- URL redirect ${redirectId} (created by the slug change)`);
       }
+      return preview;
+    }
 
-      logger.logOperation(
-        'remove_widget',
-        { opId, pageId: params.pageId, location: params.location },
-        beforePage,
-        response.data
-      );
+    // STEP 4: PATCH to draft endpoint
+    const response = await this.request<BlogPost | Page>(
+      `${this.getContentBasePath(entry.contentType, entry.contentId)}/draft`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(revertedContent)
+      }
+    );
 
-      return {
-        success: true,
-        data: {
-          page: response.data!,
-          validation
-        },
-        rateLimitStatus: this.rateLimiter.getStatus()
-      };
-    } catch (error) {
-      logger.error('Error removing widget', { opId, error });
+    if (!response.success) {
       return {
         success: false,
-        error: {
-          status: 'REMOVE_WIDGET_FAILED',
-          message: `Failed to remove widget: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          correlationId: String(opId)
-        },
+        error: response.error,
         rateLimitStatus: this.rateLimiter.getStatus()
       };
     }
+
+    // STEP 5: Delete the slug-change redirect, which would otherwise send the restored slug's path to the abandoned one
+    let redirect: UndoOperationResult['redirect'];
+    if (redirectId) {
+      const redirectResponse = await this.deleteUrlRedirect(redirectId);
+      redirect = redirectResponse.success
+        ? { id: redirectId, deleted: true }
+        : { id: redirectId, deleted: false, error: redirectResponse.error };
+      if (!redirectResponse.success) {
+        logger.warn('Failed to delete slug-change redirect', { opId, operationId, redirectId, error: redirectResponse.error });
+      }
+    }
+
+    logger.logOperation(
+      'undo_operation',
+      { opId, operationId, contentType: entry.contentType, contentId: entry.contentId, redirect },
+      beforeState,
+      response.data
+    );
+
+    const undoOperationId = await this.journal.record({
+      operation: 'undo_operation',
+      contentType: entry.contentType,
+      contentId: entry.contentId,
+      details: { undoneOperationId: operationId, undoneOperation: entry.operation, redirect },
+      beforeState
+    }, opId);
+
+    entry.undoneAt = new Date().toISOString();
+    entry.undoneByOperationId = undoOperationId;
+    await this.journal.update(entry).catch(error => {
+      logger.warn('Failed to mark journal entry as undone', { opId, operationId, error });
+    });
+
+    return {
+      success: true,
+      data: {
+        entry,
+        content: response.data!,
+        validation,
+        redirect
+      },
+      rateLimitStatus: this.rateLimiter.getStatus(),
+      operationId: undoOperationId
+    };
   }
 }
@@ -0,0 +1,142 @@
+/**
+ * Image processing for uploads
+ * Resizes, re-encodes and builds responsive variants with sharp, which ships prebuilt libvips
+ * binaries through npm, so it runs offline with nothing to install on the system.
+ * sharp is loaded on first use: a platform without its native binary can still run every other tool.
+ */
+
+import type sharp from 'sharp';
+import { ImageOutputFormat, ImageProcessingOptions } from './types.js';
+import { logger } from './logger.js';
+
+type EncodedFormat = Exclude<ImageOutputFormat, 'original'>;
+
+const OUTPUT_TYPES: Record<EncodedFormat, { mimeType: string; extension: string }> = {
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { mimeType: 'image/png', extension: 'png' }
+};
+
+// Input MIME type → the format 'original' re-encodes to. GIFs are left out so animations aren't flattened
+const INPUT_FORMATS: Record<string, EncodedFormat> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp'
+};
+
+export interface ProcessedImageFile {
+  blob: Blob;
+  width: number;
+  height: number;
+  mimeType: string;
+  extension: string;
+}
+
+export interface ProcessedImage {
+  original: { width: number; height: number; size: number };
+  files: ProcessedImageFile[];  // The main image first, then the smaller variants, largest first
+}
+
+export class ImageProcessor {
+  private sharp?: Promise<typeof sharp>;
+
+  /**
+   * Whether images of this MIME type can be processed
+   */
+  canProcess(mimeType?: string): boolean {
+    return mimeType !== undefined && mimeType in INPUT_FORMATS;
+  }
+
+  /**
+   * Load sharp, once
+   * Output: Why it can't be loaded (e.g. no prebuilt binary for this platform), or undefined when it is ready
+   */
+  async loadError(): Promise<string | undefined> {
+    try {
+      await this.loadSharp();
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Resize and re-encode an image, plus one copy per responsive width
+   * Images are never enlarged: widths at or above the main image's width are dropped.
+   * sharp writes no metadata unless asked, so EXIF, GPS and ICC data are always stripped
+   * (the EXIF orientation is applied first, so photos stay upright)
+   */
+  async process(blob: Blob, mimeType: string, options: ImageProcessingOptions): Promise<ProcessedImage> {
+    const sharp = await this.loadSharp();
+    const input = Buffer.from(await blob.arrayBuffer());
+    const metadata = await sharp(input).metadata();
+
+    // Orientations 5-8 are rotated 90°, so the upright image has width and height swapped
+    const rotated = (metadata.orientation || 1) >= 5;
+    const original = {
+      width: (rotated ? metadata.height : metadata.width) || 0,
+      height: (rotated ? metadata.width : metadata.height) || 0,
+      size: blob.size
+    };
+
+    const format = options.format && options.format !== 'original' ? options.format : INPUT_FORMATS[mimeType];
+    const quality = options.quality ?? 80;
+    const mainWidth = Math.min(options.maxWidth || original.width, original.width);
+    const widths = [
+      mainWidth,
+      ...[...new Set(options.responsiveWidths || [])].filter(width => width < mainWidth).sort((a, b) => b - a)
+    ];
+
+    const files: ProcessedImageFile[] = [];
+    for (const width of widths) {
+      // Resize from the original each time rather than chaining, to avoid compounding blur
+      files.push(await this.encode(sharp(input).rotate().resize({ width, withoutEnlargement: true }), format, quality));
+    }
+
+    logger.debug('Image processed', {
+      original,
+      files: files.map(file => ({ width: file.width, height: file.height, size: file.blob.size, mimeType: file.mimeType }))
+    });
+
+    return { original, files };
+  }
+
+  /**
+   * Helper: Import sharp, keeping a failed import so it isn't retried on every upload
+   */
+  private loadSharp(): Promise<typeof sharp> {
+    if (!this.sharp) {
+      this.sharp = import('sharp').then(module => module.default);
+      this.sharp.catch(error => logger.warn('sharp could not be loaded; image processing is unavailable', { error }));
+    }
+    return this.sharp;
+  }
+
+  /**
+   * Helper: Encode a resize pipeline to the output format
+   */
+  private async encode(pipeline: sharp.Sharp, format: EncodedFormat, quality: number): Promise<ProcessedImageFile> {
+    switch (format) {
+      case 'jpeg':
+        // JPEG has no alpha channel - put transparent areas on white instead of black
+        pipeline.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true });
+        break;
+      case 'webp':
+        pipeline.webp({ quality });
+        break;
+      case 'png':
+        pipeline.png({ compressionLevel: 9 });
+        break;
+    }
+
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    const { mimeType, extension } = OUTPUT_TYPES[format];
+    return {
+      blob: new Blob([data], { type: mimeType }),
+      width: info.width,
+      height: info.height,
+      mimeType,
+      extension
+    };
+  }
+}
@@ -6,6 +6,8 @@
  */
 
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -20,7 +22,7 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { HubSpotClient } from './hubspot-client.js';
-import { HubSpotConfig, BlogPostListParams, BlogPostUpdateMetadata, PublishOptions } from './types.js';
+import { HubSpotConfig, HubSpotResponse, BlogPostListParams, BlogPostUpdateMetadata, PublishOptions, ContentType, BlogAuthor, BlogAuthorCreateParams, BlogAuthorUpdateParams, UrlRedirectCreateParams, UrlRedirectUpdateParams, SlugRedirectResult, HubDbRowFilter, HubDbRowWrite, SourceCodeEnvironment, FileSearchParams, FileDuplicateStrategy, ImageProcessingOptions } from './types.js';
 import { logger } from './logger.js';
 
 // Validate environment configuration
@@ -30,11 +32,31 @@ if (!accessToken) {
   process.exit(1);
 }
 
+/**
+ * Read a positive integer setting, falling back to the default when it is unset or invalid
+ */
+function positiveIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    logger.warn('Environment variable must be a positive integer, using the default', { name, value: raw, default: fallback });
+    return fallback;
+  }
+  return value;
+}
+
 // Initialize configuration
 const config: HubSpotConfig = {
   accessToken,
   rateLimitSafetyMargin: parseFloat(process.env.HUBSPOT_RATE_LIMIT_SAFETY_MARGIN || '0.1'),
-  logLevel: (process.env.HUBSPOT_LOG_LEVEL as any) || 'info'
+  logLevel: (process.env.HUBSPOT_LOG_LEVEL as any) || 'info',
+  journalDir: process.env.HUBSPOT_JOURNAL_DIR || path.join(os.homedir(), '.hubspot-cms-mcp', 'journal'),
+  journalMaxEntries: positiveIntEnv('HUBSPOT_JOURNAL_MAX_ENTRIES', 500),
+  dryRun: process.env.HUBSPOT_DRY_RUN === 'true',
+  uploadAllowedDirs: (process.env.HUBSPOT_UPLOAD_ALLOWED_DIRS || '').split(path.delimiter).filter(dir => dir.trim() !== ''),
+  maxUploadBytes: positiveIntEnv('HUBSPOT_MAX_UPLOAD_BYTES', 50 * 1024 * 1024)
 };
 
 // Initialize HubSpot client
@@ -53,6 +75,52 @@ const server = new Server(
   }
 );
 
+/**
+ * Describe the outcome of a slug-change redirect for a tool message
+ */
+function redirectNote(redirect?: SlugRedirectResult): string {
+  if (!redirect) return '';
+  if (redirect.error) return ` ⚠️ Slug changed but the redirect ${redirect.from} → ${redirect.to} could not be created: ${redirect.error.message}`;
+  if (redirect.skipped) return ` No redirect created: ${redirect.skipped}.`;
+  return ` 301 redirect ${redirect.from} → ${redirect.to} created (applies once the old URL stops serving).`;
+}
+
+/**
+ * Format a write that was skipped by dry-run mode as a tool response
+ */
+function dryRunToolResponse(result: HubSpotResponse<unknown>) {
+  const preview = result.dryRun!;
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          success: true,
+          dryRun: true,
+          request: {
+            method: preview.method,
+            endpoint: preview.endpoint,
+            payload: preview.payload
+          },
+          changes: preview.changes,
+          diff: preview.diff,
+          ...(preview.validation && {
+            validation: {
+              isValid: preview.validation.isValid,
+              widgetCountBefore: preview.validation.beforeWidgetCount,
+              widgetCountAfter: preview.validation.afterWidgetCount,
+              warnings: preview.validation.warnings,
+              errors: preview.validation.errors
+            }
+          }),
+          rateLimitStatus: result.rateLimitStatus,
+          message: `DRY RUN - nothing was written. Would send ${preview.method} ${preview.endpoint} with ${preview.changes.length} change(s). Re-run without dryRun to apply.`
+        }, null, 2)
+      }
+    ]
+  };
+}
+
 /**
  * List available tools
  */
@@ -68,9 +136,17 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: []
         }
       },
+      {
+        name: 'hubspot_list_blogs',
+        description: 'List the blogs (content groups) in the portal with their ID, name, root URL and language. Use the blog ID as contentGroupId when listing or creating blog posts - on portals with more than one blog, hubspot_create_blog_post requires it.',
+        inputSchema: {
+          type: 'object',
+          properties: {}
+        }
+      },
       {
         name: 'hubspot_list_blog_posts',
-        description: 'Discover and list blog posts with flexible filtering options. Supports filtering by state (DRAFT/PUBLISHED/SCHEDULED), author name, post name/title, creation date, update date, and archived status. Returns paginated results with metadata. Maximum 100 results per page.',
+        description: 'Discover and list blog posts with flexible filtering options. Supports filtering by blog (contentGroupId), state (DRAFT/PUBLISHED/SCHEDULED), author name, post name/title, creation date, update date, and archived status. Returns paginated results with metadata. Maximum 100 results per page.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -84,6 +160,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: 'Number of results to skip for pagination',
               default: 0
             },
+            contentGroupId: {
+              type: 'string',
+              description: 'Filter by blog ID (from hubspot_list_blogs)'
+            },
             state: {
               type: 'string',
               enum: ['DRAFT', 'PUBLISHED', 'SCHEDULED'],
@@ -172,6 +252,27 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'array',
               items: { type: 'number' },
               description: 'Array of tag IDs to associate with the post'
+            },
+            tagNames: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Tag names (case-insensitive), resolved to tag IDs and combined with tagIds. Prefer this over guessing IDs.'
+            },
+            createMissingTags: {
+              type: 'boolean',
+              description: 'Optional: Create tags named in tagNames that don\'t exist yet (default false: unknown names fail with TAG_NOT_FOUND)'
+            },
+            createRedirect: {
+              type: 'boolean',
+              description: 'Optional: When changing the slug of published content, also create a 301 redirect from the old URL to the new one. The redirect only kicks in once the old URL stops serving (i.e. after you publish the new slug).'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
           required: ['postId']
@@ -190,6 +291,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             publishDate: {
               type: 'string',
               description: 'Optional: ISO 8601 date/time for scheduled publishing. If omitted, publishes immediately.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
           required: ['postId']
@@ -212,12 +317,16 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             contentGroupId: {
               type: 'string',
-              description: 'Optional: Blog ID to publish to. If not provided, uses the default blog.'
+              description: 'Blog ID (from hubspot_list_blogs) to create the post in. Required when the portal has more than one blog; optional on single-blog portals.'
             },
             blogAuthorId: {
               type: 'string',
               description: 'Optional: ID of the blog author'
             },
+            author: {
+              type: 'string',
+              description: 'Optional: Author full name or email, resolved to blogAuthorId. Fails if no author or more than one author matches. Use instead of blogAuthorId, not together with it.'
+            },
             htmlTitle: {
               type: 'string',
               description: 'Optional: HTML title tag content (SEO title)'
@@ -239,6 +348,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               items: { type: 'number' },
               description: 'Optional: Array of tag IDs to associate with the post'
             },
+            tagNames: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Tag names (case-insensitive), resolved to tag IDs and combined with tagIds. Prefer this over guessing IDs.'
+            },
+            createMissingTags: {
+              type: 'boolean',
+              description: 'Optional: Create tags named in tagNames that don\'t exist yet (default false: unknown names fail with TAG_NOT_FOUND)'
+            },
             featuredImage: {
               type: 'string',
               description: 'Optional: URL of the featured image (use hubspot_upload_file first)'
@@ -246,6 +364,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             featuredImageAltText: {
               type: 'string',
               description: 'Optional: Alt text for the featured image'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
           required: ['name', 'slug']
@@ -268,6 +390,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             postSummary: {
               type: 'string',
               description: 'Optional: Brief summary for blog listing pages'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
           required: ['postId', 'postBody']
@@ -275,17 +405,21 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'hubspot_upload_file',
-        description: 'Upload a file (image, PDF, document) to HubSpot File Manager. Supports uploading from URL or base64 encoded content. Returns the CDN URL which can be used in blog posts as featured images or embedded content. Files are uploaded with PUBLIC_INDEXABLE access by default for SEO.',
+        description: 'Upload a file (image, PDF, document) to HubSpot File Manager. Supports uploading from a URL, base64 encoded content, or a local file path inside the server\'s allowed upload directories (best for large files - nothing has to be base64 encoded). Returns the CDN URL which can be used in blog posts as featured images or embedded content. Files are uploaded with PUBLIC_INDEXABLE access by default for SEO. Use hubspot_search_files first to reuse a file that is already uploaded. Set imageProcessing to shrink large images, convert them to WebP or JPEG, and get responsive sizes with srcset.',
         inputSchema: {
           type: 'object',
           properties: {
             fileContent: {
               type: 'string',
-              description: 'File content as base64 encoded string (data:image/png;base64,...) or URL (http://...)'
+              description: 'File content as base64 encoded string (data:image/png;base64,...) or URL (http://...). Provide this or filePath.'
+            },
+            filePath: {
+              type: 'string',
+              description: 'Absolute path of a local file to upload. Must be inside a directory listed in HUBSPOT_UPLOAD_ALLOWED_DIRS. Provide this or fileContent.'
             },
             fileName: {
               type: 'string',
-              description: 'Name of the file including extension (e.g., "featured-image.jpg")'
+              description: 'Name of the file including extension (e.g., "featured-image.jpg"). Required with fileContent; defaults to the file\'s own name with filePath.'
             },
             folderPath: {
               type: 'string',
@@ -299,440 +433,5050 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             ttl: {
               type: 'string',
               description: 'Optional: Time to live (e.g., "P3M" for 3 months). Defaults to never expire.'
+            },
+            duplicateStrategy: {
+              type: 'string',
+              enum: ['reuse', 'reject', 'force_new'],
+              description: 'Optional: What to do if the target folder already has this file (same content hash, or same name and size). reuse (default) returns the existing file\'s URL without uploading, reject fails with DUPLICATE_FILE, force_new uploads another copy.'
+            },
+            imageProcessing: {
+              type: 'object',
+              description: 'Optional: Process a PNG, JPEG or WebP image before uploading. Metadata (EXIF, GPS) is always stripped. Each size is uploaded as its own file, and the response lists every variant URL with its dimensions plus a ready-made srcset.',
+              properties: {
+                maxWidth: { type: 'number', description: 'Downscale to at most this width in pixels (never enlarges)' },
+                format: {
+                  type: 'string',
+                  enum: ['webp', 'jpeg', 'png', 'original'],
+                  description: 'Output format (default original). JPEG puts transparent areas on white.'
+                },
+                quality: { type: 'number', description: 'WebP/JPEG quality from 1 to 100 (default 80)' },
+                responsiveWidths: {
+                  type: 'array',
+                  items: { type: 'number' },
+                  description: 'Extra smaller widths for srcset, e.g. [480, 960]. Saved as name-480w.webp etc.'
+                }
+              }
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
-          required: ['fileContent', 'fileName']
+          required: []
         }
       },
       {
-        name: 'hubspot_list_blog_tags',
-        description: 'Retrieve all blog tags with optional search filtering. Returns tag IDs, names, and slugs for use in content categorization. Use this to discover existing tags before creating blog posts to ensure consistent taxonomy.',
+        name: 'hubspot_search_files',
+        description: 'Search File Manager for files that are already uploaded, by name, folder, type, extension and created/updated date. Returns each file\'s URL, size, dimensions and access level. Check here before uploading an image - it may already exist.',
         inputSchema: {
           type: 'object',
           properties: {
-            searchTerm: {
+            name: {
               type: 'string',
-              description: 'Optional: Search term to filter tags by name (partial match supported)'
+              description: 'Optional: Text to match in the file name'
+            },
+            folderId: {
+              type: 'string',
+              description: 'Optional: Only files directly in this folder'
+            },
+            folderPath: {
+              type: 'string',
+              description: 'Optional: Only files directly in the folder at this path, e.g. "/images/blog"'
+            },
+            type: {
+              type: 'string',
+              enum: ['IMG', 'MOVIE', 'AUDIO', 'DOCUMENT', 'TEXT', 'OTHER'],
+              description: 'Optional: File type'
+            },
+            extension: {
+              type: 'string',
+              description: 'Optional: File extension, e.g. "png"'
+            },
+            createdAfter: {
+              type: 'string',
+              description: 'Optional: Only files created at or after this ISO 8601 time'
+            },
+            createdBefore: {
+              type: 'string',
+              description: 'Optional: Only files created at or before this ISO 8601 time'
+            },
+            updatedAfter: {
+              type: 'string',
+              description: 'Optional: Only files updated at or after this ISO 8601 time'
+            },
+            updatedBefore: {
+              type: 'string',
+              description: 'Optional: Only files updated at or before this ISO 8601 time'
+            },
+            sort: {
+              type: 'string',
+              description: 'Optional: Sort field, prefix with "-" for descending (e.g. "-updatedAt")'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of files to return (default 50, max 100)'
+            },
+            after: {
+              type: 'string',
+              description: 'Optional: Paging cursor from a previous response\'s nextAfter'
             }
-          }
+          },
+          required: []
         }
       },
       {
-        name: 'hubspot_get_draft_preview_url',
-        description: 'Generate a preview URL for draft content to enable human review before publication. Returns a URL with preview token that displays the draft version. Essential for the review workflow: create/update content, generate preview, human approves, then publish.',
+        name: 'hubspot_get_file',
+        description: 'Get File Manager details for one file: URL, size, type, extension, width and height (images and videos), access level, folder, and created/updated dates.',
         inputSchema: {
           type: 'object',
           properties: {
-            contentId: {
-              type: 'string',
-              description: 'The ID of the blog post or page'
-            },
-            contentType: {
+            fileId: {
               type: 'string',
-              enum: ['blog-post', 'site-page', 'landing-page'],
-              description: 'Type of content (currently only blog-post is fully supported)'
+              description: 'The ID of the file'
             }
           },
-          required: ['contentId', 'contentType']
+          required: ['fileId']
         }
       },
-      // Phase 3: Page management and advanced features
       {
-        name: 'hubspot_list_pages',
-        description: 'Discover and list site pages or landing pages with flexible filtering options. Supports filtering by state (DRAFT/PUBLISHED/SCHEDULED), template path, domain, page name, creation date, update date, and archived status. Returns paginated results with metadata. Maximum 100 results per page.',
+        name: 'hubspot_list_folders',
+        description: 'List File Manager folders inside a parent folder (the root by default). Returns folder IDs, names and paths for use with hubspot_search_files, hubspot_upload_file and the folder tools.',
         inputSchema: {
           type: 'object',
           properties: {
-            pageType: {
+            parentFolderId: {
               type: 'string',
-              enum: ['site-pages', 'landing-pages'],
-              description: 'Type of pages to list (site-pages or landing-pages)'
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of results to return (max 100)',
-              default: 20
-            },
-            offset: {
-              type: 'number',
-              description: 'Number of results to skip for pagination',
-              default: 0
+              description: 'Optional: ID of the parent folder'
             },
-            state: {
+            parentPath: {
               type: 'string',
-              enum: ['DRAFT', 'PUBLISHED', 'SCHEDULED'],
-              description: 'Filter by publication state'
+              description: 'Optional: Path of the parent folder, e.g. "/images"'
             },
-            templatePath: {
+            name: {
               type: 'string',
-              description: 'Filter by template path (e.g., "templates/my-template.html")'
+              description: 'Optional: Text to match in the folder name'
             },
-            domain: {
-              type: 'string',
-              description: 'Filter by domain'
+            limit: {
+              type: 'number',
+              description: 'Maximum number of folders to return (default 100, max 100)'
             },
+            after: {
+              type: 'string',
+              description: 'Optional: Paging cursor from a previous response\'s nextAfter'
+            }
+          },
+          required: []
+        }
+      },
+      {
+        name: 'hubspot_create_folder',
+        description: 'Create a File Manager folder, in the root or inside a parent folder given by ID or path.',
+        inputSchema: {
+          type: 'object',
+          properties: {
             name: {
               type: 'string',
-              description: 'Filter by page name/title (partial match supported)'
+              description: 'Name of the new folder'
             },
-            created: {
+            parentFolderId: {
               type: 'string',
-              description: 'Filter pages created after this date (ISO 8601 format)'
+              description: 'Optional: ID of the parent folder'
             },
-            updated: {
+            parentPath: {
               type: 'string',
-              description: 'Filter pages updated after this date (ISO 8601 format)'
+              description: 'Optional: Path of the parent folder, e.g. "/images" (used when parentFolderId is not given)'
             },
-            archivedInDashboard: {
+            dryRun: {
               type: 'boolean',
-              description: 'Filter by archived status'
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
-          required: ['pageType']
+          required: ['name']
         }
       },
       {
-        name: 'hubspot_get_page',
-        description: 'Fetch complete details for a specific page. Returns full object including metadata, nested content structures (widgets, layoutSections), and page settings. ⚠️ WARNING: The returned object includes complex nested structures. MUST be called before any update operations to implement the mandatory fetch-first pattern. Handle layoutSections with extreme care - they cannot be partially updated.',
+        name: 'hubspot_update_folder',
+        description: '⚠️ Rename and/or move a File Manager folder. File URLs include the folder path, so every file in the folder gets a new URL - content linking to the old URLs should be checked.',
         inputSchema: {
           type: 'object',
           properties: {
-            pageId: {
+            folderId: {
               type: 'string',
-              description: 'The ID of the page to retrieve'
+              description: 'The ID of the folder'
             },
-            pageType: {
+            name: {
               type: 'string',
-              enum: ['site-pages', 'landing-pages'],
-              description: 'Type of page (site-pages or landing-pages)'
+              description: 'Optional: New folder name'
+            },
+            parentFolderId: {
+              type: 'string',
+              description: 'Optional: ID of the folder to move it into'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
-          required: ['pageId', 'pageType']
+          required: ['folderId']
         }
       },
       {
-        name: 'hubspot_update_page_metadata',
-        description: 'Safely update page metadata WITHOUT touching page content structures. This tool implements the mandatory fetch-first pattern: it fetches the current page state, merges your metadata changes, and PATCHes to the /draft endpoint. CRITICAL SAFETY: NEVER modifies layoutSections, widgets, or widgetContainers to prevent catastrophic data loss. Only updates: name, slug, htmlTitle, metaDescription. All changes go to draft state and require explicit publishing. Perfect for SEO optimization without risking page layouts.',
+        name: 'hubspot_replace_file',
+        description: '⚠️ Replace the content of an existing File Manager file. The file keeps its ID and URL, so every post and page that uses it shows the new version - run hubspot_find_file_usages first to see where that is. Images can only be replaced with images. The CDN may serve the old version for a while after replacing.',
         inputSchema: {
           type: 'object',
           properties: {
-            pageId: {
-              type: 'string',
-              description: 'The ID of the page to update'
-            },
-            pageType: {
+            fileId: {
               type: 'string',
-              enum: ['site-pages', 'landing-pages'],
-              description: 'Type of page (site-pages or landing-pages)'
+              description: 'The ID of the file to replace'
             },
-            name: {
+            fileContent: {
               type: 'string',
-              description: 'Page name/title'
+              description: 'Optional: New content as base64 or a URL to fetch it from (required unless filePath is given)'
             },
-            slug: {
+            filePath: {
               type: 'string',
-              description: 'URL slug for the page'
+              description: 'Optional: Path to a local file inside HUBSPOT_UPLOAD_ALLOWED_DIRS'
             },
-            htmlTitle: {
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['fileId']
+        }
+      },
+      {
+        name: 'hubspot_find_file_usages',
+        description: 'Find the blog posts and pages that use a File Manager file: blog featured images and post bodies, and page module HTML and fields. Matches the file on any of its hosts (CDN, default hosting domain, custom domains). Templates, modules and global content that hard-code the URL are not scanned.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fileId: {
               type: 'string',
-              description: 'HTML title tag content (SEO title)'
+              description: 'Optional: The ID of the file (preferred)'
             },
-            metaDescription: {
+            fileUrl: {
               type: 'string',
-              description: 'Meta description for SEO (recommended 150-160 characters)'
+              description: 'Optional: The file URL, used when fileId is not given'
             }
           },
-          required: ['pageId', 'pageType']
+          required: []
         }
       },
       {
-        name: 'hubspot_list_templates',
-        description: 'Retrieve all available page templates. Returns template paths, labels, and types. Use this to discover available templates before creating new pages. Templates define the structure and layout options for pages.',
+        name: 'hubspot_list_blog_tags',
+        description: 'Retrieve all blog tags with optional search filtering (pages through every tag, however many there are). Returns tag IDs, names, and slugs for use in content categorization. Use this to discover existing tags before creating blog posts to ensure consistent taxonomy.',
         inputSchema: {
           type: 'object',
-          properties: {},
-          required: []
+          properties: {
+            searchTerm: {
+              type: 'string',
+              description: 'Optional: Search term to filter tags by name (partial match supported)'
+            }
+          }
         }
       },
       {
-        name: 'hubspot_create_page_from_template',
-        description: 'Create a new page from an existing template in DRAFT state. All pages are created as drafts requiring explicit publication. Returns the created page ID and preview URL. IMPORTANT: templatePath must NOT include a leading slash (use "templates/my-template.html" not "/templates/my-template.html"). Perfect for creating landing pages or site pages with AI assistance while maintaining human review.',
+        name: 'hubspot_create_blog_tag',
+        description: 'Create a new blog tag. Check hubspot_list_blog_tags first to avoid near-duplicates. To tag a post with a new tag in one step, pass tagNames with createMissingTags to hubspot_create_blog_post or hubspot_update_blog_post_metadata instead.',
         inputSchema: {
           type: 'object',
           properties: {
             name: {
               type: 'string',
-              description: 'Internal name/title of the page'
-            },
-            slug: {
-              type: 'string',
-              description: 'URL slug for the page (e.g., "my-new-page" becomes /my-new-page)'
-            },
-            templatePath: {
-              type: 'string',
-              description: 'Path to template WITHOUT leading slash (e.g., "templates/my-template.html")'
-            },
-            pageType: {
-              type: 'string',
-              enum: ['site-pages', 'landing-pages'],
-              description: 'Type of page to create (site-pages or landing-pages)',
-              default: 'site-pages'
+              description: 'Tag name'
             },
-            domain: {
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['name']
+        }
+      },
+      {
+        name: 'hubspot_rename_blog_tag',
+        description: 'Rename a blog tag. Tags have no draft: the new name shows on published posts immediately.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tagId: {
               type: 'string',
-              description: 'Optional: Domain to publish the page to'
+              description: 'The ID of the tag to rename'
             },
-            htmlTitle: {
+            name: {
               type: 'string',
-              description: 'Optional: HTML title tag content (SEO title)'
+              description: 'New tag name'
             },
-            metaDescription: {
-              type: 'string',
-              description: 'Optional: Meta description for SEO'
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
-          required: ['name', 'slug', 'templatePath']
+          required: ['tagId', 'name']
         }
       },
-      // Phase 5: Safe webpage content and appearance editing
       {
-        name: 'hubspot_get_page_widgets',
-        description: 'Discover all widgets on a page with their locations and content previews. Returns a structured view showing layout sections, rows, columns, and widgets with their IDs, types, and content previews. Essential first step before any widget content editing - use this to identify which widget to modify. Safe read-only operation.',
+        name: 'hubspot_merge_blog_tags',
+        description: 'Merge one or more blog tags into a target tag. Every post carrying a source tag is retagged with the target in its DRAFT (journaled, undoable); published posts show the change after they are published. Optionally deletes the source tags afterwards, but only if every post was retagged, and never a tag that a published post still shows live (those are reported in keptTagIds).',
         inputSchema: {
           type: 'object',
           properties: {
-            pageId: {
-              type: 'string',
-              description: 'The ID of the page'
+            sourceTagIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'IDs of the tags to merge away'
             },
-            pageType: {
+            targetTagId: {
               type: 'string',
-              enum: ['site-pages', 'landing-pages'],
-              description: 'Type of page (site-pages or landing-pages)'
+              description: 'ID of the tag to keep'
+            },
+            deleteSourceTags: {
+              type: 'boolean',
+              description: 'Optional: Delete the source tags after retagging (default false)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
-          required: ['pageId', 'pageType']
+          required: ['sourceTagIds', 'targetTagId']
         }
       },
       {
-        name: 'hubspot_update_widget_content',
-        description: 'Safely update HTML content, styles, or parameters of a specific widget on a page. Uses fetch-first pattern with structural validation to prevent data loss. CRITICAL SAFETY: Only modifies the targeted widget - all other page content is preserved. Changes go to DRAFT requiring explicit publish. Specify widget location using section name, row index, column index, and widget index from hubspot_get_page_widgets. Returns validation report and preview URL.',
+        name: 'hubspot_delete_blog_tag',
+        description: '⚠️ DELETE - Delete a blog tag. Refuses with TAG_IN_USE (listing the posts) while posts still carry the tag; use hubspot_merge_blog_tags to move them to another tag, or pass force: true to remove the tag from their drafts. The tag itself is only deleted once no published post shows it live.',
         inputSchema: {
           type: 'object',
           properties: {
-            pageId: {
+            tagId: {
               type: 'string',
-              description: 'The ID of the page'
+              description: 'The ID of the tag to delete'
             },
-            pageType: {
-              type: 'string',
-              enum: ['site-pages', 'landing-pages'],
-              description: 'Type of page (site-pages or landing-pages)'
+            force: {
+              type: 'boolean',
+              description: 'Optional: Remove the tag from the drafts of the posts that use it, then delete it if no published post still shows it (default false)'
             },
-            sectionName: {
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['tagId']
+        }
+      },
+      {
+        name: 'hubspot_list_blog_authors',
+        description: 'List blog authors, or search them by name or email. Returns author IDs, names and emails for use as blogAuthorId when creating or updating blog posts.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            search: {
               type: 'string',
-              description: 'Layout section name (e.g., "dnd_area") - get from hubspot_get_page_widgets'
+              description: 'Optional: Search term matched against full name, display name and email (partial, case-insensitive). Searches all authors; limit and offset are ignored.'
             },
-            rowIndex: {
+            limit: {
               type: 'number',
-              description: 'Row index (0-based) where the widget is located'
+              description: 'Optional: Maximum number of results (default 100, max 100)'
             },
-            columnIndex: {
+            offset: {
               type: 'number',
-              description: 'Column/cell index (0-based) where the widget is located'
+              description: 'Optional: Pagination offset'
+            }
+          }
+        }
+      },
+      {
+        name: 'hubspot_get_blog_author',
+        description: 'Get a blog author\'s full profile: name, email, bio, website, social links and avatar.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            authorId: {
+              type: 'string',
+              description: 'The ID of the blog author'
+            }
+          },
+          required: ['authorId']
+        }
+      },
+      {
+        name: 'hubspot_create_blog_author',
+        description: 'Create a new blog author. Check hubspot_list_blog_authors first to avoid duplicates.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fullName: {
+              type: 'string',
+              description: 'Author\'s full name'
             },
-            widgetIndex: {
-              type: 'number',
-              description: 'Widget index (0-based) within the cell'
+            email: {
+              type: 'string',
+              description: 'Optional: Author\'s email'
             },
-            html: {
+            bio: {
               type: 'string',
-              description: 'Optional: New HTML content for the widget body'
+              description: 'Optional: Short biography'
             },
-            styles: {
-              type: 'object',
-              description: 'Optional: CSS styles to apply to widget (as JSON object)'
+            website: {
+              type: 'string',
+              description: 'Optional: Website URL'
             },
-            params: {
-              type: 'object',
-              description: 'Optional: Module parameters to update (as JSON object)'
+            twitter: {
+              type: 'string',
+              description: 'Optional: Twitter/X profile URL'
+            },
+            facebook: {
+              type: 'string',
+              description: 'Optional: Facebook profile URL'
+            },
+            linkedin: {
+              type: 'string',
+              description: 'Optional: LinkedIn profile URL'
+            },
+            avatar: {
+              type: 'string',
+              description: 'Optional: Avatar image URL'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
-          required: ['pageId', 'pageType', 'sectionName', 'rowIndex', 'columnIndex', 'widgetIndex']
+          required: ['fullName']
         }
       },
       {
-        name: 'hubspot_add_widget_to_page',
-        description: 'Add a new widget to a specific location on a page. Uses fetch-first pattern with validation. Specify the layout section, row, and column where you want to add the widget. The new widget will be added at the end of that column\'s widgets array. Changes saved to DRAFT. IMPORTANT: Get available widget types from your HubSpot templates. Common types include "rich_text", "image", "button", "form", "video", "divider". Returns the new widget\'s location and validation report.',
+        name: 'hubspot_update_blog_author',
+        description: 'Update a blog author\'s profile. Only the fields provided are changed. Authors have no draft: changes show on every post by this author immediately.',
         inputSchema: {
           type: 'object',
           properties: {
-            pageId: {
+            authorId: {
               type: 'string',
-              description: 'The ID of the page'
+              description: 'The ID of the blog author'
             },
-            pageType: {
+            fullName: {
               type: 'string',
-              enum: ['site-pages', 'landing-pages'],
-              description: 'Type of page (site-pages or landing-pages)'
+              description: 'Optional: Author\'s full name'
             },
-            sectionName: {
+            email: {
               type: 'string',
-              description: 'Layout section name where widget will be added'
+              description: 'Optional: Author\'s email'
             },
-            rowIndex: {
+            bio: {
+              type: 'string',
+              description: 'Optional: Short biography'
+            },
+            website: {
+              type: 'string',
+              description: 'Optional: Website URL'
+            },
+            twitter: {
+              type: 'string',
+              description: 'Optional: Twitter/X profile URL'
+            },
+            facebook: {
+              type: 'string',
+              description: 'Optional: Facebook profile URL'
+            },
+            linkedin: {
+              type: 'string',
+              description: 'Optional: LinkedIn profile URL'
+            },
+            avatar: {
+              type: 'string',
+              description: 'Optional: Avatar image URL'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['authorId']
+        }
+      },
+      {
+        name: 'hubspot_get_draft_preview_url',
+        description: 'Generate a preview URL for draft content to enable human review before publication. Works for blog posts, site pages and landing pages. Returns a URL with preview token that displays the draft version, and whether it opens without a HubSpot login (previews on *.hs-sites.com system domains only render for logged-in portal users). Essential for the review workflow: create/update content, generate preview, human approves, then publish.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            }
+          },
+          required: ['contentId', 'contentType']
+        }
+      },
+      // Phase 3: Page management and advanced features
+      {
+        name: 'hubspot_list_pages',
+        description: 'Discover and list site pages or landing pages with flexible filtering options. Supports filtering by state (DRAFT/PUBLISHED/SCHEDULED), template path, domain, page name, creation date, update date, and archived status. Returns paginated results with metadata, including each page\'s A/B test role (abStatus MASTER, VARIANT or LOSER_VARIANT). Maximum 100 results per page.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of pages to list (site-pages or landing-pages)'
+            },
+            limit: {
               type: 'number',
-              description: 'Row index (0-based) where widget will be added'
+              description: 'Maximum number of results to return (max 100)',
+              default: 20
             },
-            columnIndex: {
+            offset: {
               type: 'number',
-              description: 'Column/cell index (0-based) where widget will be added'
+              description: 'Number of results to skip for pagination',
+              default: 0
             },
-            widgetType: {
+            state: {
               type: 'string',
-              description: 'Widget type (e.g., "rich_text", "image", "button")'
+              enum: ['DRAFT', 'PUBLISHED', 'SCHEDULED'],
+              description: 'Filter by publication state'
             },
-            widgetName: {
+            templatePath: {
               type: 'string',
-              description: 'Display name for the widget'
+              description: 'Filter by template path (e.g., "templates/my-template.html")'
             },
-            html: {
+            domain: {
               type: 'string',
-              description: 'Optional: Initial HTML content for the widget'
+              description: 'Filter by domain'
             },
-            params: {
-              type: 'object',
-              description: 'Optional: Module parameters (as JSON object)'
+            name: {
+              type: 'string',
+              description: 'Filter by page name/title (partial match supported)'
             },
-            styles: {
-              type: 'object',
-              description: 'Optional: CSS styles (as JSON object)'
+            created: {
+              type: 'string',
+              description: 'Filter pages created after this date (ISO 8601 format)'
+            },
+            updated: {
+              type: 'string',
+              description: 'Filter pages updated after this date (ISO 8601 format)'
+            },
+            archivedInDashboard: {
+              type: 'boolean',
+              description: 'Filter by archived status'
             }
           },
-          required: ['pageId', 'pageType', 'sectionName', 'rowIndex', 'columnIndex', 'widgetType', 'widgetName']
+          required: ['pageType']
         }
       },
       {
-        name: 'hubspot_remove_widget_from_page',
-        description: 'Remove a specific widget from a page. Uses fetch-first pattern with validation to ensure only the targeted widget is removed. CRITICAL: This permanently removes the widget from the draft. Get widget location from hubspot_get_page_widgets first. Changes saved to DRAFT requiring explicit publish. Use with caution - always review page structure before removing widgets.',
+        name: 'hubspot_get_page',
+        description: 'Fetch complete details for a specific page. Returns full object including metadata, nested content structures (widgets, layoutSections), and page settings. ⚠️ WARNING: The returned object includes complex nested structures. MUST be called before any update operations to implement the mandatory fetch-first pattern. Handle layoutSections with extreme care - they cannot be partially updated.',
         inputSchema: {
           type: 'object',
           properties: {
             pageId: {
               type: 'string',
-              description: 'The ID of the page'
+              description: 'The ID of the page to retrieve'
             },
             pageType: {
               type: 'string',
               enum: ['site-pages', 'landing-pages'],
               description: 'Type of page (site-pages or landing-pages)'
+            }
+          },
+          required: ['pageId', 'pageType']
+        }
+      },
+      {
+        name: 'hubspot_update_page_metadata',
+        description: 'Safely update page metadata WITHOUT touching page content structures. This tool implements the mandatory fetch-first pattern: it fetches the current page state, merges your metadata changes, and PATCHes to the /draft endpoint. CRITICAL SAFETY: NEVER modifies layoutSections, widgets, or widgetContainers to prevent catastrophic data loss. Only updates: name, slug, htmlTitle, metaDescription. All changes go to draft state and require explicit publishing. Perfect for SEO optimization without risking page layouts.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page to update'
             },
-            sectionName: {
+            pageType: {
               type: 'string',
-              description: 'Layout section name containing the widget'
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
             },
-            rowIndex: {
-              type: 'number',
-              description: 'Row index (0-based) containing the widget'
+            name: {
+              type: 'string',
+              description: 'Page name/title'
             },
-            columnIndex: {
-              type: 'number',
-              description: 'Column/cell index (0-based) containing the widget'
+            slug: {
+              type: 'string',
+              description: 'URL slug for the page'
             },
-            widgetIndex: {
-              type: 'number',
-              description: 'Widget index (0-based) to remove'
+            htmlTitle: {
+              type: 'string',
+              description: 'HTML title tag content (SEO title)'
+            },
+            metaDescription: {
+              type: 'string',
+              description: 'Meta description for SEO (recommended 150-160 characters)'
+            },
+            createRedirect: {
+              type: 'boolean',
+              description: 'Optional: When changing the slug of published content, also create a 301 redirect from the old URL to the new one. The redirect only kicks in once the old URL stops serving (i.e. after you publish the new slug).'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
             }
           },
-          required: ['pageId', 'pageType', 'sectionName', 'rowIndex', 'columnIndex', 'widgetIndex']
-        }
-      }
-    ]
-  };
-});
-
-/**
- * Handle tool execution
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    const { name, arguments: args } = request.params;
-
-    logger.info('Tool called', { tool: name, arguments: args });
-
-    // Ensure args is defined (can be empty object)
-    const toolArgs = args || {};
-
-    switch (name) {
-      case 'hubspot_authenticate': {
-        const result = await hubspotClient.validateToken();
-
-        if (!result.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: result.error,
-                  rateLimitStatus: result.rateLimitStatus
-                }, null, 2)
-              }
-            ]
-          };
+          required: ['pageId', 'pageType']
         }
-
-        const data = result.data!;
-        const rateLimitStatus = hubspotClient.getRateLimitStatus();
-
-        // Build connection info, handling both OAuth and Private App token responses
+      },
+      {
+        name: 'hubspot_list_templates',
+        description: 'Retrieve all available page templates. Returns template paths, labels, and types. Use this to discover available templates before creating new pages. Templates define the structure and layout options for pages.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          required: []
+        }
+      },
+      {
+        name: 'hubspot_get_source_code',
+        description: 'Read the source of a template or module from the design manager, e.g. "my-theme/templates/landing.html" or a file inside "my-theme/modules/hero.module". Pass a folder path to list its children instead (metadataOnly).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Design manager path, without a leading slash (same form as templatePath)'
+            },
+            environment: {
+              type: 'string',
+              enum: ['published', 'draft'],
+              description: 'Optional: Which environment to read (default published)'
+            },
+            metadataOnly: {
+              type: 'boolean',
+              description: 'Optional: Only return metadata (use for folders to list their children)'
+            }
+          },
+          required: ['path']
+        }
+      },
+      {
+        name: 'hubspot_validate_source_code',
+        description: 'Check template or module source with HubSpot\'s validator without saving it. Returns valid plus any HubL or syntax errors.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Design manager path the source is for (the file type is taken from its extension)'
+            },
+            source: {
+              type: 'string',
+              description: 'The full file source to validate'
+            }
+          },
+          required: ['path', 'source']
+        }
+      },
+      {
+        name: 'hubspot_find_template_usage',
+        description: 'List the pages built on a template (by templatePath) or using a module. Run this before changing a template to see what would be affected.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Template path, or a module folder or any file in it, without a leading slash'
+            }
+          },
+          required: ['path']
+        }
+      },
+      {
+        name: 'hubspot_clone_source_code',
+        description: 'Copy a template to a new path in the DRAFT environment, so it can be edited without touching the original. A path inside a .module folder copies the whole module folder, since a module only works with all its files. The copy is validated first. Returns the pages that still use the original templatePath; they keep using it until switched to the clone.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sourcePath: {
+              type: 'string',
+              description: 'Path of the template, or of a module folder or any file in it, to copy'
+            },
+            clonePath: {
+              type: 'string',
+              description: 'New path for the copy, e.g. "my-theme/templates/landing-v2.html", or a new .module folder such as "my-theme/modules/hero-v2.module" for modules. Must not exist yet.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['sourcePath', 'clonePath']
+        }
+      },
+      {
+        name: 'hubspot_update_source_code',
+        description: 'Replace the source of a template or module file in the DRAFT environment. Only works on clones made with hubspot_clone_source_code (a cloned template, or any file in a cloned module folder). The original of a template or module may be used by pages, blog templates, partials or other modules, so every other path is refused with NOT_A_CLONE. The source is validated first and invalid source is refused with VALIDATION_FAILED.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path of the file to replace'
+            },
+            source: {
+              type: 'string',
+              description: 'The complete new file source'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['path', 'source']
+        }
+      },
+      {
+        name: 'hubspot_create_page_from_template',
+        description: 'Create a new page from an existing template in DRAFT state. All pages are created as drafts requiring explicit publication. Returns the created page ID and preview URL. IMPORTANT: templatePath must NOT include a leading slash (use "templates/my-template.html" not "/templates/my-template.html"). Perfect for creating landing pages or site pages with AI assistance while maintaining human review.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Internal name/title of the page'
+            },
+            slug: {
+              type: 'string',
+              description: 'URL slug for the page (e.g., "my-new-page" becomes /my-new-page)'
+            },
+            templatePath: {
+              type: 'string',
+              description: 'Path to template WITHOUT leading slash (e.g., "templates/my-template.html")'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page to create (site-pages or landing-pages)',
+              default: 'site-pages'
+            },
+            domain: {
+              type: 'string',
+              description: 'Optional: Domain to publish the page to'
+            },
+            htmlTitle: {
+              type: 'string',
+              description: 'Optional: HTML title tag content (SEO title)'
+            },
+            metaDescription: {
+              type: 'string',
+              description: 'Optional: Meta description for SEO'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['name', 'slug', 'templatePath']
+        }
+      },
+      {
+        name: 'hubspot_clone_content',
+        description: 'Clone a blog post, site page or landing page into a new DRAFT. Use an existing post or page as the starting point for a new campaign. The source is not modified and the clone is never published. Returns the clone plus its widget structure (same format as hubspot_get_page_widgets), so widgets can be edited right away.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content to clone'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page to clone'
+            },
+            name: {
+              type: 'string',
+              description: 'Optional: Name for the clone (default: "<source name> (clone)")'
+            },
+            slug: {
+              type: 'string',
+              description: 'Optional: URL slug for the clone'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['contentType', 'contentId']
+        }
+      },
+      {
+        name: 'hubspot_publish_page_draft',
+        description: '⚠️ PUBLISH TO LIVE - Push a page\'s draft changes live on your website. Works for site pages and landing pages edited with the widget and metadata tools. This makes content publicly visible and CANNOT be undone automatically. If the page has never been published, use hubspot_schedule_page instead. Always confirm before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page to publish'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType']
+        }
+      },
+      {
+        name: 'hubspot_schedule_page',
+        description: '⚠️ SCHEDULE FOR LIVE - Schedule a site page or landing page to be published at a specific date and time. The page goes live automatically at that time. Always confirm the date with the user before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page to schedule'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            },
+            publishDate: {
+              type: 'string',
+              description: 'ISO 8601 date/time when the page should go live (e.g., "2024-12-31T09:00:00Z")'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType', 'publishDate']
+        }
+      },
+      {
+        name: 'hubspot_unpublish_page',
+        description: '⚠️ TAKE OFFLINE - Unpublish a site page or landing page, reverting it to DRAFT state. The page is removed from your website immediately; its content is kept. Visitors to its URL will get a 404 unless a redirect exists. Always confirm before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page to unpublish'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType']
+        }
+      },
+      {
+        name: 'hubspot_create_ab_test_variation',
+        description: 'Start an A/B test by creating a variation of a site page or landing page. The original becomes the test MASTER and the new page the VARIANT. Returns the variation\'s widget structure so it can be edited right away with the widget tools (use the variation\'s page ID). The master page is not modified.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page to create a variation of (must not already be a variant)'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page'
+            },
+            variationName: {
+              type: 'string',
+              description: 'Name for the variation page'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType', 'variationName']
+        }
+      },
+      {
+        name: 'hubspot_end_ab_test',
+        description: '⚠️ END TEST - End an A/B test and keep the chosen winner. The other page becomes a LOSER_VARIANT and stops being served. Cannot be undone. Always confirm the winner with the user before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page'
+            },
+            abTestId: {
+              type: 'string',
+              description: 'The A/B test ID (abTestId from hubspot_list_pages or hubspot_get_page)'
+            },
+            winnerId: {
+              type: 'string',
+              description: 'Page ID of the winning master or variant'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageType', 'abTestId', 'winnerId']
+        }
+      },
+      // Phase 5: Safe webpage content and appearance editing
+      {
+        name: 'hubspot_get_page_widgets',
+        description: 'Discover all widgets on a page with their locations and content previews. Returns a structured view showing layout sections, rows, columns, and widgets with their IDs, types, and content previews. Essential first step before any widget content editing - use this to identify which widget to modify. Safe read-only operation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            }
+          },
+          required: ['pageId', 'pageType']
+        }
+      },
+      {
+        name: 'hubspot_update_widget_content',
+        description: 'Safely update HTML content, styles, or parameters of a specific widget on a page. Uses fetch-first pattern with structural validation to prevent data loss. CRITICAL SAFETY: Only modifies the targeted widget - all other page content is preserved. Changes go to DRAFT requiring explicit publish. Specify widget location using section name, row index, column index, and widget index from hubspot_get_page_widgets. Returns validation report and preview URL.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            },
+            sectionName: {
+              type: 'string',
+              description: 'Layout section name (e.g., "dnd_area") - get from hubspot_get_page_widgets'
+            },
+            rowIndex: {
+              type: 'number',
+              description: 'Row index (0-based) where the widget is located'
+            },
+            columnIndex: {
+              type: 'number',
+              description: 'Column/cell index (0-based) where the widget is located'
+            },
+            widgetIndex: {
+              type: 'number',
+              description: 'Widget index (0-based) within the cell'
+            },
+            html: {
+              type: 'string',
+              description: 'Optional: New HTML content for the widget body'
+            },
+            styles: {
+              type: 'object',
+              description: 'Optional: CSS styles to apply to widget (as JSON object)'
+            },
+            params: {
+              type: 'object',
+              description: 'Optional: Module parameters to update (as JSON object)'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType', 'sectionName', 'rowIndex', 'columnIndex', 'widgetIndex']
+        }
+      },
+      {
+        name: 'hubspot_add_widget_to_page',
+        description: 'Add a new widget to a specific location on a page. Uses fetch-first pattern with validation. Specify the layout section, row, and column where you want to add the widget. The new widget will be added at the end of that column\'s widgets array. Changes saved to DRAFT. IMPORTANT: Get available widget types from your HubSpot templates. Common types include "rich_text", "image", "button", "form", "video", "divider". Returns the new widget\'s location and validation report.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            },
+            sectionName: {
+              type: 'string',
+              description: 'Layout section name where widget will be added'
+            },
+            rowIndex: {
+              type: 'number',
+              description: 'Row index (0-based) where widget will be added'
+            },
+            columnIndex: {
+              type: 'number',
+              description: 'Column/cell index (0-based) where widget will be added'
+            },
+            widgetType: {
+              type: 'string',
+              description: 'Widget type (e.g., "rich_text", "image", "button")'
+            },
+            widgetName: {
+              type: 'string',
+              description: 'Display name for the widget'
+            },
+            html: {
+              type: 'string',
+              description: 'Optional: Initial HTML content for the widget'
+            },
+            params: {
+              type: 'object',
+              description: 'Optional: Module parameters (as JSON object)'
+            },
+            styles: {
+              type: 'object',
+              description: 'Optional: CSS styles (as JSON object)'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType', 'sectionName', 'rowIndex', 'columnIndex', 'widgetType', 'widgetName']
+        }
+      },
+      {
+        name: 'hubspot_remove_widget_from_page',
+        description: 'Remove a specific widget from a page. Uses fetch-first pattern with validation to ensure only the targeted widget is removed. CRITICAL: This permanently removes the widget from the draft. Get widget location from hubspot_get_page_widgets first. Changes saved to DRAFT requiring explicit publish. Use with caution - always review page structure before removing widgets.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            },
+            sectionName: {
+              type: 'string',
+              description: 'Layout section name containing the widget'
+            },
+            rowIndex: {
+              type: 'number',
+              description: 'Row index (0-based) containing the widget'
+            },
+            columnIndex: {
+              type: 'number',
+              description: 'Column/cell index (0-based) containing the widget'
+            },
+            widgetIndex: {
+              type: 'number',
+              description: 'Widget index (0-based) to remove'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType', 'sectionName', 'rowIndex', 'columnIndex', 'widgetIndex']
+        }
+      },
+      {
+        name: 'hubspot_reorder_widget',
+        description: 'Move a widget to a new position on a page. Reorders widgets within the same column, or moves a widget to a different column, row, or layout section. Uses fetch-first pattern with validation that the widget count is unchanged - a move never adds or drops widgets. Target location fields default to the source location, so reordering inside a column only needs toWidgetIndex. Changes saved to DRAFT requiring explicit publish. Get widget locations from hubspot_get_page_widgets first.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the page'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page (site-pages or landing-pages)'
+            },
+            fromSectionName: {
+              type: 'string',
+              description: 'Layout section name containing the widget to move'
+            },
+            fromRowIndex: {
+              type: 'number',
+              description: 'Row index (0-based) containing the widget to move'
+            },
+            fromColumnIndex: {
+              type: 'number',
+              description: 'Column/cell index (0-based) containing the widget to move'
+            },
+            fromWidgetIndex: {
+              type: 'number',
+              description: 'Widget index (0-based) of the widget to move'
+            },
+            toSectionName: {
+              type: 'string',
+              description: 'Optional: Target layout section name. Defaults to fromSectionName.'
+            },
+            toRowIndex: {
+              type: 'number',
+              description: 'Optional: Target row index (0-based). Defaults to fromRowIndex.'
+            },
+            toColumnIndex: {
+              type: 'number',
+              description: 'Optional: Target column/cell index (0-based). Defaults to fromColumnIndex.'
+            },
+            toWidgetIndex: {
+              type: 'number',
+              description: 'Widget index (0-based) the widget should occupy after the move. Values past the end of the target column append the widget.'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType', 'fromSectionName', 'fromRowIndex', 'fromColumnIndex', 'fromWidgetIndex', 'toWidgetIndex']
+        }
+      },
+      // Revision history
+      {
+        name: 'hubspot_list_revisions',
+        description: 'List the version history of a blog post or page. Returns revision IDs, timestamps, and the user who saved each revision, newest first. Use the revision IDs with hubspot_get_revision or hubspot_diff_revisions to inspect what changed. Safe read-only operation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of revisions to return (max 100)',
+              default: 20
+            },
+            after: {
+              type: 'string',
+              description: 'Optional: Paging cursor from a previous response (nextAfter)'
+            }
+          },
+          required: ['contentType', 'contentId']
+        }
+      },
+      {
+        name: 'hubspot_get_revision',
+        description: 'Fetch a single revision of a blog post or page. Returns the content snapshot as it was at that revision, including metadata and a flattened widget list with locations. Safe read-only operation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            revisionId: {
+              type: 'string',
+              description: 'The ID of the revision (from hubspot_list_revisions)'
+            }
+          },
+          required: ['contentType', 'contentId', 'revisionId']
+        }
+      },
+      {
+        name: 'hubspot_diff_revisions',
+        description: 'Compare two revisions of a blog post or page, or a revision against the current draft. Reports changed fields and changed widgets, with widgets keyed by location (section, row, column, widget index). Use this to see what changed before deciding to roll back. Safe read-only operation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            fromRevisionId: {
+              type: 'string',
+              description: 'The older revision ID to compare from'
+            },
+            toRevisionId: {
+              type: 'string',
+              description: 'Optional: The revision ID to compare to. If omitted, compares against the current draft.'
+            }
+          },
+          required: ['contentType', 'contentId', 'fromRevisionId']
+        }
+      },
+      {
+        name: 'hubspot_restore_revision',
+        description: 'Restore a previous revision of a blog post or page as the current DRAFT. Never publishes - the restored content must be reviewed and published explicitly. Blog posts use HubSpot\'s native restore; pages fetch the historical revision and PATCH it onto the draft after structural validation. Use hubspot_diff_revisions first to confirm what will change.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            revisionId: {
+              type: 'string',
+              description: 'The ID of the revision to restore (from hubspot_list_revisions)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['contentType', 'contentId', 'revisionId']
+        }
+      },
+      // Undo journal
+      {
+        name: 'hubspot_list_recent_operations',
+        description: 'List recent write operations recorded in the local undo journal, newest first. Every draft write (metadata, content, widget edits, widget add/remove/move, revision restores) saves the content\'s state from before the write. Returns operation IDs for use with hubspot_undo_operation. Safe read-only operation - makes no API calls.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            limit: {
+              type: 'number',
+              description: 'Maximum number of operations to return',
+              default: 20
+            },
+            contentId: {
+              type: 'string',
+              description: 'Optional: Only show operations on this blog post or page ID'
+            }
+          }
+        }
+      },
+      {
+        name: 'hubspot_undo_operation',
+        description: 'Undo a previous write operation by PATCHing the saved before-state back to the DRAFT. Never publishes. Pages are structurally validated before writing. The undo is itself journaled, so it can be undone too. A 301 redirect created by the undone slug change is deleted as well. Note: undoing an older operation also reverts any later edits to the same content. Get operation IDs from hubspot_list_recent_operations.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            operationId: {
+              type: 'string',
+              description: 'The operation ID to undo (from hubspot_list_recent_operations or a write tool response)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['operationId']
+        }
+      },
+      {
+        name: 'hubspot_reset_draft',
+        description: '⚠️ DISCARD DRAFT - Throw away all unpublished changes on a blog post or page, resetting the draft to match the live version. HubSpot\'s reset cannot be reversed, so the current draft is first saved to the local undo journal; the returned operationId can be passed to hubspot_undo_operation to bring the draft back. Requires confirm: true. Always confirm with the user before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Must be true to reset the draft. Not required for dryRun.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['contentType', 'contentId', 'confirm']
+        }
+      },
+      {
+        name: 'hubspot_archive_content',
+        description: 'Archive (or unarchive) a blog post or page in the HubSpot dashboard. Archiving only hides the content from the dashboard lists - published content stays live at its URL. Reversible with archived: false.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            archived: {
+              type: 'boolean',
+              description: 'Optional: true to archive (default), false to unarchive'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['contentType', 'contentId']
+        }
+      },
+      {
+        name: 'hubspot_delete_content',
+        description: '⚠️ DELETE - Delete a blog post or page. HubSpot cannot restore deleted content through the API. Before deleting, scans every blog post body and page widget for links to the target. If any are found, nothing is deleted and the error lists the linking content plus a confirmationToken; call again with that token to delete anyway. The full object and its draft are exported to the local journal first. Always confirm with the user before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the blog post or page'
+            },
+            confirmationToken: {
+              type: 'string',
+              description: 'Optional: Token from an INBOUND_LINKS_FOUND error. Deletes despite the listed inbound links. Stops working if the set of linking content changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['contentType', 'contentId']
+        }
+      },
+      {
+        name: 'hubspot_list_url_redirects',
+        description: 'List URL redirects (URL mappings) on the portal. Returns each redirect\'s route prefix, destination, redirect style (301 permanent / 302 temporary) and matching options. Use this to check for existing redirects before changing slugs or deleting content.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            limit: {
+              type: 'number',
+              description: 'Maximum number of redirects to return (default 100, max 100)'
+            },
+            after: {
+              type: 'string',
+              description: 'Optional: Paging cursor from a previous response\'s nextAfter'
+            }
+          },
+          required: []
+        }
+      },
+      {
+        name: 'hubspot_get_url_redirect',
+        description: 'Get a single URL redirect by ID.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            redirectId: {
+              type: 'string',
+              description: 'The ID of the URL redirect'
+            }
+          },
+          required: ['redirectId']
+        }
+      },
+      {
+        name: 'hubspot_create_url_redirect',
+        description: '⚠️ LIVE CHANGE - Create a URL redirect. Redirects have no draft state: they take effect on the live site immediately. Defaults to a 301 (permanent) redirect. Use isOnlyAfterNotFound to redirect only once the old URL stops serving a page.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            routePrefix: {
+              type: 'string',
+              description: 'The path (or full URL) to redirect from, e.g. "/old-pricing"'
+            },
+            destination: {
+              type: 'string',
+              description: 'The path or URL to redirect to, e.g. "/pricing"'
+            },
+            redirectStyle: {
+              type: 'number',
+              enum: [301, 302],
+              description: 'Optional: 301 (permanent, default) or 302 (temporary)'
+            },
+            isOnlyAfterNotFound: {
+              type: 'boolean',
+              description: 'Optional: Only redirect when the route prefix would otherwise return a 404'
+            },
+            isMatchFullUrl: {
+              type: 'boolean',
+              description: 'Optional: Match the full URL including the domain instead of just the path'
+            },
+            isMatchQueryString: {
+              type: 'boolean',
+              description: 'Optional: Require the query string to match as well'
+            },
+            isPattern: {
+              type: 'boolean',
+              description: 'Optional: Treat the route prefix as a flexible pattern (e.g. "/blog/:slug")'
+            },
+            isTrailingSlashOptional: {
+              type: 'boolean',
+              description: 'Optional: Match with or without a trailing slash'
+            },
+            isProtocolAgnostic: {
+              type: 'boolean',
+              description: 'Optional: Match both http and https'
+            },
+            precedence: {
+              type: 'number',
+              description: 'Optional: Priority when several redirects match (lower wins)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['routePrefix', 'destination']
+        }
+      },
+      {
+        name: 'hubspot_update_url_redirect',
+        description: '⚠️ LIVE CHANGE - Update an existing URL redirect. Fetches the current redirect, merges your changes and saves. Takes effect on the live site immediately.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            redirectId: {
+              type: 'string',
+              description: 'The ID of the URL redirect'
+            },
+            routePrefix: {
+              type: 'string',
+              description: 'Optional: New path to redirect from'
+            },
+            destination: {
+              type: 'string',
+              description: 'Optional: New path or URL to redirect to'
+            },
+            redirectStyle: {
+              type: 'number',
+              enum: [301, 302],
+              description: 'Optional: 301 (permanent) or 302 (temporary)'
+            },
+            isOnlyAfterNotFound: {
+              type: 'boolean',
+              description: 'Optional: Only redirect when the route prefix would otherwise return a 404'
+            },
+            isMatchFullUrl: {
+              type: 'boolean',
+              description: 'Optional: Match the full URL including the domain instead of just the path'
+            },
+            isMatchQueryString: {
+              type: 'boolean',
+              description: 'Optional: Require the query string to match as well'
+            },
+            isPattern: {
+              type: 'boolean',
+              description: 'Optional: Treat the route prefix as a flexible pattern'
+            },
+            isTrailingSlashOptional: {
+              type: 'boolean',
+              description: 'Optional: Match with or without a trailing slash'
+            },
+            isProtocolAgnostic: {
+              type: 'boolean',
+              description: 'Optional: Match both http and https'
+            },
+            precedence: {
+              type: 'number',
+              description: 'Optional: Priority when several redirects match (lower wins)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['redirectId']
+        }
+      },
+      {
+        name: 'hubspot_delete_url_redirect',
+        description: '⚠️ LIVE CHANGE - Delete a URL redirect. Visitors and search engines following the old URL will get whatever is now at that path (often a 404). The deleted redirect is returned and logged so it can be recreated by hand.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            redirectId: {
+              type: 'string',
+              description: 'The ID of the URL redirect'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['redirectId']
+        }
+      },
+      {
+        name: 'hubspot_list_hubdb_tables',
+        description: 'List HubDB tables. Returns each table\'s id, name, label, row count, and whether it is published and drives dynamic pages. Use hubspot_get_hubdb_table for the column schema.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            draft: {
+              type: 'boolean',
+              description: 'Optional: List draft tables, including ones that were never published (default false)'
+            }
+          },
+          required: []
+        }
+      },
+      {
+        name: 'hubspot_get_hubdb_table',
+        description: 'Get a HubDB table\'s schema: its columns (name, label, type, and options for select columns) plus row count and publish state. Read this before writing rows so values use the right column names and types.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableIdOrName: {
+              type: 'string',
+              description: 'The table ID or name'
+            },
+            draft: {
+              type: 'boolean',
+              description: 'Optional: Read the draft schema instead of the published one (default false)'
+            }
+          },
+          required: ['tableIdOrName']
+        }
+      },
+      {
+        name: 'hubspot_list_hubdb_rows',
+        description: 'List rows of a HubDB table, with optional filters and sorting. Reads the published table by default; set draft to see unpublished row changes.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableIdOrName: {
+              type: 'string',
+              description: 'The table ID or name'
+            },
+            filters: {
+              type: 'array',
+              description: 'Optional: Row filters, all of which must match',
+              items: {
+                type: 'object',
+                properties: {
+                  column: { type: 'string', description: 'Column name' },
+                  operator: {
+                    type: 'string',
+                    enum: ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'contains', 'icontains', 'startswith', 'like', 'not_like', 'in', 'not_in', 'is_null', 'not_null'],
+                    description: 'Comparison operator'
+                  },
+                  value: { description: 'Value to compare with (an array for in / not_in; omit for is_null / not_null)' }
+                },
+                required: ['column', 'operator']
+              }
+            },
+            sort: {
+              type: 'string',
+              description: 'Optional: Column to sort by; prefix with "-" for descending'
+            },
+            properties: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional: Only return these columns'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of rows to return (default 100, max 1000)'
+            },
+            after: {
+              type: 'string',
+              description: 'Optional: Paging cursor from a previous response\'s nextAfter'
+            },
+            draft: {
+              type: 'boolean',
+              description: 'Optional: Read draft rows instead of published rows (default false)'
+            }
+          },
+          required: ['tableIdOrName']
+        }
+      },
+      {
+        name: 'hubspot_create_hubdb_row',
+        description: 'Add a row to a HubDB table\'s DRAFT. Column names are checked against the draft schema first. The row is not live until the table is published with hubspot_publish_hubdb_table.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableIdOrName: {
+              type: 'string',
+              description: 'The table ID or name'
+            },
+            values: {
+              type: 'object',
+              description: 'Column name → value, e.g. {"name": "Berlin", "employees": 12}'
+            },
+            path: {
+              type: 'string',
+              description: 'Optional: Dynamic page slug for this row (tables used for pages)'
+            },
+            name: {
+              type: 'string',
+              description: 'Optional: Dynamic page title for this row (tables used for pages)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['tableIdOrName', 'values']
+        }
+      },
+      {
+        name: 'hubspot_update_hubdb_row',
+        description: 'Update a row in a HubDB table\'s DRAFT. Fetches the current draft row first and only sends the columns you pass; other columns keep their values. Returns the row before and after. Not live until the table is published with hubspot_publish_hubdb_table.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableIdOrName: {
+              type: 'string',
+              description: 'The table ID or name'
+            },
+            rowId: {
+              type: 'string',
+              description: 'The row ID'
+            },
+            values: {
+              type: 'object',
+              description: 'Optional: Column name → new value, for the columns to change'
+            },
+            path: {
+              type: 'string',
+              description: 'Optional: New dynamic page slug for this row'
+            },
+            name: {
+              type: 'string',
+              description: 'Optional: New dynamic page title for this row'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['tableIdOrName', 'rowId']
+        }
+      },
+      {
+        name: 'hubspot_delete_hubdb_row',
+        description: 'Delete a row from a HubDB table\'s DRAFT. The deleted row\'s values are returned and logged. The row stays live until the table is published with hubspot_publish_hubdb_table.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableIdOrName: {
+              type: 'string',
+              description: 'The table ID or name'
+            },
+            rowId: {
+              type: 'string',
+              description: 'The row ID'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['tableIdOrName', 'rowId']
+        }
+      },
+      {
+        name: 'hubspot_publish_hubdb_table',
+        description: '⚠️ PUBLISH TO LIVE - Publish a HubDB table\'s draft. Every pending row change goes live at once, and pages and modules that read the table update immediately. Always confirm before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tableIdOrName: {
+              type: 'string',
+              description: 'The table ID or name'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['tableIdOrName']
+        }
+      },
+      {
+        name: 'hubspot_list_global_content',
+        description: 'List global content: the global modules, groups and partials behind headers, footers and shared CTAs. These are not part of any page\'s layoutSections, so hubspot_get_page_widgets cannot see them. Each entry lists the pages that reference it. Scans every page, so it can take a while on large portals.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          required: []
+        }
+      },
+      {
+        name: 'hubspot_get_global_content_structure',
+        description: 'Show the widgets of a global module, group or partial in the same flattened structure hubspot_get_page_widgets uses for pages. A single module is at sectionName "widget", widgetIndex 0; groups and partials list theirs under sectionName "widgets". Includes a blast-radius warning listing every page that uses the element.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            globalContentId: {
+              type: 'string',
+              description: 'The ID of the global content element'
+            },
+            draft: {
+              type: 'boolean',
+              description: 'Optional: Read the unpublished draft (default true). Set false to read the live version.'
+            }
+          },
+          required: ['globalContentId']
+        }
+      },
+      {
+        name: 'hubspot_update_global_content_widget',
+        description: '⚠️ GLOBAL - Update the HTML, styles or params of one widget in a global module, group or partial. Uses the fetch-first pattern and writes to the element\'s DRAFT only. Once published, the change appears on EVERY page that uses the element; the response lists those pages. Always confirm the blast radius with the user before publishing.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            globalContentId: {
+              type: 'string',
+              description: 'The ID of the global content element'
+            },
+            sectionName: {
+              type: 'string',
+              enum: ['widget', 'widgets'],
+              description: 'Section from hubspot_get_global_content_structure'
+            },
+            widgetIndex: {
+              type: 'number',
+              description: 'Widget index (0-based) from hubspot_get_global_content_structure'
+            },
+            html: {
+              type: 'string',
+              description: 'Optional: New HTML content for the widget body'
+            },
+            styles: {
+              type: 'object',
+              description: 'Optional: CSS styles to apply to widget (as JSON object)'
+            },
+            params: {
+              type: 'object',
+              description: 'Optional: Module parameters to update (as JSON object)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['globalContentId', 'sectionName', 'widgetIndex']
+        }
+      },
+      {
+        name: 'hubspot_publish_global_content',
+        description: '⚠️ PUBLISH TO LIVE - GLOBAL - Publish the draft of a global module, group or partial. This changes every page that uses it at once, and cannot be undone automatically. The response lists the affected pages. Always confirm with the user before using this tool.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            globalContentId: {
+              type: 'string',
+              description: 'The ID of the global content element'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['globalContentId']
+        }
+      },
+      {
+        name: 'hubspot_create_language_variant',
+        description: 'Create a language variant (translation) of a blog post or page, e.g. a German version of an English page. The variant starts as a DRAFT copy of the primary in the primary language; translate it with the metadata, content and widget tools. Must be called on the primary, not on another variant.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the primary blog post or page'
+            },
+            language: {
+              type: 'string',
+              description: 'Language code for the variant, e.g. "de" or "en-gb"'
+            },
+            primaryLanguage: {
+              type: 'string',
+              description: 'Optional: Language code to set on the primary if it has none yet, e.g. "en"'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['contentType', 'contentId', 'language']
+        }
+      },
+      {
+        name: 'hubspot_list_translations',
+        description: 'List every language variant in a translation group. Accepts the primary or any variant ID and returns the primary plus all variants with their language, name, slug and state.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            contentType: {
+              type: 'string',
+              enum: ['blog-post', 'site-page', 'landing-page'],
+              description: 'Type of content'
+            },
+            contentId: {
+              type: 'string',
+              description: 'The ID of the primary or of any language variant'
+            }
+          },
+          required: ['contentType', 'contentId']
+        }
+      },
+      {
+        name: 'hubspot_sync_translation_structure',
+        description: 'Copy the primary page\'s layout (layoutSections skeleton) onto a language variant. Where the variant already has a widget of the same type at the same location, the variant\'s widget and its translated text are kept; everywhere else the primary\'s widget is copied in for translation. Refuses if a variant widget has no counterpart in the primary, because it would be lost. Validated and saved to DRAFT.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            pageId: {
+              type: 'string',
+              description: 'The ID of the language variant page (not the primary)'
+            },
+            pageType: {
+              type: 'string',
+              enum: ['site-pages', 'landing-pages'],
+              description: 'Type of page'
+            },
+            expectedUpdated: {
+              type: 'string',
+              description: 'Optional: The "updated" timestamp from when you read this content. If someone else saved it since, the write is refused with CONCURRENT_MODIFICATION and a diff of their changes.'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Optional: Preview the change without writing anything. Returns the exact payload that would be sent and a diff against the current state.'
+            }
+          },
+          required: ['pageId', 'pageType']
+        }
+      }
+    ]
+  };
+});
+
+/**
+ * Handle tool execution
+ */
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  try {
+    const { name, arguments: args } = request.params;
+
+    logger.info('Tool called', { tool: name, arguments: args });
+
+    // Ensure args is defined (can be empty object)
+    const toolArgs = args || {};
+
+    switch (name) {
+      case 'hubspot_authenticate': {
+        const result = await hubspotClient.validateToken();
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const data = result.data!;
+        const rateLimitStatus = hubspotClient.getRateLimitStatus();
+
+        // Build connection info, handling both OAuth and Private App token responses
         const connectionInfo: any = {
           authenticated: true
         };
 
-        // Add available fields from the response
-        if (data.hub_id) connectionInfo.hubId = data.hub_id;
-        if (data.hub_domain) connectionInfo.hubDomain = data.hub_domain;
-        if (data.user_id) connectionInfo.userId = data.user_id;
-        if (data.user) connectionInfo.userName = data.user;
-        if (data.app_id) connectionInfo.appId = data.app_id;
-        if (data.token_type) connectionInfo.tokenType = data.token_type;
-        if (data.expires_at) connectionInfo.expiresAt = new Date(data.expires_at).toISOString();
+        // Add available fields from the response
+        if (data.hub_id) connectionInfo.hubId = data.hub_id;
+        if (data.hub_domain) connectionInfo.hubDomain = data.hub_domain;
+        if (data.user_id) connectionInfo.userId = data.user_id;
+        if (data.user) connectionInfo.userName = data.user;
+        if (data.app_id) connectionInfo.appId = data.app_id;
+        if (data.token_type) connectionInfo.tokenType = data.token_type;
+        if (data.expires_at) connectionInfo.expiresAt = new Date(data.expires_at).toISOString();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                connection: connectionInfo,
+                scopes: data.scopes || [],
+                rateLimitStatus: {
+                  dailyRemaining: rateLimitStatus.dailyRemaining,
+                  burstRemaining: rateLimitStatus.burstRemaining,
+                  dailyPercentUsed: `${rateLimitStatus.dailyPercentUsed.toFixed(1)}%`,
+                  burstPercentUsed: `${rateLimitStatus.burstPercentUsed.toFixed(1)}%`
+                },
+                message: 'Authentication successful! Your HubSpot connection is active.'
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_list_blogs': {
+        const result = await hubspotClient.listBlogs();
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total: data.total,
+                blogs: data.results.map(blog => ({
+                  id: blog.id,
+                  name: blog.name,
+                  rootUrl: blog.absoluteUrl,
+                  language: blog.language,
+                  translatedFromId: blog.translatedFromId
+                })),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${data.total} blog(s). Use the blog ID as contentGroupId.${data.total > 1 ? ' This portal has several blogs, so hubspot_create_blog_post requires contentGroupId.' : ''}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_list_blog_posts': {
+        const params: BlogPostListParams = {
+          limit: toolArgs.limit as number | undefined,
+          offset: toolArgs.offset as number | undefined,
+          contentGroupId: toolArgs.contentGroupId as string | undefined,
+          state: toolArgs.state as 'DRAFT' | 'PUBLISHED' | 'SCHEDULED' | undefined,
+          authorName: toolArgs.authorName as string | undefined,
+          name: toolArgs.name as string | undefined,
+          created: toolArgs.created as string | undefined,
+          updated: toolArgs.updated as string | undefined,
+          archivedInDashboard: toolArgs.archivedInDashboard as boolean | undefined
+        };
+
+        const result = await hubspotClient.listBlogPosts(params);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total: data.total,
+                count: data.results.length,
+                offset: params.offset || 0,
+                limit: params.limit || 20,
+                posts: data.results.map(post => ({
+                  id: post.id,
+                  name: post.name,
+                  slug: post.slug,
+                  state: post.state,
+                  contentGroupId: post.contentGroupId,
+                  authorName: post.authorName,
+                  publishDate: post.publishDate,
+                  created: post.created,
+                  updated: post.updated,
+                  url: post.url,
+                  metaDescription: post.metaDescription,
+                  featuredImage: post.featuredImage
+                })),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${data.total} blog post(s) matching criteria. Showing ${data.results.length} result(s).`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_get_blog_post': {
+        if (!toolArgs.postId) {
+          throw new McpError(ErrorCode.InvalidParams, 'postId is required');
+        }
+
+        const result = await hubspotClient.getBlogPost(toolArgs.postId as string);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const post = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                post: {
+                  id: post.id,
+                  name: post.name,
+                  slug: post.slug,
+                  state: post.state,
+                  currentState: post.currentState,
+                  postBody: post.postBody,
+                  metaDescription: post.metaDescription,
+                  htmlTitle: post.htmlTitle,
+                  featuredImage: post.featuredImage,
+                  featuredImageAltText: post.featuredImageAltText,
+                  authorName: post.authorName,
+                  blogAuthorId: post.blogAuthorId,
+                  tagIds: post.tagIds,
+                  publishDate: post.publishDate,
+                  created: post.created,
+                  updated: post.updated,
+                  url: post.url,
+                  absoluteUrl: post.absoluteUrl,
+                  currentlyPublished: post.currentlyPublished
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: 'Blog post retrieved successfully.'
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_update_blog_post_metadata': {
+        if (!toolArgs.postId) {
+          throw new McpError(ErrorCode.InvalidParams, 'postId is required');
+        }
+
+        const metadata: BlogPostUpdateMetadata = {};
+        if (toolArgs.name) metadata.name = toolArgs.name as string;
+        if (toolArgs.slug) metadata.slug = toolArgs.slug as string;
+        if (toolArgs.metaDescription) metadata.metaDescription = toolArgs.metaDescription as string;
+        if (toolArgs.htmlTitle) metadata.htmlTitle = toolArgs.htmlTitle as string;
+        if (toolArgs.featuredImage) metadata.featuredImage = toolArgs.featuredImage as string;
+        if (toolArgs.featuredImageAltText) metadata.featuredImageAltText = toolArgs.featuredImageAltText as string;
+        if (toolArgs.blogAuthorId) metadata.blogAuthorId = toolArgs.blogAuthorId as string;
+        if (toolArgs.authorName) metadata.authorName = toolArgs.authorName as string;
+        if (toolArgs.tagIds) metadata.tagIds = toolArgs.tagIds as number[];
+        if (toolArgs.tagNames) metadata.tagNames = toolArgs.tagNames as string[];
+        if (toolArgs.createMissingTags) metadata.createMissingTags = toolArgs.createMissingTags as boolean;
+        if (toolArgs.createRedirect) metadata.createRedirect = toolArgs.createRedirect as boolean;
+
+        const result = await hubspotClient.updateBlogPostMetadata(
+          toolArgs.postId as string,
+          metadata,
+          {
+            dryRun: toolArgs.dryRun as boolean | undefined,
+            expectedUpdated: toolArgs.expectedUpdated as string | undefined
+          }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const post = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(post);
+        const previewUrl = preview?.previewUrl;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                contentId: post.id,
+                previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                updatedFields: Object.keys(metadata),
+                post: {
+                  id: post.id,
+                  name: post.name,
+                  slug: post.slug,
+                  state: post.state,
+                  metaDescription: post.metaDescription,
+                  htmlTitle: post.htmlTitle,
+                  featuredImage: post.featuredImage,
+                  featuredImageAltText: post.featuredImageAltText,
+                  tagIds: post.tagIds,
+                  updated: post.updated
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                redirect: result.redirect,
+                message: `✓ Draft updated successfully. Changes saved to draft (not yet published). Preview at: ${previewUrl || 'N/A'}${redirectNote(result.redirect)}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_publish_blog_post_draft': {
+        if (!toolArgs.postId) {
+          throw new McpError(ErrorCode.InvalidParams, 'postId is required');
+        }
+
+        const options: PublishOptions = {};
+        if (toolArgs.publishDate) {
+          options.publishDate = toolArgs.publishDate as string;
+        }
+
+        const result = await hubspotClient.publishBlogPostDraft(
+          toolArgs.postId as string,
+          options,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const post = result.data!;
+        const isScheduled = options.publishDate !== undefined;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                contentId: post.id,
+                liveUrl: post.absoluteUrl,
+                publishDate: post.publishDate,
+                state: post.state,
+                rateLimitStatus: result.rateLimitStatus,
+                message: isScheduled
+                  ? `✓ Blog post scheduled for publishing on ${options.publishDate}. It will go live automatically at the scheduled time.`
+                  : `✓ Blog post published successfully! Now live at: ${post.absoluteUrl}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      // Phase 2: Content creation and file management
+      case 'hubspot_create_blog_post': {
+        if (!toolArgs.name || !toolArgs.slug) {
+          throw new McpError(ErrorCode.InvalidParams, 'name and slug are required');
+        }
+
+        if (toolArgs.blogAuthorId && toolArgs.author) {
+          throw new McpError(ErrorCode.InvalidParams, 'Pass either blogAuthorId or author, not both');
+        }
+
+        const createParams: any = {
+          name: toolArgs.name as string,
+          slug: toolArgs.slug as string
+        };
+
+        // Add optional parameters
+        if (toolArgs.contentGroupId) createParams.contentGroupId = toolArgs.contentGroupId as string;
+        if (toolArgs.blogAuthorId) createParams.blogAuthorId = toolArgs.blogAuthorId as string;
+        if (toolArgs.author) createParams.author = toolArgs.author as string;
+        if (toolArgs.htmlTitle) createParams.htmlTitle = toolArgs.htmlTitle as string;
+        if (toolArgs.postBody) createParams.postBody = toolArgs.postBody as string;
+        if (toolArgs.postSummary) createParams.postSummary = toolArgs.postSummary as string;
+        if (toolArgs.metaDescription) createParams.metaDescription = toolArgs.metaDescription as string;
+        if (toolArgs.tagIds) createParams.tagIds = toolArgs.tagIds as number[];
+        if (toolArgs.tagNames) createParams.tagNames = toolArgs.tagNames as string[];
+        if (toolArgs.createMissingTags) createParams.createMissingTags = toolArgs.createMissingTags as boolean;
+        if (toolArgs.featuredImage) createParams.featuredImage = toolArgs.featuredImage as string;
+        if (toolArgs.featuredImageAltText) createParams.featuredImageAltText = toolArgs.featuredImageAltText as string;
+
+        const result = await hubspotClient.createBlogPost(createParams, { dryRun: toolArgs.dryRun as boolean | undefined });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const post = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(post);
+        const previewUrl = preview?.previewUrl;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                contentId: post.id,
+                previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                post: {
+                  id: post.id,
+                  name: post.name,
+                  slug: post.slug,
+                  state: post.state,
+                  url: post.url
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Blog post created successfully in DRAFT state. Preview at: ${previewUrl || 'N/A'}. Use hubspot_publish_blog_post_draft to publish when ready.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_update_blog_post_content': {
+        if (!toolArgs.postId || !toolArgs.postBody) {
+          throw new McpError(ErrorCode.InvalidParams, 'postId and postBody are required');
+        }
+
+        const contentUpdate: any = {
+          postBody: toolArgs.postBody as string
+        };
+
+        if (toolArgs.postSummary) {
+          contentUpdate.postSummary = toolArgs.postSummary as string;
+        }
+
+        const result = await hubspotClient.updateBlogPostContent(
+          toolArgs.postId as string,
+          contentUpdate,
+          {
+            dryRun: toolArgs.dryRun as boolean | undefined,
+            expectedUpdated: toolArgs.expectedUpdated as string | undefined
+          }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const post = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(post);
+        const previewUrl = preview?.previewUrl;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                contentId: post.id,
+                previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                post: {
+                  id: post.id,
+                  name: post.name,
+                  state: post.state,
+                  updated: post.updated
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Blog post content updated successfully. Changes saved to DRAFT (not yet published). Preview at: ${previewUrl || 'N/A'}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_upload_file': {
+        if (!toolArgs.fileContent && !toolArgs.filePath) {
+          throw new McpError(ErrorCode.InvalidParams, 'fileContent or filePath is required');
+        }
+        if (toolArgs.fileContent && !toolArgs.fileName) {
+          throw new McpError(ErrorCode.InvalidParams, 'fileName is required with fileContent');
+        }
+
+        const uploadParams: any = {};
+        if (toolArgs.fileContent) uploadParams.fileContent = toolArgs.fileContent as string;
+        if (toolArgs.filePath) uploadParams.filePath = toolArgs.filePath as string;
+        if (toolArgs.fileName) uploadParams.fileName = toolArgs.fileName as string;
+
+        if (toolArgs.folderPath) uploadParams.folderPath = toolArgs.folderPath as string;
+        if (toolArgs.access) uploadParams.access = toolArgs.access as 'PUBLIC_INDEXABLE' | 'PUBLIC_NOT_INDEXABLE' | 'PRIVATE';
+        if (toolArgs.ttl) uploadParams.ttl = toolArgs.ttl as string;
+        if (toolArgs.duplicateStrategy) uploadParams.duplicateStrategy = toolArgs.duplicateStrategy as FileDuplicateStrategy;
+        if (toolArgs.imageProcessing) uploadParams.imageProcessing = toolArgs.imageProcessing as ImageProcessingOptions;
+
+        const result = await hubspotClient.uploadFile(uploadParams, { dryRun: toolArgs.dryRun as boolean | undefined });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const file = result.data!;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                file: {
+                  id: file.id,
+                  url: file.url,
+                  name: file.name,
+                  path: file.path,
+                  type: file.type,
+                  size: file.size,
+                  mimeType: file.mimeType,
+                  contentHash: file.contentHash
+                },
+                reused: file.reused,
+                duplicateMatch: file.duplicateMatch,
+                variants: file.variants,
+                srcset: file.srcset,
+                rateLimitStatus: result.rateLimitStatus,
+                message: file.variants && file.variants.length > 1
+                  ? `✓ Uploaded ${file.variants.length} sizes (${file.variants.map(variant => `${variant.width}×${variant.height}`).join(', ')}). Use srcset for responsive images, or this URL on its own: ${file.url}`
+                  : file.reused
+                  ? `✓ This file is already in File Manager (matched by ${file.duplicateMatch === 'hash' ? 'content hash' : 'name and size'}), so nothing was uploaded. Use this URL in your content: ${file.url}`
+                  : `✓ File uploaded successfully! Use this URL in your content: ${file.url}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_search_files': {
+        const result = await hubspotClient.searchFiles({
+          name: toolArgs.name as string | undefined,
+          folderId: toolArgs.folderId as string | undefined,
+          folderPath: toolArgs.folderPath as string | undefined,
+          type: toolArgs.type as FileSearchParams['type'],
+          extension: toolArgs.extension as string | undefined,
+          createdAfter: toolArgs.createdAfter as string | undefined,
+          createdBefore: toolArgs.createdBefore as string | undefined,
+          updatedAfter: toolArgs.updatedAfter as string | undefined,
+          updatedBefore: toolArgs.updatedBefore as string | undefined,
+          sort: toolArgs.sort as string | undefined,
+          limit: toolArgs.limit as number | undefined,
+          after: toolArgs.after as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const files = result.data!.results;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total: result.data!.total,
+                count: files.length,
+                files: files.map(file => ({
+                  id: file.id,
+                  name: file.name,
+                  extension: file.extension,
+                  type: file.type,
+                  url: file.url,
+                  path: file.path,
+                  size: file.size,
+                  width: file.width,
+                  height: file.height,
+                  access: file.access,
+                  updatedAt: file.updatedAt
+                })),
+                nextAfter: result.data!.paging?.next?.after,
+                rateLimitStatus: result.rateLimitStatus
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_get_file': {
+        if (!toolArgs.fileId) {
+          throw new McpError(ErrorCode.InvalidParams, 'fileId is required');
+        }
+
+        const result = await hubspotClient.getFile(toolArgs.fileId as string);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                file: result.data,
+                rateLimitStatus: result.rateLimitStatus
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_list_folders': {
+        const result = await hubspotClient.listFolders({
+          parentFolderId: toolArgs.parentFolderId as string | undefined,
+          parentPath: toolArgs.parentPath as string | undefined,
+          name: toolArgs.name as string | undefined,
+          limit: toolArgs.limit as number | undefined,
+          after: toolArgs.after as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const folders = result.data!.results;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total: result.data!.total,
+                count: folders.length,
+                folders: folders.map(folder => ({
+                  id: folder.id,
+                  name: folder.name,
+                  path: folder.path,
+                  parentFolderId: folder.parentFolderId,
+                  updatedAt: folder.updatedAt
+                })),
+                nextAfter: result.data!.paging?.next?.after,
+                rateLimitStatus: result.rateLimitStatus
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_create_folder': {
+        if (!toolArgs.name) {
+          throw new McpError(ErrorCode.InvalidParams, 'name is required');
+        }
+
+        const result = await hubspotClient.createFolder(
+          {
+            name: toolArgs.name as string,
+            parentFolderId: toolArgs.parentFolderId as string | undefined,
+            parentPath: toolArgs.parentPath as string | undefined
+          },
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const folder = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                folder,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Folder created at ${folder.path}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_update_folder': {
+        if (!toolArgs.folderId) {
+          throw new McpError(ErrorCode.InvalidParams, 'folderId is required');
+        }
+        if (toolArgs.name === undefined && toolArgs.parentFolderId === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide name and/or parentFolderId');
+        }
+
+        const result = await hubspotClient.updateFolder(
+          toolArgs.folderId as string,
+          {
+            name: toolArgs.name as string | undefined,
+            parentFolderId: toolArgs.parentFolderId as string | undefined
+          },
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const folder = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                folder,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Folder is now at ${folder.path}. Files inside it have new URLs.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_replace_file': {
+        if (!toolArgs.fileId) {
+          throw new McpError(ErrorCode.InvalidParams, 'fileId is required');
+        }
+        if (!toolArgs.fileContent && !toolArgs.filePath) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide fileContent or filePath');
+        }
+
+        const result = await hubspotClient.replaceFile(
+          {
+            fileId: toolArgs.fileId as string,
+            fileContent: toolArgs.fileContent as string | undefined,
+            filePath: toolArgs.filePath as string | undefined
+          },
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const { file, previous, contentHash, mimeType } = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                file,
+                previous: {
+                  size: previous.size,
+                  width: previous.width,
+                  height: previous.height,
+                  updatedAt: previous.updatedAt
+                },
+                contentHash,
+                mimeType,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Replaced the content of ${file.url}. The CDN may serve the old version until its cache expires.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_find_file_usages': {
+        if (!toolArgs.fileId && !toolArgs.fileUrl) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide fileId or fileUrl');
+        }
+
+        const result = await hubspotClient.findFileUsages({
+          fileId: toolArgs.fileId as string | undefined,
+          fileUrl: toolArgs.fileUrl as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const report = result.data!;
+        const usedBy = new Set(report.usages.map(usage => `${usage.contentType}:${usage.contentId}`));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                ...report,
+                rateLimitStatus: result.rateLimitStatus,
+                message: report.usages.length > 0
+                  ? `Found ${report.usages.length} reference(s) in ${usedBy.size} post(s)/page(s)`
+                  : '✓ No blog posts or pages reference this file'
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_list_blog_tags': {
+        const searchTerm = toolArgs.searchTerm as string | undefined;
+
+        const result = await hubspotClient.listBlogTags(searchTerm);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const data = result.data!;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total: data.total,
+                count: data.results.length,
+                tags: data.results.map(tag => ({
+                  id: tag.id,
+                  name: tag.name,
+                  slug: tag.slug
+                })),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${data.total} blog tag(s)${searchTerm ? ` matching "${searchTerm}"` : ''}. Use tag IDs when creating or updating blog posts.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_create_blog_tag': {
+        if (!toolArgs.name) {
+          throw new McpError(ErrorCode.InvalidParams, 'name is required');
+        }
+
+        const result = await hubspotClient.createBlogTag(
+          toolArgs.name as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const tag = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                tag: { id: tag.id, name: tag.name, slug: tag.slug },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Blog tag "${tag.name}" created with ID ${tag.id}.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_rename_blog_tag': {
+        if (!toolArgs.tagId || !toolArgs.name) {
+          throw new McpError(ErrorCode.InvalidParams, 'tagId and name are required');
+        }
+
+        const result = await hubspotClient.renameBlogTag(
+          toolArgs.tagId as string,
+          toolArgs.name as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const tag = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                tag: { id: tag.id, name: tag.name, slug: tag.slug },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Blog tag ${tag.id} renamed to "${tag.name}".`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_merge_blog_tags': {
+        if (!Array.isArray(toolArgs.sourceTagIds) || toolArgs.sourceTagIds.length === 0 || !toolArgs.targetTagId) {
+          throw new McpError(ErrorCode.InvalidParams, 'sourceTagIds (non-empty array) and targetTagId are required');
+        }
+
+        const result = await hubspotClient.mergeBlogTags(
+          (toolArgs.sourceTagIds as Array<string | number>).map(String),
+          String(toolArgs.targetTagId),
+          toolArgs.deleteSourceTags === true,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: data.failedPosts.length === 0,
+                target: { id: data.target.id, name: data.target.name },
+                updatedPosts: data.updatedPosts,
+                failedPosts: data.failedPosts,
+                deletedTagIds: data.deletedTagIds,
+                keptTagIds: data.keptTagIds,
+                rateLimitStatus: result.rateLimitStatus,
+                message: data.failedPosts.length === 0
+                  ? `✓ Retagged ${data.updatedPosts.length} post draft(s) with "${data.target.name}".${data.deletedTagIds.length > 0 ? ` Deleted source tag(s) ${data.deletedTagIds.join(', ')}.` : ''}${data.keptTagIds.length > 0 ? ` Kept source tag(s) ${data.keptTagIds.map(kept => kept.tagId).join(', ')} because published posts still show them (see keptTagIds) - delete them after publishing.` : ''} Publish the posts for the change to go live.`
+                  : `⚠️ Retagged ${data.updatedPosts.length} post draft(s), but ${data.failedPosts.length} failed (see failedPosts). Source tags were not deleted. Fix the failures and run the merge again.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_delete_blog_tag': {
+        if (!toolArgs.tagId) {
+          throw new McpError(ErrorCode.InvalidParams, 'tagId is required');
+        }
+
+        const result = await hubspotClient.deleteBlogTag(
+          toolArgs.tagId as string,
+          toolArgs.force === true,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const draftNote = data.updatedPosts.length > 0 ? ` Removed it from ${data.updatedPosts.length} post draft(s).` : '';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: data.failedPosts.length === 0,
+                tag: { id: data.tag.id, name: data.tag.name },
+                deleted: data.deleted,
+                updatedPosts: data.updatedPosts,
+                failedPosts: data.failedPosts,
+                publishedPosts: data.publishedPosts,
+                rateLimitStatus: result.rateLimitStatus,
+                message: data.failedPosts.length > 0
+                  ? `⚠️${draftNote} ${data.failedPosts.length} post(s) failed (see failedPosts), so the tag was not deleted. Fix the failures and run this again.`
+                  : data.deleted
+                    ? `✓ Blog tag "${data.tag.name}" deleted.${draftNote}`
+                    : `✓${draftNote} The tag was NOT deleted yet: ${data.publishedPosts.length} published post(s) still show it live (see publishedPosts). Publish them, then run this again.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_list_blog_authors': {
+        const search = toolArgs.search as string | undefined;
+        let authors: BlogAuthor[];
+        let total: number;
+        let rateLimitStatus;
+
+        if (search) {
+          const result = await hubspotClient.searchBlogAuthors(search);
+          if (!result.success) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    success: false,
+                    error: result.error,
+                    rateLimitStatus: result.rateLimitStatus
+                  }, null, 2)
+                }
+              ]
+            };
+          }
+          authors = result.data!;
+          total = authors.length;
+          rateLimitStatus = result.rateLimitStatus;
+        } else {
+          const result = await hubspotClient.listBlogAuthors(
+            toolArgs.limit as number | undefined,
+            toolArgs.offset as number | undefined
+          );
+          if (!result.success) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    success: false,
+                    error: result.error,
+                    rateLimitStatus: result.rateLimitStatus
+                  }, null, 2)
+                }
+              ]
+            };
+          }
+          authors = result.data!.results;
+          total = result.data!.total;
+          rateLimitStatus = result.rateLimitStatus;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total,
+                count: authors.length,
+                authors: authors.map(author => ({
+                  id: author.id,
+                  fullName: author.fullName,
+                  displayName: author.displayName,
+                  email: author.email,
+                  slug: author.slug
+                })),
+                rateLimitStatus,
+                message: `Found ${total} blog author(s)${search ? ` matching "${search}"` : ''}. Use the author ID as blogAuthorId, or pass the exact name or email as author when creating a blog post.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_get_blog_author': {
+        if (!toolArgs.authorId) {
+          throw new McpError(ErrorCode.InvalidParams, 'authorId is required');
+        }
+
+        const result = await hubspotClient.getBlogAuthor(toolArgs.authorId as string);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                author: result.data,
+                rateLimitStatus: result.rateLimitStatus
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_create_blog_author': {
+        if (!toolArgs.fullName) {
+          throw new McpError(ErrorCode.InvalidParams, 'fullName is required');
+        }
+
+        const createParams: BlogAuthorCreateParams = { fullName: toolArgs.fullName as string };
+        for (const field of ['email', 'bio', 'website', 'twitter', 'facebook', 'linkedin', 'avatar'] as const) {
+          if (toolArgs[field] !== undefined) createParams[field] = toolArgs[field] as string;
+        }
+
+        const result = await hubspotClient.createBlogAuthor(createParams, { dryRun: toolArgs.dryRun as boolean | undefined });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const author = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                author,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Blog author "${author.fullName}" created with ID ${author.id}.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_update_blog_author': {
+        if (!toolArgs.authorId) {
+          throw new McpError(ErrorCode.InvalidParams, 'authorId is required');
+        }
+
+        const updates: BlogAuthorUpdateParams = {};
+        for (const field of ['fullName', 'email', 'bio', 'website', 'twitter', 'facebook', 'linkedin', 'avatar'] as const) {
+          if (toolArgs[field] !== undefined) updates[field] = toolArgs[field] as string;
+        }
+
+        if (Object.keys(updates).length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, 'At least one field to update must be provided');
+        }
+
+        const result = await hubspotClient.updateBlogAuthor(
+          toolArgs.authorId as string,
+          updates,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                author: result.data,
+                updatedFields: Object.keys(updates),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Blog author ${toolArgs.authorId} updated. Changes are live on all of this author's posts.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_get_draft_preview_url': {
+        if (!toolArgs.contentId || !toolArgs.contentType) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentId and contentType are required');
+        }
+
+        const params: any = {
+          contentId: toolArgs.contentId as string,
+          contentType: toolArgs.contentType as 'blog-post' | 'site-page' | 'landing-page'
+        };
+
+        const result = await hubspotClient.getDraftPreviewUrl(params);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                previewUrl: result.data!.previewUrl,
+                domain: result.data!.domain,
+                isSystemDomain: result.data!.isSystemDomain,
+                requiresLogin: result.data!.requiresLogin,
+                rateLimitStatus: result.rateLimitStatus,
+                message: result.data!.previewUrl
+                  ? `✓ Preview URL generated. Review the draft content at: ${result.data!.previewUrl}. ${result.data!.note}`
+                  : `⚠️ No preview URL. ${result.data!.note}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      // Phase 3: Page management and advanced features
+      case 'hubspot_list_pages': {
+        if (!toolArgs.pageType) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageType is required');
+        }
+
+        const params: any = {
+          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
+          limit: toolArgs.limit as number | undefined,
+          offset: toolArgs.offset as number | undefined,
+          state: toolArgs.state as 'DRAFT' | 'PUBLISHED' | 'SCHEDULED' | undefined,
+          templatePath: toolArgs.templatePath as string | undefined,
+          domain: toolArgs.domain as string | undefined,
+          name: toolArgs.name as string | undefined,
+          created: toolArgs.created as string | undefined,
+          updated: toolArgs.updated as string | undefined,
+          archivedInDashboard: toolArgs.archivedInDashboard as boolean | undefined
+        };
+
+        const result = await hubspotClient.listPages(params);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const data = result.data!;
+        const loserVariants = data.results.filter(page => page.abStatus?.endsWith('LOSER_VARIANT')).length;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total: data.total,
+                count: data.results.length,
+                offset: params.offset || 0,
+                limit: params.limit || 20,
+                pages: data.results.map(page => ({
+                  id: page.id,
+                  name: page.name,
+                  slug: page.slug,
+                  state: page.state,
+                  domain: page.domain,
+                  templatePath: page.templatePath,
+                  publishDate: page.publishDate,
+                  created: page.created,
+                  updated: page.updated,
+                  url: page.url,
+                  metaDescription: page.metaDescription,
+                  abStatus: page.abStatus,
+                  abTestId: page.abTestId
+                })),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${data.total} ${params.pageType} matching criteria. Showing ${data.results.length} result(s).${loserVariants > 0 ? ` ⚠️ ${loserVariants} page(s) are losing A/B test variants (abStatus LOSER_VARIANT) - they are no longer served, so don't edit them.` : ''}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_get_page': {
+        if (!toolArgs.pageId || !toolArgs.pageType) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
+        }
+
+        const result = await hubspotClient.getPage(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages'
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const page = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                page: {
+                  id: page.id,
+                  name: page.name,
+                  slug: page.slug,
+                  state: page.state,
+                  currentState: page.currentState,
+                  htmlTitle: page.htmlTitle,
+                  metaDescription: page.metaDescription,
+                  domain: page.domain,
+                  templatePath: page.templatePath,
+                  publishDate: page.publishDate,
+                  created: page.created,
+                  updated: page.updated,
+                  url: page.url,
+                  absoluteUrl: page.absoluteUrl,
+                  currentlyPublished: page.currentlyPublished,
+                  abStatus: page.abStatus,
+                  abTestId: page.abTestId,
+                  mabExperimentId: page.mabExperimentId,
+                  // Include nested structures but with warning
+                  hasLayoutSections: !!page.layoutSections,
+                  hasWidgets: !!page.widgets,
+                  hasWidgetContainers: !!page.widgetContainers
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: '⚠️ Page retrieved successfully. WARNING: This page contains complex nested structures (layoutSections, widgets). Use update_page_metadata to safely update only metadata fields.'
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_update_page_metadata': {
+        if (!toolArgs.pageId || !toolArgs.pageType) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
+        }
+
+        const metadata: any = {};
+        if (toolArgs.name) metadata.name = toolArgs.name as string;
+        if (toolArgs.slug) metadata.slug = toolArgs.slug as string;
+        if (toolArgs.htmlTitle) metadata.htmlTitle = toolArgs.htmlTitle as string;
+        if (toolArgs.metaDescription) metadata.metaDescription = toolArgs.metaDescription as string;
+        if (toolArgs.createRedirect) metadata.createRedirect = toolArgs.createRedirect as boolean;
+
+        const result = await hubspotClient.updatePageMetadata(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages',
+          metadata,
+          {
+            dryRun: toolArgs.dryRun as boolean | undefined,
+            expectedUpdated: toolArgs.expectedUpdated as string | undefined
+          }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const page = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(page);
+        const previewUrl = preview?.previewUrl;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                contentId: page.id,
+                previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                updatedFields: Object.keys(metadata),
+                page: {
+                  id: page.id,
+                  name: page.name,
+                  slug: page.slug,
+                  state: page.state,
+                  htmlTitle: page.htmlTitle,
+                  metaDescription: page.metaDescription,
+                  updated: page.updated
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                redirect: result.redirect,
+                message: `✓ Page metadata updated successfully. Changes saved to draft (not yet published). Preview at: ${previewUrl || 'N/A'}${redirectNote(result.redirect)}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_list_templates': {
+        const result = await hubspotClient.listTemplates();
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                count: data.results?.length || 0,
+                templates: data.results?.map(template => ({
+                  id: template.id,
+                  path: template.path,
+                  label: template.label,
+                  type: template.type,
+                  isAvailableForNewContent: template.isAvailableForNewContent
+                })) || [],
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${data.results?.length || 0} template(s). Use template paths when creating new pages.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_get_source_code': {
+        if (!toolArgs.path) {
+          throw new McpError(ErrorCode.InvalidParams, 'path is required');
+        }
+
+        const environment = (toolArgs.environment as SourceCodeEnvironment) || 'published';
+        const result = toolArgs.metadataOnly
+          ? await hubspotClient.getSourceCodeMetadata(toolArgs.path as string, environment)
+          : await hubspotClient.getSourceCode(toolArgs.path as string, environment);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                environment,
+                ...(toolArgs.metadataOnly ? { metadata: result.data } : result.data as object),
+                rateLimitStatus: result.rateLimitStatus
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_validate_source_code': {
+        if (!toolArgs.path || toolArgs.source === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'path and source are required');
+        }
+
+        const result = await hubspotClient.validateSourceCode(toolArgs.path as string, toolArgs.source as string);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const validation = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                path: validation.path,
+                valid: validation.valid,
+                errors: validation.errors,
+                rateLimitStatus: result.rateLimitStatus,
+                message: validation.valid
+                  ? '✓ Source is valid'
+                  : `Source has ${validation.errors.length} error(s)`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_find_template_usage': {
+        if (!toolArgs.path) {
+          throw new McpError(ErrorCode.InvalidParams, 'path is required');
+        }
+
+        const result = await hubspotClient.findTemplateUsage(toolArgs.path as string);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const usage = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                path: usage.path,
+                pageCount: usage.pages.length,
+                pages: usage.pages,
+                scanned: usage.scanned,
+                rateLimitStatus: result.rateLimitStatus
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_clone_source_code': {
+        if (!toolArgs.sourcePath || !toolArgs.clonePath) {
+          throw new McpError(ErrorCode.InvalidParams, 'sourcePath and clonePath are required');
+        }
+
+        const result = await hubspotClient.cloneSourceCode(
+          toolArgs.sourcePath as string,
+          toolArgs.clonePath as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const originalPages = data.originalUsage?.pages || [];
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                path: data.path,
+                environment: data.environment,
+                clonedFrom: data.clonedFrom,
+                files: data.files,
+                pagesUsingOriginal: originalPages,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Cloned ${data.clonedFrom} to ${data.path} in the draft environment. ${originalPages.length} page(s) still use the original and are unaffected by edits to the clone.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_update_source_code': {
+        if (!toolArgs.path || toolArgs.source === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'path and source are required');
+        }
+
+        const result = await hubspotClient.updateSourceCode(
+          toolArgs.path as string,
+          toolArgs.source as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                path: data.path,
+                environment: data.environment,
+                metadata: data.metadata,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ ${data.path} saved to the draft environment (validated, no pages use it yet).`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_create_page_from_template': {
+        if (!toolArgs.name || !toolArgs.slug || !toolArgs.templatePath) {
+          throw new McpError(ErrorCode.InvalidParams, 'name, slug, and templatePath are required');
+        }
+
+        const createParams: any = {
+          name: toolArgs.name as string,
+          slug: toolArgs.slug as string,
+          templatePath: toolArgs.templatePath as string
+        };
+
+        // Add optional parameters
+        if (toolArgs.domain) createParams.domain = toolArgs.domain as string;
+        if (toolArgs.htmlTitle) createParams.htmlTitle = toolArgs.htmlTitle as string;
+        if (toolArgs.metaDescription) createParams.metaDescription = toolArgs.metaDescription as string;
+
+        const pageType = (toolArgs.pageType as 'site-pages' | 'landing-pages') || 'site-pages';
+
+        const result = await hubspotClient.createPageFromTemplate(createParams, pageType, { dryRun: toolArgs.dryRun as boolean | undefined });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const page = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(page);
+        const previewUrl = preview?.previewUrl;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                contentId: page.id,
+                previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                page: {
+                  id: page.id,
+                  name: page.name,
+                  slug: page.slug,
+                  state: page.state,
+                  templatePath: page.templatePath,
+                  url: page.url
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Page created successfully in DRAFT state. Preview at: ${previewUrl || 'N/A'}. Use hubspot_publish_page_draft or hubspot_schedule_page to publish when ready.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_clone_content': {
+        if (!toolArgs.contentType || !toolArgs.contentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType and contentId are required');
+        }
+
+        const result = await hubspotClient.cloneContent({
+          contentType: toolArgs.contentType as ContentType,
+          contentId: toolArgs.contentId as string,
+          name: toolArgs.name as string | undefined,
+          slug: toolArgs.slug as string | undefined
+        }, { dryRun: toolArgs.dryRun as boolean | undefined });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(data.clone);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                sourceId: data.sourceId,
+                clone: {
+                  id: data.clone.id,
+                  name: data.clone.name,
+                  slug: data.clone.slug,
+                  state: data.clone.state,
+                  updated: data.clone.updated
+                },
+                previewUrl: preview?.previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                structure: data.structure,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Cloned ${toolArgs.contentType} ${data.sourceId} into new DRAFT ${data.clone.id} ("${data.clone.name}") with ${data.structure.totalWidgets} widget(s). Edit it with the widget tools, then publish when ready.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_publish_page_draft': {
+        if (!toolArgs.pageId || !toolArgs.pageType) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
+        }
+
+        const result = await hubspotClient.publishPageDraft(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages',
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const page = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                contentId: page.id,
+                liveUrl: page.absoluteUrl,
+                publishDate: page.publishDate,
+                state: page.state,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Page published successfully! Now live at: ${page.absoluteUrl || page.url || 'N/A'}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_schedule_page': {
+        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.publishDate) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, and publishDate are required');
+        }
+
+        const result = await hubspotClient.schedulePage(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages',
+          toolArgs.publishDate as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                contentId: toolArgs.pageId,
+                publishDate: toolArgs.publishDate,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Page scheduled for publishing on ${toolArgs.publishDate}. It will go live automatically at the scheduled time.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_unpublish_page': {
+        if (!toolArgs.pageId || !toolArgs.pageType) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
+        }
+
+        const result = await hubspotClient.unpublishPage(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages',
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const page = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                contentId: page.id,
+                state: page.state,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Page unpublished and reverted to DRAFT. It is no longer live. Use hubspot_publish_page_draft or hubspot_schedule_page to publish it again.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_create_ab_test_variation': {
+        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.variationName) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, and variationName are required');
+        }
+
+        const result = await hubspotClient.createAbTestVariation(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages',
+          toolArgs.variationName as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(data.variation);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                abTestId: data.variation.abTestId || data.master.abTestId,
+                master: {
+                  id: data.master.id,
+                  name: data.master.name,
+                  abStatus: data.master.abStatus
+                },
+                variation: {
+                  id: data.variation.id,
+                  name: data.variation.name,
+                  abStatus: data.variation.abStatus,
+                  updated: data.variation.updated
+                },
+                previewUrl: preview?.previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                structure: data.structure,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ A/B test variation "${data.variation.name}" (${data.variation.id}) created from "${data.master.name}". Edit the variation with the widget tools using pageId ${data.variation.id}, then publish it to start the test.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_end_ab_test': {
+        if (!toolArgs.pageType || !toolArgs.abTestId || !toolArgs.winnerId) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageType, abTestId, and winnerId are required');
+        }
+
+        const result = await hubspotClient.endAbTest(
+          toolArgs.pageType as 'site-pages' | 'landing-pages',
+          toolArgs.abTestId as string,
+          toolArgs.winnerId as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const winner = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                abTestId: toolArgs.abTestId,
+                winner: {
+                  id: winner.id,
+                  name: winner.name,
+                  abStatus: winner.abStatus,
+                  url: winner.url
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ A/B test ${toolArgs.abTestId} ended. "${winner.name}" (${winner.id}) is the winner; the other page is now a LOSER_VARIANT and should not be edited.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      // Phase 5: Safe webpage content and appearance editing
+      case 'hubspot_get_page_widgets': {
+        if (!toolArgs.pageId || !toolArgs.pageType) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
+        }
+
+        const result = await hubspotClient.getPageContentStructure(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages'
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const structure = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                pageId: structure.pageId,
+                pageName: structure.pageName,
+                updated: structure.updated,
+                totalWidgets: structure.totalWidgets,
+                layoutSections: structure.layoutSections,
+                widgets: structure.widgets.map(w => ({
+                  id: w.id,
+                  name: w.name,
+                  type: w.type,
+                  location: w.location,
+                  hasHtmlContent: w.hasHtmlContent,
+                  hasStyles: w.hasStyles,
+                  hasParams: w.hasParams,
+                  contentPreview: w.contentPreview
+                })),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${structure.totalWidgets} widget(s) across ${structure.layoutSections.length} layout section(s). Use the location information to target specific widgets for updates.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_update_widget_content': {
+        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.sectionName ||
+            toolArgs.rowIndex === undefined || toolArgs.columnIndex === undefined ||
+            toolArgs.widgetIndex === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, sectionName, rowIndex, columnIndex, and widgetIndex are required');
+        }
+
+        if (!toolArgs.html && !toolArgs.styles && !toolArgs.params) {
+          throw new McpError(ErrorCode.InvalidParams, 'At least one of html, styles, or params must be provided');
+        }
+
+        const result = await hubspotClient.updateWidgetContent({
+          pageId: toolArgs.pageId as string,
+          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
+          location: {
+            sectionName: toolArgs.sectionName as string,
+            rowIndex: toolArgs.rowIndex as number,
+            columnIndex: toolArgs.columnIndex as number,
+            widgetIndex: toolArgs.widgetIndex as number
+          },
+          html: toolArgs.html as string | undefined,
+          styles: toolArgs.styles as any,
+          params: toolArgs.params as any
+        }, {
+          dryRun: toolArgs.dryRun as boolean | undefined,
+          expectedUpdated: toolArgs.expectedUpdated as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                pageId: data.page.id,
+                updated: data.page.updated,
+                pageName: data.page.name,
+                previewUrl: data.preview?.previewUrl,
+                previewRequiresLogin: data.preview?.requiresLogin,
+                validation: {
+                  isValid: data.validation.isValid,
+                  widgetCountBefore: data.validation.beforeWidgetCount,
+                  widgetCountAfter: data.validation.afterWidgetCount,
+                  warnings: data.validation.warnings,
+                  errors: data.validation.errors
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Widget updated successfully. Structure validation: ${data.validation.isValid ? 'PASSED' : 'FAILED'}. ${data.validation.warnings.length > 0 ? `Warnings: ${data.validation.warnings.join(', ')}` : 'No warnings.'} Preview at: ${data.preview?.previewUrl || 'N/A'}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_add_widget_to_page': {
+        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.sectionName ||
+            toolArgs.rowIndex === undefined || toolArgs.columnIndex === undefined ||
+            !toolArgs.widgetType || !toolArgs.widgetName) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, sectionName, rowIndex, columnIndex, widgetType, and widgetName are required');
+        }
+
+        const result = await hubspotClient.addWidget({
+          pageId: toolArgs.pageId as string,
+          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
+          location: {
+            sectionName: toolArgs.sectionName as string,
+            rowIndex: toolArgs.rowIndex as number,
+            columnIndex: toolArgs.columnIndex as number
+          },
+          widgetType: toolArgs.widgetType as string,
+          widgetName: toolArgs.widgetName as string,
+          html: toolArgs.html as string | undefined,
+          params: toolArgs.params as any,
+          styles: toolArgs.styles as any
+        }, {
+          dryRun: toolArgs.dryRun as boolean | undefined,
+          expectedUpdated: toolArgs.expectedUpdated as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(data.page);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                pageId: data.page.id,
+                updated: data.page.updated,
+                previewUrl: preview?.previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                widgetLocation: data.widgetLocation,
+                validation: {
+                  isValid: data.validation.isValid,
+                  widgetCountBefore: data.validation.beforeWidgetCount,
+                  widgetCountAfter: data.validation.afterWidgetCount,
+                  warnings: data.validation.warnings,
+                  errors: data.validation.errors
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Widget added successfully at section="${data.widgetLocation.sectionName}", row=${data.widgetLocation.rowIndex}, column=${data.widgetLocation.columnIndex}, widget=${data.widgetLocation.widgetIndex}. Widget count: ${data.validation.beforeWidgetCount} → ${data.validation.afterWidgetCount}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_remove_widget_from_page': {
+        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.sectionName ||
+            toolArgs.rowIndex === undefined || toolArgs.columnIndex === undefined ||
+            toolArgs.widgetIndex === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, sectionName, rowIndex, columnIndex, and widgetIndex are required');
+        }
+
+        const result = await hubspotClient.removeWidget({
+          pageId: toolArgs.pageId as string,
+          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
+          location: {
+            sectionName: toolArgs.sectionName as string,
+            rowIndex: toolArgs.rowIndex as number,
+            columnIndex: toolArgs.columnIndex as number,
+            widgetIndex: toolArgs.widgetIndex as number
+          }
+        }, {
+          dryRun: toolArgs.dryRun as boolean | undefined,
+          expectedUpdated: toolArgs.expectedUpdated as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(data.page);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                pageId: data.page.id,
+                updated: data.page.updated,
+                previewUrl: preview?.previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                validation: {
+                  isValid: data.validation.isValid,
+                  widgetCountBefore: data.validation.beforeWidgetCount,
+                  widgetCountAfter: data.validation.afterWidgetCount,
+                  warnings: data.validation.warnings,
+                  errors: data.validation.errors
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Widget removed successfully. Widget count: ${data.validation.beforeWidgetCount} → ${data.validation.afterWidgetCount}. Validation: ${data.validation.isValid ? 'PASSED' : 'FAILED'}`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_reorder_widget': {
+        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.fromSectionName ||
+            toolArgs.fromRowIndex === undefined || toolArgs.fromColumnIndex === undefined ||
+            toolArgs.fromWidgetIndex === undefined || toolArgs.toWidgetIndex === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, fromSectionName, fromRowIndex, fromColumnIndex, fromWidgetIndex, and toWidgetIndex are required');
+        }
+
+        const fromLocation = {
+          sectionName: toolArgs.fromSectionName as string,
+          rowIndex: toolArgs.fromRowIndex as number,
+          columnIndex: toolArgs.fromColumnIndex as number,
+          widgetIndex: toolArgs.fromWidgetIndex as number
+        };
+
+        const result = await hubspotClient.reorderWidget({
+          pageId: toolArgs.pageId as string,
+          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
+          fromLocation,
+          toLocation: {
+            sectionName: (toolArgs.toSectionName as string | undefined) ?? fromLocation.sectionName,
+            rowIndex: (toolArgs.toRowIndex as number | undefined) ?? fromLocation.rowIndex,
+            columnIndex: (toolArgs.toColumnIndex as number | undefined) ?? fromLocation.columnIndex,
+            widgetIndex: toolArgs.toWidgetIndex as number
+          }
+        }, {
+          dryRun: toolArgs.dryRun as boolean | undefined,
+          expectedUpdated: toolArgs.expectedUpdated as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(data.page);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                pageId: data.page.id,
+                updated: data.page.updated,
+                previewUrl: preview?.previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                fromLocation,
+                widgetLocation: data.widgetLocation,
+                validation: {
+                  isValid: data.validation.isValid,
+                  widgetCountBefore: data.validation.beforeWidgetCount,
+                  widgetCountAfter: data.validation.afterWidgetCount,
+                  warnings: data.validation.warnings,
+                  errors: data.validation.errors
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Widget moved successfully to section="${data.widgetLocation.sectionName}", row=${data.widgetLocation.rowIndex}, column=${data.widgetLocation.columnIndex}, widget=${data.widgetLocation.widgetIndex}. Widget count unchanged: ${data.validation.afterWidgetCount}. Other widgets in the affected columns have shifted - re-run hubspot_get_page_widgets before further edits.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      // Revision history
+      case 'hubspot_list_revisions': {
+        if (!toolArgs.contentType || !toolArgs.contentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType and contentId are required');
+        }
+
+        const result = await hubspotClient.listRevisions({
+          contentType: toolArgs.contentType as ContentType,
+          contentId: toolArgs.contentId as string,
+          limit: (toolArgs.limit as number | undefined) || 20,
+          after: toolArgs.after as string | undefined
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                total: data.total,
+                count: data.results.length,
+                nextAfter: data.paging?.next?.after,
+                revisions: data.results.map(revision => ({
+                  id: revision.id,
+                  updatedAt: revision.updatedAt,
+                  user: revision.user,
+                  name: revision.object?.name,
+                  state: revision.object?.state
+                })),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${data.total} revision(s). Use hubspot_diff_revisions to compare a revision with the current draft.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_get_revision': {
+        if (!toolArgs.contentType || !toolArgs.contentId || !toolArgs.revisionId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType, contentId, and revisionId are required');
+        }
+
+        const result = await hubspotClient.getRevision(
+          toolArgs.contentType as ContentType,
+          toolArgs.contentId as string,
+          toolArgs.revisionId as string
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const revision = result.data!;
+        const snapshot: any = revision.object || {};
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                revision: {
+                  id: revision.id,
+                  updatedAt: revision.updatedAt,
+                  user: revision.user
+                },
+                content: {
+                  id: snapshot.id,
+                  name: snapshot.name,
+                  slug: snapshot.slug,
+                  state: snapshot.state,
+                  htmlTitle: snapshot.htmlTitle,
+                  metaDescription: snapshot.metaDescription,
+                  postBody: snapshot.postBody,
+                  postSummary: snapshot.postSummary,
+                  featuredImage: snapshot.featuredImage,
+                  templatePath: snapshot.templatePath,
+                  updated: snapshot.updated
+                },
+                widgets: hubspotClient.getContentStructure(snapshot).widgets,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Revision ${revision.id} retrieved successfully.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_diff_revisions': {
+        if (!toolArgs.contentType || !toolArgs.contentId || !toolArgs.fromRevisionId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType, contentId, and fromRevisionId are required');
+        }
+
+        const result = await hubspotClient.diffRevisions(
+          toolArgs.contentType as ContentType,
+          toolArgs.contentId as string,
+          toolArgs.fromRevisionId as string,
+          toolArgs.toRevisionId as string | undefined
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
 
+        const data = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                connection: connectionInfo,
-                scopes: data.scopes || [],
-                rateLimitStatus: {
-                  dailyRemaining: rateLimitStatus.dailyRemaining,
-                  burstRemaining: rateLimitStatus.burstRemaining,
-                  dailyPercentUsed: `${rateLimitStatus.dailyPercentUsed.toFixed(1)}%`,
-                  burstPercentUsed: `${rateLimitStatus.burstPercentUsed.toFixed(1)}%`
+                from: data.from,
+                to: data.to,
+                hasChanges: data.diff.hasChanges,
+                fieldChanges: data.diff.fieldChanges,
+                widgetChanges: data.diff.widgetChanges,
+                rateLimitStatus: result.rateLimitStatus,
+                message: data.diff.hasChanges
+                  ? `Found ${data.diff.fieldChanges.length} changed field(s) and ${data.diff.widgetChanges.length} changed widget(s) between ${data.from} and ${data.to}.`
+                  : `No differences between ${data.from} and ${data.to}.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_restore_revision': {
+        if (!toolArgs.contentType || !toolArgs.contentId || !toolArgs.revisionId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType, contentId, and revisionId are required');
+        }
+
+        const result = await hubspotClient.restoreRevision(
+          toolArgs.contentType as ContentType,
+          toolArgs.contentId as string,
+          toolArgs.revisionId as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const restored = data.content;
+        const preview = hubspotClient.buildPreviewUrl(restored);
+        const previewUrl = preview?.previewUrl;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                contentId: restored.id,
+                revisionId: toolArgs.revisionId,
+                previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                content: {
+                  id: restored.id,
+                  name: restored.name,
+                  slug: restored.slug,
+                  state: restored.state,
+                  updated: restored.updated
                 },
-                message: 'Authentication successful! Your HubSpot connection is active.'
+                ...(data.validation && {
+                  validation: {
+                    isValid: data.validation.isValid,
+                    widgetCountBefore: data.validation.beforeWidgetCount,
+                    widgetCountAfter: data.validation.afterWidgetCount,
+                    warnings: data.validation.warnings,
+                    errors: data.validation.errors
+                  }
+                }),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Revision ${toolArgs.revisionId} restored to DRAFT (not yet published). Preview at: ${previewUrl || 'N/A'}`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_list_blog_posts': {
-        const params: BlogPostListParams = {
-          limit: toolArgs.limit as number | undefined,
-          offset: toolArgs.offset as number | undefined,
-          state: toolArgs.state as 'DRAFT' | 'PUBLISHED' | 'SCHEDULED' | undefined,
-          authorName: toolArgs.authorName as string | undefined,
-          name: toolArgs.name as string | undefined,
-          created: toolArgs.created as string | undefined,
-          updated: toolArgs.updated as string | undefined,
-          archivedInDashboard: toolArgs.archivedInDashboard as boolean | undefined
+      // Undo journal
+      case 'hubspot_list_recent_operations': {
+        const result = await hubspotClient.listRecentOperations(
+          (toolArgs.limit as number | undefined) || 20,
+          toolArgs.contentId as string | undefined
+        );
+
+        const entries = result.data || [];
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                count: entries.length,
+                operations: entries.map(entry => ({
+                  operationId: entry.id,
+                  operation: entry.operation,
+                  contentType: entry.contentType,
+                  contentId: entry.contentId,
+                  contentName: entry.beforeState?.name,
+                  timestamp: entry.timestamp,
+                  details: entry.details,
+                  undoneAt: entry.undoneAt
+                })),
+                rateLimitStatus: result.rateLimitStatus,
+                message: `Found ${entries.length} journaled operation(s). Use hubspot_undo_operation with an operationId to revert the draft to its state before that operation.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_undo_operation': {
+        if (!toolArgs.operationId) {
+          throw new McpError(ErrorCode.InvalidParams, 'operationId is required');
+        }
+
+        const result = await hubspotClient.undoOperation(toolArgs.operationId as string, { dryRun: toolArgs.dryRun as boolean | undefined });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        const reverted = data.content;
+        const preview = hubspotClient.buildPreviewUrl(reverted);
+        const previewUrl = preview?.previewUrl;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                undoneOperationId: data.entry.id,
+                undoneOperation: data.entry.operation,
+                contentId: reverted.id,
+                previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                ...(data.validation && {
+                  validation: {
+                    isValid: data.validation.isValid,
+                    widgetCountBefore: data.validation.beforeWidgetCount,
+                    widgetCountAfter: data.validation.afterWidgetCount,
+                    warnings: data.validation.warnings,
+                    errors: data.validation.errors
+                  }
+                }),
+                redirect: data.redirect,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Operation ${data.entry.id} (${data.entry.operation}) undone. Draft reverted to its state from ${data.entry.timestamp} (not yet published). Preview at: ${previewUrl || 'N/A'}` +
+                  (data.redirect
+                    ? data.redirect.deleted
+                      ? ` The 301 redirect ${data.redirect.id} created by the slug change was deleted.`
+                      : ` ⚠️ The 301 redirect ${data.redirect.id} created by the slug change is still there (${data.redirect.error?.message}). Remove it with hubspot_delete_url_redirect.`
+                    : '')
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_reset_draft': {
+        if (!toolArgs.contentType || !toolArgs.contentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType and contentId are required');
+        }
+
+        if (toolArgs.confirm !== true && toolArgs.dryRun !== true) {
+          throw new McpError(ErrorCode.InvalidParams, 'confirm must be true to reset a draft. This discards all unpublished changes.');
+        }
+
+        const result = await hubspotClient.resetDraft(
+          toolArgs.contentType as ContentType,
+          toolArgs.contentId as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const discarded: any = result.data!.discardedDraft;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                contentId: toolArgs.contentId,
+                discardedDraft: {
+                  name: discarded.name,
+                  slug: discarded.slug,
+                  updated: discarded.updated,
+                  htmlTitle: discarded.htmlTitle,
+                  metaDescription: discarded.metaDescription,
+                  postBodyLength: discarded.postBody?.length,
+                  totalWidgets: hubspotClient.getContentStructure(discarded).totalWidgets
+                },
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Draft reset to match the live version. The discarded draft was saved to the undo journal - use hubspot_undo_operation with operationId "${result.operationId}" to bring it back.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_archive_content': {
+        if (!toolArgs.contentType || !toolArgs.contentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType and contentId are required');
+        }
+
+        const archived = toolArgs.archived !== false;
+        const result = await hubspotClient.archiveContent(
+          toolArgs.contentType as ContentType,
+          toolArgs.contentId as string,
+          archived,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const content = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                contentId: content.id,
+                name: content.name,
+                archivedInDashboard: content.archivedInDashboard,
+                state: content.state,
+                rateLimitStatus: result.rateLimitStatus,
+                message: archived
+                  ? `✓ "${content.name}" archived in the dashboard. It is still live at its URL if published - use hubspot_delete_content to remove it.`
+                  : `✓ "${content.name}" unarchived.`
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'hubspot_delete_content': {
+        if (!toolArgs.contentType || !toolArgs.contentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType and contentId are required');
+        }
+
+        const result = await hubspotClient.deleteContent(
+          toolArgs.contentType as ContentType,
+          toolArgs.contentId as string,
+          toolArgs.confirmationToken as string | undefined,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                operationId: result.operationId,
+                deleted: {
+                  id: data.deleted.id,
+                  name: data.deleted.name,
+                  slug: data.deleted.slug,
+                  url: data.deleted.url
+                },
+                inboundLinks: data.inboundLinks.references,
+                scanned: data.inboundLinks.scanned,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ "${data.deleted.name}" deleted. ${data.inboundLinks.references.length > 0 ? `${data.inboundLinks.references.length} inbound link(s) now point to a missing page - fix them or add a redirect. ` : ''}The full object was exported to the journal as operation "${result.operationId}" (it cannot be undone through the API).`
+              }, null, 2)
+            }
+          ]
         };
+      }
 
-        const result = await hubspotClient.listBlogPosts(params);
+      case 'hubspot_list_url_redirects': {
+        const result = await hubspotClient.listUrlRedirects(
+          (toolArgs.limit as number) || 100,
+          toolArgs.after as string | undefined
+        );
 
         if (!result.success) {
           return {
@@ -749,44 +5493,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const data = result.data!;
+        const redirects = result.data!.results;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                total: data.total,
-                count: data.results.length,
-                offset: params.offset || 0,
-                limit: params.limit || 20,
-                posts: data.results.map(post => ({
-                  id: post.id,
-                  name: post.name,
-                  slug: post.slug,
-                  state: post.state,
-                  authorName: post.authorName,
-                  publishDate: post.publishDate,
-                  created: post.created,
-                  updated: post.updated,
-                  url: post.url,
-                  metaDescription: post.metaDescription,
-                  featuredImage: post.featuredImage
+                total: result.data!.total,
+                count: redirects.length,
+                redirects: redirects.map(redirect => ({
+                  id: redirect.id,
+                  routePrefix: redirect.routePrefix,
+                  destination: redirect.destination,
+                  redirectStyle: redirect.redirectStyle,
+                  isOnlyAfterNotFound: redirect.isOnlyAfterNotFound,
+                  isPattern: redirect.isPattern,
+                  updated: redirect.updated
                 })),
-                rateLimitStatus: result.rateLimitStatus,
-                message: `Found ${data.total} blog post(s) matching criteria. Showing ${data.results.length} result(s).`
+                nextAfter: result.data!.paging?.next?.after,
+                rateLimitStatus: result.rateLimitStatus
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_get_blog_post': {
-        if (!toolArgs.postId) {
-          throw new McpError(ErrorCode.InvalidParams, 'postId is required');
+      case 'hubspot_get_url_redirect': {
+        if (!toolArgs.redirectId) {
+          throw new McpError(ErrorCode.InvalidParams, 'redirectId is required');
         }
 
-        const result = await hubspotClient.getBlogPost(toolArgs.postId as string);
+        const result = await hubspotClient.getUrlRedirect(toolArgs.redirectId as string);
 
         if (!result.success) {
           return {
@@ -803,61 +5541,29 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const post = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                post: {
-                  id: post.id,
-                  name: post.name,
-                  slug: post.slug,
-                  state: post.state,
-                  currentState: post.currentState,
-                  postBody: post.postBody,
-                  metaDescription: post.metaDescription,
-                  htmlTitle: post.htmlTitle,
-                  featuredImage: post.featuredImage,
-                  featuredImageAltText: post.featuredImageAltText,
-                  authorName: post.authorName,
-                  blogAuthorId: post.blogAuthorId,
-                  tagIds: post.tagIds,
-                  publishDate: post.publishDate,
-                  created: post.created,
-                  updated: post.updated,
-                  url: post.url,
-                  absoluteUrl: post.absoluteUrl,
-                  currentlyPublished: post.currentlyPublished
-                },
-                rateLimitStatus: result.rateLimitStatus,
-                message: 'Blog post retrieved successfully.'
+                redirect: result.data,
+                rateLimitStatus: result.rateLimitStatus
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_update_blog_post_metadata': {
-        if (!toolArgs.postId) {
-          throw new McpError(ErrorCode.InvalidParams, 'postId is required');
+      case 'hubspot_create_url_redirect': {
+        if (!toolArgs.routePrefix || !toolArgs.destination) {
+          throw new McpError(ErrorCode.InvalidParams, 'routePrefix and destination are required');
         }
 
-        const metadata: BlogPostUpdateMetadata = {};
-        if (toolArgs.name) metadata.name = toolArgs.name as string;
-        if (toolArgs.slug) metadata.slug = toolArgs.slug as string;
-        if (toolArgs.metaDescription) metadata.metaDescription = toolArgs.metaDescription as string;
-        if (toolArgs.htmlTitle) metadata.htmlTitle = toolArgs.htmlTitle as string;
-        if (toolArgs.featuredImage) metadata.featuredImage = toolArgs.featuredImage as string;
-        if (toolArgs.featuredImageAltText) metadata.featuredImageAltText = toolArgs.featuredImageAltText as string;
-        if (toolArgs.blogAuthorId) metadata.blogAuthorId = toolArgs.blogAuthorId as string;
-        if (toolArgs.authorName) metadata.authorName = toolArgs.authorName as string;
-        if (toolArgs.tagIds) metadata.tagIds = toolArgs.tagIds as number[];
-
-        const result = await hubspotClient.updateBlogPostMetadata(
-          toolArgs.postId as string,
-          metadata
+        const { dryRun, ...params } = toolArgs;
+        const result = await hubspotClient.createUrlRedirect(
+          params as unknown as UrlRedirectCreateParams,
+          { dryRun: dryRun as boolean | undefined }
         );
 
         if (!result.success) {
@@ -875,50 +5581,36 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const post = result.data!;
-        const previewUrl = post.url ? `${post.url}?preview_key=${post.previewKey || 'draft'}` : undefined;
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
 
+        const redirect = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                contentId: post.id,
-                previewUrl,
-                updatedFields: Object.keys(metadata),
-                post: {
-                  id: post.id,
-                  name: post.name,
-                  slug: post.slug,
-                  state: post.state,
-                  metaDescription: post.metaDescription,
-                  htmlTitle: post.htmlTitle,
-                  featuredImage: post.featuredImage,
-                  featuredImageAltText: post.featuredImageAltText,
-                  updated: post.updated
-                },
+                redirect,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Draft updated successfully. Changes saved to draft (not yet published). Preview at: ${previewUrl || 'N/A'}`
+                message: `✓ ${redirect.redirectStyle} redirect created: ${redirect.routePrefix} → ${redirect.destination} (live now)`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_publish_blog_post_draft': {
-        if (!toolArgs.postId) {
-          throw new McpError(ErrorCode.InvalidParams, 'postId is required');
-        }
-
-        const options: PublishOptions = {};
-        if (toolArgs.publishDate) {
-          options.publishDate = toolArgs.publishDate as string;
+      case 'hubspot_update_url_redirect': {
+        if (!toolArgs.redirectId) {
+          throw new McpError(ErrorCode.InvalidParams, 'redirectId is required');
         }
 
-        const result = await hubspotClient.publishBlogPostDraft(
-          toolArgs.postId as string,
-          options
+        const { redirectId, dryRun, ...updates } = toolArgs;
+        const result = await hubspotClient.updateUrlRedirect(
+          redirectId as string,
+          updates as UrlRedirectUpdateParams,
+          { dryRun: dryRun as boolean | undefined }
         );
 
         if (!result.success) {
@@ -936,52 +5628,36 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const post = result.data!;
-        const isScheduled = options.publishDate !== undefined;
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
 
+        const redirect = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                contentId: post.id,
-                liveUrl: post.absoluteUrl,
-                publishDate: post.publishDate,
-                state: post.state,
+                redirect,
+                updatedFields: Object.keys(updates),
                 rateLimitStatus: result.rateLimitStatus,
-                message: isScheduled
-                  ? `✓ Blog post scheduled for publishing on ${options.publishDate}. It will go live automatically at the scheduled time.`
-                  : `✓ Blog post published successfully! Now live at: ${post.absoluteUrl}`
+                message: `✓ Redirect updated: ${redirect.routePrefix} → ${redirect.destination} (live now)`
               }, null, 2)
             }
           ]
         };
       }
 
-      // Phase 2: Content creation and file management
-      case 'hubspot_create_blog_post': {
-        if (!toolArgs.name || !toolArgs.slug) {
-          throw new McpError(ErrorCode.InvalidParams, 'name and slug are required');
+      case 'hubspot_delete_url_redirect': {
+        if (!toolArgs.redirectId) {
+          throw new McpError(ErrorCode.InvalidParams, 'redirectId is required');
         }
 
-        const createParams: any = {
-          name: toolArgs.name as string,
-          slug: toolArgs.slug as string
-        };
-
-        // Add optional parameters
-        if (toolArgs.contentGroupId) createParams.contentGroupId = toolArgs.contentGroupId as string;
-        if (toolArgs.blogAuthorId) createParams.blogAuthorId = toolArgs.blogAuthorId as string;
-        if (toolArgs.htmlTitle) createParams.htmlTitle = toolArgs.htmlTitle as string;
-        if (toolArgs.postBody) createParams.postBody = toolArgs.postBody as string;
-        if (toolArgs.postSummary) createParams.postSummary = toolArgs.postSummary as string;
-        if (toolArgs.metaDescription) createParams.metaDescription = toolArgs.metaDescription as string;
-        if (toolArgs.tagIds) createParams.tagIds = toolArgs.tagIds as number[];
-        if (toolArgs.featuredImage) createParams.featuredImage = toolArgs.featuredImage as string;
-        if (toolArgs.featuredImageAltText) createParams.featuredImageAltText = toolArgs.featuredImageAltText as string;
-
-        const result = await hubspotClient.createBlogPost(createParams);
+        const result = await hubspotClient.deleteUrlRedirect(
+          toolArgs.redirectId as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
 
         if (!result.success) {
           return {
@@ -998,49 +5674,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const post = result.data!;
-        const previewUrl = post.url ? `${post.url}?hs_preview=${post.previewKey || 'draft'}` : undefined;
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
 
+        const redirect = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                contentId: post.id,
-                previewUrl,
-                post: {
-                  id: post.id,
-                  name: post.name,
-                  slug: post.slug,
-                  state: post.state,
-                  url: post.url
-                },
+                deleted: redirect,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Blog post created successfully in DRAFT state. Preview at: ${previewUrl || 'N/A'}. Use hubspot_publish_blog_post_draft to publish when ready.`
+                message: `✓ Redirect ${redirect.routePrefix} → ${redirect.destination} deleted. The deleted settings are included above if you need to recreate it.`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_update_blog_post_content': {
-        if (!toolArgs.postId || !toolArgs.postBody) {
-          throw new McpError(ErrorCode.InvalidParams, 'postId and postBody are required');
-        }
-
-        const contentUpdate: any = {
-          postBody: toolArgs.postBody as string
-        };
-
-        if (toolArgs.postSummary) {
-          contentUpdate.postSummary = toolArgs.postSummary as string;
-        }
-
-        const result = await hubspotClient.updateBlogPostContent(
-          toolArgs.postId as string,
-          contentUpdate
-        );
+      case 'hubspot_list_hubdb_tables': {
+        const result = await hubspotClient.listHubDbTables(toolArgs.draft === true);
 
         if (!result.success) {
           return {
@@ -1057,46 +5712,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const post = result.data!;
-        const previewUrl = post.url ? `${post.url}?hs_preview=${post.previewKey || 'draft'}` : undefined;
-
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                contentId: post.id,
-                previewUrl,
-                post: {
-                  id: post.id,
-                  name: post.name,
-                  state: post.state,
-                  updated: post.updated
-                },
-                rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Blog post content updated successfully. Changes saved to DRAFT (not yet published). Preview at: ${previewUrl || 'N/A'}`
+                total: result.data!.total,
+                tables: result.data!.results.map(table => ({
+                  id: table.id,
+                  name: table.name,
+                  label: table.label,
+                  rowCount: table.rowCount,
+                  published: table.published,
+                  useForPages: table.useForPages,
+                  updatedAt: table.updatedAt
+                })),
+                rateLimitStatus: result.rateLimitStatus
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_upload_file': {
-        if (!toolArgs.fileContent || !toolArgs.fileName) {
-          throw new McpError(ErrorCode.InvalidParams, 'fileContent and fileName are required');
+      case 'hubspot_get_hubdb_table': {
+        if (!toolArgs.tableIdOrName) {
+          throw new McpError(ErrorCode.InvalidParams, 'tableIdOrName is required');
         }
 
-        const uploadParams: any = {
-          fileContent: toolArgs.fileContent as string,
-          fileName: toolArgs.fileName as string
-        };
-
-        if (toolArgs.folderPath) uploadParams.folderPath = toolArgs.folderPath as string;
-        if (toolArgs.access) uploadParams.access = toolArgs.access as 'PUBLIC_INDEXABLE' | 'PUBLIC_NOT_INDEXABLE' | 'PRIVATE';
-        if (toolArgs.ttl) uploadParams.ttl = toolArgs.ttl as string;
-
-        const result = await hubspotClient.uploadFile(uploadParams);
+        const result = await hubspotClient.getHubDbTable(
+          toolArgs.tableIdOrName as string,
+          toolArgs.draft === true
+        );
 
         if (!result.success) {
           return {
@@ -1113,34 +5760,50 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const file = result.data!;
-
+        const table = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                file: {
-                  id: file.id,
-                  url: file.url,
-                  name: file.name,
-                  path: file.path,
-                  type: file.type,
-                  size: file.size
+                table: {
+                  id: table.id,
+                  name: table.name,
+                  label: table.label,
+                  rowCount: table.rowCount,
+                  published: table.published,
+                  publishedAt: table.publishedAt,
+                  useForPages: table.useForPages,
+                  updatedAt: table.updatedAt
                 },
-                rateLimitStatus: result.rateLimitStatus,
-                message: `✓ File uploaded successfully! Use this URL in your content: ${file.url}`
+                columns: (table.columns || []).map(column => ({
+                  name: column.name,
+                  label: column.label,
+                  type: column.type,
+                  ...(column.options && { options: column.options.map(option => option.name) }),
+                  ...(column.foreignTableId && { foreignTableId: column.foreignTableId })
+                })),
+                rateLimitStatus: result.rateLimitStatus
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_list_blog_tags': {
-        const searchTerm = toolArgs.searchTerm as string | undefined;
+      case 'hubspot_list_hubdb_rows': {
+        if (!toolArgs.tableIdOrName) {
+          throw new McpError(ErrorCode.InvalidParams, 'tableIdOrName is required');
+        }
 
-        const result = await hubspotClient.listBlogTags(searchTerm);
+        const result = await hubspotClient.listHubDbRows(toolArgs.tableIdOrName as string, {
+          filters: toolArgs.filters as HubDbRowFilter[] | undefined,
+          sort: toolArgs.sort as string | undefined,
+          properties: toolArgs.properties as string[] | undefined,
+          limit: toolArgs.limit as number | undefined,
+          after: toolArgs.after as string | undefined,
+          draft: toolArgs.draft === true
+        });
 
         if (!result.success) {
           return {
@@ -1157,40 +5820,44 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const data = result.data!;
-
+        const rows = result.data!.results;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                total: data.total,
-                count: data.results.length,
-                tags: data.results.map(tag => ({
-                  id: tag.id,
-                  name: tag.name,
-                  slug: tag.slug
+                total: result.data!.total,
+                count: rows.length,
+                rows: rows.map(row => ({
+                  id: row.id,
+                  ...(row.path !== undefined && { path: row.path }),
+                  ...(row.name !== undefined && { name: row.name }),
+                  values: row.values,
+                  updatedAt: row.updatedAt
                 })),
-                rateLimitStatus: result.rateLimitStatus,
-                message: `Found ${data.total} blog tag(s)${searchTerm ? ` matching "${searchTerm}"` : ''}. Use tag IDs when creating or updating blog posts.`
+                nextAfter: result.data!.paging?.next?.after,
+                rateLimitStatus: result.rateLimitStatus
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_get_draft_preview_url': {
-        if (!toolArgs.contentId || !toolArgs.contentType) {
-          throw new McpError(ErrorCode.InvalidParams, 'contentId and contentType are required');
+      case 'hubspot_create_hubdb_row': {
+        if (!toolArgs.tableIdOrName || !toolArgs.values) {
+          throw new McpError(ErrorCode.InvalidParams, 'tableIdOrName and values are required');
         }
 
-        const params: any = {
-          contentId: toolArgs.contentId as string,
-          contentType: toolArgs.contentType as 'blog-post' | 'site-page' | 'landing-page'
-        };
-
-        const result = await hubspotClient.getDraftPreviewUrl(params);
+        const result = await hubspotClient.createHubDbRow(
+          toolArgs.tableIdOrName as string,
+          {
+            values: toolArgs.values as Record<string, unknown>,
+            path: toolArgs.path as string | undefined,
+            name: toolArgs.name as string | undefined
+          },
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
 
         if (!result.success) {
           return {
@@ -1207,41 +5874,91 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                previewUrl: result.data!.previewUrl,
+                tableId: data.tableId,
+                row: data.row,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Preview URL generated. Review the draft content at: ${result.data!.previewUrl}`
+                message: `✓ Row ${data.row.id} added to the draft table (not yet published). Use hubspot_publish_hubdb_table to make it live.`
               }, null, 2)
             }
           ]
         };
       }
 
-      // Phase 3: Page management and advanced features
-      case 'hubspot_list_pages': {
-        if (!toolArgs.pageType) {
-          throw new McpError(ErrorCode.InvalidParams, 'pageType is required');
+      case 'hubspot_update_hubdb_row': {
+        if (!toolArgs.tableIdOrName || !toolArgs.rowId) {
+          throw new McpError(ErrorCode.InvalidParams, 'tableIdOrName and rowId are required');
         }
 
-        const params: any = {
-          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
-          limit: toolArgs.limit as number | undefined,
-          offset: toolArgs.offset as number | undefined,
-          state: toolArgs.state as 'DRAFT' | 'PUBLISHED' | 'SCHEDULED' | undefined,
-          templatePath: toolArgs.templatePath as string | undefined,
-          domain: toolArgs.domain as string | undefined,
-          name: toolArgs.name as string | undefined,
-          created: toolArgs.created as string | undefined,
-          updated: toolArgs.updated as string | undefined,
-          archivedInDashboard: toolArgs.archivedInDashboard as boolean | undefined
+        const updates: Partial<HubDbRowWrite> = {};
+        if (toolArgs.values) updates.values = toolArgs.values as Record<string, unknown>;
+        if (toolArgs.path !== undefined) updates.path = toolArgs.path as string;
+        if (toolArgs.name !== undefined) updates.name = toolArgs.name as string;
+
+        const result = await hubspotClient.updateHubDbRow(
+          toolArgs.tableIdOrName as string,
+          toolArgs.rowId as string,
+          updates,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: result.error,
+                  rateLimitStatus: result.rateLimitStatus
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const data = result.data!;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                tableId: data.tableId,
+                before: data.before,
+                after: data.row,
+                rateLimitStatus: result.rateLimitStatus,
+                message: `✓ Row ${data.row.id} updated in the draft table (not yet published). Use hubspot_publish_hubdb_table to make it live.`
+              }, null, 2)
+            }
+          ]
         };
+      }
 
-        const result = await hubspotClient.listPages(params);
+      case 'hubspot_delete_hubdb_row': {
+        if (!toolArgs.tableIdOrName || !toolArgs.rowId) {
+          throw new McpError(ErrorCode.InvalidParams, 'tableIdOrName and rowId are required');
+        }
+
+        const result = await hubspotClient.deleteHubDbRow(
+          toolArgs.tableIdOrName as string,
+          toolArgs.rowId as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
 
         if (!result.success) {
           return {
@@ -1258,6 +5975,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
         const data = result.data!;
         return {
           content: [
@@ -1265,39 +5986,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                total: data.total,
-                count: data.results.length,
-                offset: params.offset || 0,
-                limit: params.limit || 20,
-                pages: data.results.map(page => ({
-                  id: page.id,
-                  name: page.name,
-                  slug: page.slug,
-                  state: page.state,
-                  domain: page.domain,
-                  templatePath: page.templatePath,
-                  publishDate: page.publishDate,
-                  created: page.created,
-                  updated: page.updated,
-                  url: page.url,
-                  metaDescription: page.metaDescription
-                })),
+                tableId: data.tableId,
+                deleted: data.row,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `Found ${data.total} ${params.pageType} matching criteria. Showing ${data.results.length} result(s).`
+                message: `✓ Row ${data.row.id} deleted from the draft table. It stays live until you publish with hubspot_publish_hubdb_table.`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_get_page': {
-        if (!toolArgs.pageId || !toolArgs.pageType) {
-          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
+      case 'hubspot_publish_hubdb_table': {
+        if (!toolArgs.tableIdOrName) {
+          throw new McpError(ErrorCode.InvalidParams, 'tableIdOrName is required');
         }
 
-        const result = await hubspotClient.getPage(
-          toolArgs.pageId as string,
-          toolArgs.pageType as 'site-pages' | 'landing-pages'
+        const result = await hubspotClient.publishHubDbTable(
+          toolArgs.tableIdOrName as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
         );
 
         if (!result.success) {
@@ -1315,58 +6021,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const page = result.data!;
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const { table, publishedRowCountBefore } = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                page: {
-                  id: page.id,
-                  name: page.name,
-                  slug: page.slug,
-                  state: page.state,
-                  currentState: page.currentState,
-                  htmlTitle: page.htmlTitle,
-                  metaDescription: page.metaDescription,
-                  domain: page.domain,
-                  templatePath: page.templatePath,
-                  publishDate: page.publishDate,
-                  created: page.created,
-                  updated: page.updated,
-                  url: page.url,
-                  absoluteUrl: page.absoluteUrl,
-                  currentlyPublished: page.currentlyPublished,
-                  // Include nested structures but with warning
-                  hasLayoutSections: !!page.layoutSections,
-                  hasWidgets: !!page.widgets,
-                  hasWidgetContainers: !!page.widgetContainers
+                table: {
+                  id: table.id,
+                  name: table.name,
+                  label: table.label,
+                  rowCount: table.rowCount,
+                  publishedAt: table.publishedAt
                 },
+                publishedRowCountBefore,
                 rateLimitStatus: result.rateLimitStatus,
-                message: '⚠️ Page retrieved successfully. WARNING: This page contains complex nested structures (layoutSections, widgets). Use update_page_metadata to safely update only metadata fields.'
+                message: `✓ Table "${table.label || table.name}" published - ${table.rowCount} row(s) now live${publishedRowCountBefore !== undefined ? ` (was ${publishedRowCountBefore})` : ''}.`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_update_page_metadata': {
-        if (!toolArgs.pageId || !toolArgs.pageType) {
-          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
-        }
-
-        const metadata: any = {};
-        if (toolArgs.name) metadata.name = toolArgs.name as string;
-        if (toolArgs.slug) metadata.slug = toolArgs.slug as string;
-        if (toolArgs.htmlTitle) metadata.htmlTitle = toolArgs.htmlTitle as string;
-        if (toolArgs.metaDescription) metadata.metaDescription = toolArgs.metaDescription as string;
-
-        const result = await hubspotClient.updatePageMetadata(
-          toolArgs.pageId as string,
-          toolArgs.pageType as 'site-pages' | 'landing-pages',
-          metadata
-        );
+      case 'hubspot_list_global_content': {
+        const result = await hubspotClient.listGlobalContent();
 
         if (!result.success) {
           return {
@@ -1383,37 +6066,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const page = result.data!;
-        const previewUrl = page.url ? `${page.url}?hs_preview=${page.previewKey || 'draft'}` : undefined;
-
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                contentId: page.id,
-                previewUrl,
-                updatedFields: Object.keys(metadata),
-                page: {
-                  id: page.id,
-                  name: page.name,
-                  slug: page.slug,
-                  state: page.state,
-                  htmlTitle: page.htmlTitle,
-                  metaDescription: page.metaDescription,
-                  updated: page.updated
-                },
+                total: result.data!.length,
+                globalContent: result.data!.map(({ globalContent, usage }) => ({
+                  id: globalContent.id,
+                  name: globalContent.name,
+                  label: globalContent.label,
+                  type: globalContent.type,
+                  path: globalContent.path,
+                  updated: globalContent.updated,
+                  usedByPages: usage.pages.length,
+                  pages: usage.pages
+                })),
+                scanned: result.data![0]?.usage.scanned,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Page metadata updated successfully. Changes saved to draft (not yet published). Preview at: ${previewUrl || 'N/A'}`
+                message: 'Global content is shared across pages. Pages whose templates include an element directly are not listed - treat any edit as site-wide.'
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_list_templates': {
-        const result = await hubspotClient.listTemplates();
+      case 'hubspot_get_global_content_structure': {
+        if (!toolArgs.globalContentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'globalContentId is required');
+        }
+
+        const result = await hubspotClient.getGlobalContentStructure(
+          toolArgs.globalContentId as string,
+          toolArgs.draft !== false
+        );
 
         if (!result.success) {
           return {
@@ -1430,48 +6117,50 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const data = result.data!;
+        const structure = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                count: data.results?.length || 0,
-                templates: data.results?.map(template => ({
-                  id: template.id,
-                  path: template.path,
-                  label: template.label,
-                  type: template.type,
-                  isAvailableForNewContent: template.isAvailableForNewContent
-                })) || [],
-                rateLimitStatus: result.rateLimitStatus,
-                message: `Found ${data.results?.length || 0} template(s). Use template paths when creating new pages.`
+                warning: structure.usage.warning,
+                globalContentId: structure.globalContentId,
+                name: structure.name,
+                type: structure.type,
+                path: structure.path,
+                updated: structure.updated,
+                totalWidgets: structure.totalWidgets,
+                widgets: structure.widgets,
+                usedBy: structure.usage.pages,
+                scanned: structure.usage.scanned,
+                rateLimitStatus: result.rateLimitStatus
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_create_page_from_template': {
-        if (!toolArgs.name || !toolArgs.slug || !toolArgs.templatePath) {
-          throw new McpError(ErrorCode.InvalidParams, 'name, slug, and templatePath are required');
+      case 'hubspot_update_global_content_widget': {
+        if (!toolArgs.globalContentId || !toolArgs.sectionName || toolArgs.widgetIndex === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'globalContentId, sectionName, and widgetIndex are required');
         }
 
-        const createParams: any = {
-          name: toolArgs.name as string,
-          slug: toolArgs.slug as string,
-          templatePath: toolArgs.templatePath as string
-        };
-
-        // Add optional parameters
-        if (toolArgs.domain) createParams.domain = toolArgs.domain as string;
-        if (toolArgs.htmlTitle) createParams.htmlTitle = toolArgs.htmlTitle as string;
-        if (toolArgs.metaDescription) createParams.metaDescription = toolArgs.metaDescription as string;
-
-        const pageType = (toolArgs.pageType as 'site-pages' | 'landing-pages') || 'site-pages';
-
-        const result = await hubspotClient.createPageFromTemplate(createParams, pageType);
+        const result = await hubspotClient.updateGlobalContentWidget(
+          {
+            globalContentId: toolArgs.globalContentId as string,
+            location: {
+              sectionName: toolArgs.sectionName as string,
+              rowIndex: 0,
+              columnIndex: 0,
+              widgetIndex: toolArgs.widgetIndex as number
+            },
+            html: toolArgs.html as string | undefined,
+            styles: toolArgs.styles as Record<string, any> | undefined,
+            params: toolArgs.params as Record<string, any> | undefined
+          },
+          { dryRun: toolArgs.dryRun as boolean | undefined }
+        );
 
         if (!result.success) {
           return {
@@ -1488,42 +6177,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const page = result.data!;
-        const previewUrl = page.url ? `${page.url}?hs_preview=${page.previewKey || 'draft'}` : undefined;
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
 
+        const { globalContent, usage } = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                contentId: page.id,
-                previewUrl,
-                page: {
-                  id: page.id,
-                  name: page.name,
-                  slug: page.slug,
-                  state: page.state,
-                  templatePath: page.templatePath,
-                  url: page.url
-                },
+                warning: usage.warning,
+                globalContentId: globalContent.id,
+                name: globalContent.name,
+                usedBy: usage.pages,
+                scanned: usage.scanned,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Page created successfully in DRAFT state. Preview at: ${previewUrl || 'N/A'}. Use hubspot_publish_blog_post_draft to publish when ready (or publish through HubSpot UI).`
+                message: `✓ Global content draft updated (not yet published). Publishing with hubspot_publish_global_content will change ${usage.pages.length} listed page(s) and any page whose template includes it.`
               }, null, 2)
             }
           ]
         };
       }
 
-      // Phase 5: Safe webpage content and appearance editing
-      case 'hubspot_get_page_widgets': {
-        if (!toolArgs.pageId || !toolArgs.pageType) {
-          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
+      case 'hubspot_publish_global_content': {
+        if (!toolArgs.globalContentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'globalContentId is required');
         }
 
-        const result = await hubspotClient.getPageContentStructure(
-          toolArgs.pageId as string,
-          toolArgs.pageType as 'site-pages' | 'landing-pages'
+        const result = await hubspotClient.publishGlobalContent(
+          toolArgs.globalContentId as string,
+          { dryRun: toolArgs.dryRun as boolean | undefined }
         );
 
         if (!result.success) {
@@ -1541,59 +6226,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const structure = result.data!;
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const { globalContent, usage } = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                pageId: structure.pageId,
-                pageName: structure.pageName,
-                totalWidgets: structure.totalWidgets,
-                layoutSections: structure.layoutSections,
-                widgets: structure.widgets.map(w => ({
-                  id: w.id,
-                  name: w.name,
-                  type: w.type,
-                  location: w.location,
-                  hasHtmlContent: w.hasHtmlContent,
-                  hasStyles: w.hasStyles,
-                  hasParams: w.hasParams,
-                  contentPreview: w.contentPreview
-                })),
+                warning: usage.warning,
+                globalContentId: globalContent.id,
+                name: globalContent.name,
+                usedBy: usage.pages,
+                scanned: usage.scanned,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `Found ${structure.totalWidgets} widget(s) across ${structure.layoutSections.length} layout section(s). Use the location information to target specific widgets for updates.`
+                message: `✓ "${globalContent.label || globalContent.name}" published. ${usage.pages.length} listed page(s) and any page whose template includes it now show the change.`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_update_widget_content': {
-        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.sectionName ||
-            toolArgs.rowIndex === undefined || toolArgs.columnIndex === undefined ||
-            toolArgs.widgetIndex === undefined) {
-          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, sectionName, rowIndex, columnIndex, and widgetIndex are required');
-        }
-
-        if (!toolArgs.html && !toolArgs.styles && !toolArgs.params) {
-          throw new McpError(ErrorCode.InvalidParams, 'At least one of html, styles, or params must be provided');
+      case 'hubspot_create_language_variant': {
+        if (!toolArgs.contentType || !toolArgs.contentId || !toolArgs.language) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType, contentId, and language are required');
         }
 
-        const result = await hubspotClient.updateWidgetContent({
-          pageId: toolArgs.pageId as string,
-          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
-          location: {
-            sectionName: toolArgs.sectionName as string,
-            rowIndex: toolArgs.rowIndex as number,
-            columnIndex: toolArgs.columnIndex as number,
-            widgetIndex: toolArgs.widgetIndex as number
-          },
-          html: toolArgs.html as string | undefined,
-          styles: toolArgs.styles as any,
-          params: toolArgs.params as any
-        });
+        const result = await hubspotClient.createLanguageVariation({
+          contentType: toolArgs.contentType as ContentType,
+          contentId: toolArgs.contentId as string,
+          language: toolArgs.language as string,
+          primaryLanguage: toolArgs.primaryLanguage as string | undefined
+        }, { dryRun: toolArgs.dryRun as boolean | undefined });
 
         if (!result.success) {
           return {
@@ -1610,52 +6277,47 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const data = result.data!;
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
+        const variant = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(variant);
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                pageId: data.page.id,
-                pageName: data.page.name,
-                previewUrl: data.previewUrl,
-                validation: {
-                  isValid: data.validation.isValid,
-                  widgetCountBefore: data.validation.beforeWidgetCount,
-                  widgetCountAfter: data.validation.afterWidgetCount,
-                  warnings: data.validation.warnings,
-                  errors: data.validation.errors
+                variant: {
+                  id: variant.id,
+                  name: variant.name,
+                  slug: variant.slug,
+                  language: variant.language,
+                  translatedFromId: variant.translatedFromId,
+                  state: variant.state,
+                  updated: variant.updated
                 },
+                previewUrl: preview?.previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                structure: toolArgs.contentType === 'blog-post' ? undefined : hubspotClient.getContentStructure(variant),
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Widget updated successfully. Structure validation: ${data.validation.isValid ? 'PASSED' : 'FAILED'}. ${data.validation.warnings.length > 0 ? `Warnings: ${data.validation.warnings.join(', ')}` : 'No warnings.'} Preview at: ${data.previewUrl || 'N/A'}`
+                message: `✓ "${toolArgs.language}" variant ${variant.id} created in DRAFT. It still contains the primary's text - translate it with the ${toolArgs.contentType === 'blog-post' ? 'blog post content and metadata' : 'page metadata and widget'} tools, then publish.`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_add_widget_to_page': {
-        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.sectionName ||
-            toolArgs.rowIndex === undefined || toolArgs.columnIndex === undefined ||
-            !toolArgs.widgetType || !toolArgs.widgetName) {
-          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, sectionName, rowIndex, columnIndex, widgetType, and widgetName are required');
+      case 'hubspot_list_translations': {
+        if (!toolArgs.contentType || !toolArgs.contentId) {
+          throw new McpError(ErrorCode.InvalidParams, 'contentType and contentId are required');
         }
 
-        const result = await hubspotClient.addWidget({
-          pageId: toolArgs.pageId as string,
-          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
-          location: {
-            sectionName: toolArgs.sectionName as string,
-            rowIndex: toolArgs.rowIndex as number,
-            columnIndex: toolArgs.columnIndex as number
-          },
-          widgetType: toolArgs.widgetType as string,
-          widgetName: toolArgs.widgetName as string,
-          html: toolArgs.html as string | undefined,
-          params: toolArgs.params as any,
-          styles: toolArgs.styles as any
-        });
+        const result = await hubspotClient.listTranslationGroup(
+          toolArgs.contentType as ContentType,
+          toolArgs.contentId as string
+        );
 
         if (!result.success) {
           return {
@@ -1672,47 +6334,36 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const data = result.data!;
+        const group = result.data!;
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                pageId: data.page.id,
-                widgetLocation: data.widgetLocation,
-                validation: {
-                  isValid: data.validation.isValid,
-                  widgetCountBefore: data.validation.beforeWidgetCount,
-                  widgetCountAfter: data.validation.afterWidgetCount,
-                  warnings: data.validation.warnings,
-                  errors: data.validation.errors
-                },
+                primary: group.primary,
+                variants: group.variants,
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Widget added successfully at section="${data.widgetLocation.sectionName}", row=${data.widgetLocation.rowIndex}, column=${data.widgetLocation.columnIndex}, widget=${data.widgetLocation.widgetIndex}. Widget count: ${data.validation.beforeWidgetCount} → ${data.validation.afterWidgetCount}`
+                message: `Translation group of "${group.primary.name}" (${group.primary.language || 'no language set'}): ${group.variants.length} variant(s)${group.variants.length > 0 ? ` - ${group.variants.map(variant => variant.language).join(', ')}` : ''}.`
               }, null, 2)
             }
           ]
         };
       }
 
-      case 'hubspot_remove_widget_from_page': {
-        if (!toolArgs.pageId || !toolArgs.pageType || !toolArgs.sectionName ||
-            toolArgs.rowIndex === undefined || toolArgs.columnIndex === undefined ||
-            toolArgs.widgetIndex === undefined) {
-          throw new McpError(ErrorCode.InvalidParams, 'pageId, pageType, sectionName, rowIndex, columnIndex, and widgetIndex are required');
+      case 'hubspot_sync_translation_structure': {
+        if (!toolArgs.pageId || !toolArgs.pageType) {
+          throw new McpError(ErrorCode.InvalidParams, 'pageId and pageType are required');
         }
 
-        const result = await hubspotClient.removeWidget({
-          pageId: toolArgs.pageId as string,
-          pageType: toolArgs.pageType as 'site-pages' | 'landing-pages',
-          location: {
-            sectionName: toolArgs.sectionName as string,
-            rowIndex: toolArgs.rowIndex as number,
-            columnIndex: toolArgs.columnIndex as number,
-            widgetIndex: toolArgs.widgetIndex as number
+        const result = await hubspotClient.syncTranslationStructure(
+          toolArgs.pageId as string,
+          toolArgs.pageType as 'site-pages' | 'landing-pages',
+          {
+            dryRun: toolArgs.dryRun as boolean | undefined,
+            expectedUpdated: toolArgs.expectedUpdated as string | undefined
           }
-        });
+        );
 
         if (!result.success) {
           return {
@@ -1729,14 +6380,26 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        if (result.dryRun) {
+          return dryRunToolResponse(result);
+        }
+
         const data = result.data!;
+        const preview = hubspotClient.buildPreviewUrl(data.page);
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
+                operationId: result.operationId,
                 pageId: data.page.id,
+                primaryId: data.primaryId,
+                updated: data.page.updated,
+                previewUrl: preview?.previewUrl,
+                previewRequiresLogin: preview?.requiresLogin,
+                keptLocations: data.keptLocations,
+                copiedLocations: data.copiedLocations,
                 validation: {
                   isValid: data.validation.isValid,
                   widgetCountBefore: data.validation.beforeWidgetCount,
@@ -1745,7 +6408,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   errors: data.validation.errors
                 },
                 rateLimitStatus: result.rateLimitStatus,
-                message: `✓ Widget removed successfully. Widget count: ${data.validation.beforeWidgetCount} → ${data.validation.afterWidgetCount}. Validation: ${data.validation.isValid ? 'PASSED' : 'FAILED'}`
+                message: `✓ Layout synced from primary ${data.primaryId}. Kept ${data.keptLocations.length} translated widget(s); copied ${data.copiedLocations.length} widget(s) from the primary that still need translating (see copiedLocations). Saved to DRAFT.`
               }, null, 2)
             }
           ]
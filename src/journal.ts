@@ -0,0 +1,149 @@
+/**
+ * On-disk undo journal for mutating operations
+ * Stores the before-state of every draft write so it can be PATCHed back later
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JournalEntry, SourceCodeClone } from './types.js';
+import { logger } from './logger.js';
+
+export class OperationJournal {
+  private journalDir: string;
+  private maxEntries: number;
+
+  constructor(journalDir: string, maxEntries: number = 500) {
+    this.journalDir = journalDir;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Save an entry and return its id
+   * Ids start with a millisecond timestamp so they sort chronologically
+   */
+  async record(entry: Omit<JournalEntry, 'id' | 'timestamp'>, opId: number): Promise<string | undefined> {
+    const id = `${Date.now()}-${opId}`;
+    const fullEntry: JournalEntry = {
+      id,
+      timestamp: new Date().toISOString(),
+      ...entry
+    };
+
+    try {
+      await fs.mkdir(this.journalDir, { recursive: true });
+      await fs.writeFile(this.entryPath(id), JSON.stringify(fullEntry, null, 2), 'utf8');
+      logger.debug('Journal entry recorded', { id, operation: entry.operation });
+      await this.prune();
+      return id;
+    } catch (error) {
+      // A journal failure must not fail the operation that already succeeded
+      logger.warn('Failed to record journal entry', { operation: entry.operation, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Load a single entry by id
+   */
+  async get(id: string): Promise<JournalEntry | null> {
+    if (!/^[\w-]+$/.test(id)) {
+      return null;
+    }
+
+    try {
+      const data = await fs.readFile(this.entryPath(id), 'utf8');
+      return JSON.parse(data) as JournalEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Overwrite an existing entry (used to mark entries as undone)
+   */
+  async update(entry: JournalEntry): Promise<void> {
+    await fs.writeFile(this.entryPath(entry.id), JSON.stringify(entry, null, 2), 'utf8');
+  }
+
+  /**
+   * List entries, newest first
+   */
+  async list(limit: number = 20, contentId?: string): Promise<JournalEntry[]> {
+    const ids = await this.listIds();
+    const entries: JournalEntry[] = [];
+
+    for (const id of ids) {
+      if (entries.length >= limit) break;
+      const entry = await this.get(id);
+      if (!entry) continue;
+      if (contentId && entry.contentId !== contentId) continue;
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Remember a template or module folder created by cloneSourceCode, so it can be edited later
+   * Clones live in their own folder, which pruning never touches
+   */
+  async recordSourceClone(clone: SourceCodeClone): Promise<boolean> {
+    try {
+      await fs.mkdir(this.sourceClonesDir(), { recursive: true });
+      await fs.writeFile(this.sourceClonePath(clone.path), JSON.stringify(clone, null, 2), 'utf8');
+      return true;
+    } catch (error) {
+      logger.warn('Failed to record source code clone', { path: clone.path, error });
+      return false;
+    }
+  }
+
+  /**
+   * Load the clone record for a design manager path, if cloneSourceCode created it
+   */
+  async getSourceClone(clonePath: string): Promise<SourceCodeClone | null> {
+    try {
+      const data = await fs.readFile(this.sourceClonePath(clonePath), 'utf8');
+      return JSON.parse(data) as SourceCodeClone;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Entry ids, newest first
+   */
+  private async listIds(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.journalDir);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.replace(/\.json$/, ''))
+        .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Delete the oldest entries beyond maxEntries
+   */
+  private async prune(): Promise<void> {
+    const ids = await this.listIds();
+    for (const id of ids.slice(this.maxEntries)) {
+      await fs.unlink(this.entryPath(id)).catch(() => undefined);
+    }
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.journalDir, `${id}.json`);
+  }
+
+  private sourceClonesDir(): string {
+    return path.join(this.journalDir, 'source-clones');
+  }
+
+  private sourceClonePath(clonePath: string): string {
+    return path.join(this.sourceClonesDir(), `${encodeURIComponent(clonePath)}.json`);
+  }
+}
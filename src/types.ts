@@ -6,6 +6,11 @@ export interface HubSpotConfig {
   accessToken: string;
   rateLimitSafetyMargin: number;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  journalDir: string;  // Directory for the on-disk undo journal
+  journalMaxEntries: number;  // Oldest entries beyond this are pruned
+  dryRun: boolean;  // Server-wide dry-run: no write ever reaches HubSpot
+  uploadAllowedDirs: string[];  // Local directories uploadFile may read filePath from; empty disables local uploads
+  maxUploadBytes: number;  // Uploads larger than this are refused before anything is sent
 }
 
 export interface RateLimitStatus {
@@ -25,6 +30,9 @@ export interface HubSpotError {
     message: string;
     in?: string;
   }>;
+  conflict?: ConcurrentModification;  // Set on CONCURRENT_MODIFICATION errors
+  inboundLinks?: InboundLinkReport;  // Set on INBOUND_LINKS_FOUND errors
+  confirmationToken?: string;  // Set on INBOUND_LINKS_FOUND errors; pass back to delete anyway
 }
 
 export interface HubSpotResponse<T> {
@@ -32,6 +40,9 @@ export interface HubSpotResponse<T> {
   data?: T;
   error?: HubSpotError;
   rateLimitStatus?: RateLimitStatus;
+  operationId?: string;  // Undo journal entry id, set by mutating operations
+  redirect?: SlugRedirectResult;  // Set when a slug change asked for a redirect from the old URL
+  dryRun?: DryRunPreview;  // Set instead of data when a write was skipped by dry-run mode
 }
 
 export interface TokenValidationResponse {
@@ -59,6 +70,7 @@ export interface BlogPost {
   featuredImageAltText?: string;
   authorName?: string;
   blogAuthorId?: string;
+  contentGroupId?: string;  // ID of the blog this post belongs to
   tagIds?: number[];
   publishDate?: string;
   created?: string;
@@ -74,6 +86,10 @@ export interface BlogPost {
   currentlyPublished?: boolean;
   publicAccessRulesEnabled?: boolean;
   publicAccessRules?: any[];
+  // Multi-language
+  language?: string;
+  translatedFromId?: string;  // Set on language variants; id of the primary post
+  translations?: Record<string, ContentTranslation>;  // Set on the primary, keyed by language
   widgetContainers?: any;
   widgets?: any;
   layoutSections?: any;
@@ -82,6 +98,7 @@ export interface BlogPost {
 export interface BlogPostListParams {
   limit?: number;
   offset?: number;
+  contentGroupId?: string;  // Only posts in this blog
   state?: 'DRAFT' | 'PUBLISHED' | 'SCHEDULED';
   authorName?: string;
   name?: string;
@@ -95,6 +112,11 @@ export interface PaginatedResponse<T> {
   results: T[];
   offset?: number;
   limit?: number;
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
 }
 
 export interface BlogPostUpdateMetadata {
@@ -107,6 +129,9 @@ export interface BlogPostUpdateMetadata {
   blogAuthorId?: string;
   authorName?: string;
   tagIds?: number[];
+  tagNames?: string[];  // Resolved to ids and combined with tagIds; replaces the post's tags like tagIds
+  createMissingTags?: boolean;  // Create tags named in tagNames that don't exist yet
+  createRedirect?: boolean;  // On slug change, 301 the old URL to the new one
 }
 
 export interface PublishOptions {
@@ -117,6 +142,7 @@ export interface OperationResult {
   success: boolean;
   contentId?: string;
   previewUrl?: string;
+  redirect?: SlugRedirectResult;
   message: string;
   rateLimitStatus: RateLimitStatus;
   timestamp: string;
@@ -127,13 +153,16 @@ export interface OperationResult {
 export interface BlogPostCreateParams {
   name: string;  // Internal name for the post
   slug: string;  // URL slug
-  contentGroupId?: string;  // Blog ID (optional, will use default if not specified)
+  contentGroupId?: string;  // Blog ID (required when the portal has more than one blog)
   blogAuthorId?: string;  // Author ID
+  author?: string;  // Author full name or email, resolved to blogAuthorId (ignored if blogAuthorId is set)
   htmlTitle?: string;  // SEO title
   postBody?: string;  // HTML content (optional for initial creation)
   postSummary?: string;  // Brief summary for listings
   metaDescription?: string;  // Meta description
   tagIds?: number[];  // Array of tag IDs
+  tagNames?: string[];  // Tag names, resolved to ids and combined with tagIds
+  createMissingTags?: boolean;  // Create tags named in tagNames that don't exist yet
   featuredImage?: string;  // Featured image URL
   featuredImageAltText?: string;  // Featured image alt text
 }
@@ -144,13 +173,38 @@ export interface BlogPostContentUpdate {
 }
 
 export interface FileUploadParams {
-  fileContent: string;  // Base64 encoded file content or URL
-  fileName: string;  // Name of the file
+  fileContent?: string;  // Base64 encoded file content or URL
+  filePath?: string;  // Local file inside an allowed upload directory (instead of fileContent)
+  fileName?: string;  // Name of the file; defaults to the base name of filePath
   folderPath?: string;  // Folder path in HubSpot (e.g., "/images/blog")
   access?: 'PUBLIC_INDEXABLE' | 'PUBLIC_NOT_INDEXABLE' | 'PRIVATE';
   ttl?: string;  // Time to live (e.g., "P3M" for 3 months)
+  duplicateStrategy?: FileDuplicateStrategy;  // What to do when the folder already has this file (default 'reuse')
+  imageProcessing?: ImageProcessingOptions;  // Resize/convert images before upload
+}
+
+export type ImageOutputFormat = 'webp' | 'jpeg' | 'png' | 'original';
+
+export interface ImageProcessingOptions {
+  maxWidth?: number;  // Downscale wider images to this width; smaller images are never enlarged
+  format?: ImageOutputFormat;  // Default 'original' (re-encoded in its own format)
+  quality?: number;  // 1-100 for WebP and JPEG (default 80)
+  responsiveWidths?: number[];  // Extra smaller copies for srcset, e.g. [480, 960]
+}
+
+export interface ImageVariant {
+  id: string;
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  mimeType: string;
+  reused?: boolean;
 }
 
+// reuse: return the existing file; reject: fail with DUPLICATE_FILE; force_new: upload another copy
+export type FileDuplicateStrategy = 'reuse' | 'reject' | 'force_new';
+
 export interface FileUploadResponse {
   id: string;
   url: string;  // CDN URL of the uploaded file
@@ -158,6 +212,115 @@ export interface FileUploadResponse {
   path: string;
   type: string;
   size: number;
+  contentHash?: string;  // sha256 of the uploaded bytes, computed client-side
+  mimeType?: string;  // Detected from the file's magic bytes where recognised
+  reused?: boolean;  // True when an existing file was returned instead of uploading
+  duplicateMatch?: 'hash' | 'name-size';  // How the existing file was matched
+  variants?: ImageVariant[];  // Every uploaded size, largest first (image processing only)
+  srcset?: string;  // Ready-made srcset value built from variants
+}
+
+export type FileAccess = 'PUBLIC_INDEXABLE' | 'PUBLIC_NOT_INDEXABLE' | 'HIDDEN_INDEXABLE' | 'HIDDEN_NOT_INDEXABLE' | 'HIDDEN_PRIVATE' | 'PRIVATE';
+
+export interface FileDetails extends FileUploadResponse {
+  parentFolderId?: string;
+  extension?: string;
+  encoding?: string;
+  width?: number;  // Images and videos only
+  height?: number;
+  access?: FileAccess;
+  defaultHostingUrl?: string;
+  isUsableInContent?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+  archived?: boolean;
+}
+
+export interface FileReplaceParams {
+  fileId: string;
+  fileContent?: string;  // Base64 encoded content or URL
+  filePath?: string;  // Local file inside an allowed upload directory
+}
+
+export interface FileReplaceResult {
+  file: FileDetails;  // Same id and URL, new content
+  previous: FileDetails;
+  contentHash: string;
+  mimeType?: string;
+}
+
+export interface FileUsage {
+  contentType: ContentType;
+  contentId: string;
+  name: string;
+  url?: string;
+  field: 'featuredImage' | 'postBody' | 'widget';
+  location?: WidgetLocation;  // Set for drag-and-drop widget matches
+  widgetName?: string;
+  matchedUrl: string;  // The file reference as written in the content
+}
+
+export interface FileUsageReport {
+  file: {
+    id?: string;
+    url: string;
+    path?: string;
+  };
+  usages: FileUsage[];
+  scanned: {
+    blogPosts: number;
+    sitePages: number;
+    landingPages: number;
+  };
+}
+
+export interface FileSearchParams {
+  name?: string;  // Matches anywhere in the file name
+  folderId?: string;
+  folderPath?: string;  // e.g. "/images/blog"
+  type?: 'IMG' | 'MOVIE' | 'AUDIO' | 'DOCUMENT' | 'TEXT' | 'OTHER';
+  extension?: string;  // e.g. "png"
+  size?: number;  // Exact size in bytes
+  createdAfter?: string;  // ISO timestamps
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  sort?: string;  // Field name, prefix with "-" for descending (e.g. "-updatedAt")
+  limit?: number;
+  after?: string;
+}
+
+export interface FileFolder {
+  id: string;
+  name: string;
+  path: string;
+  parentFolderId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  archived?: boolean;
+}
+
+export interface FolderCreateParams {
+  name: string;
+  parentFolderId?: string;
+  parentPath?: string;  // Used when parentFolderId is not given; root if neither is set
+}
+
+export interface FolderUpdateParams {
+  name?: string;  // Rename
+  parentFolderId?: string;  // Move
+}
+
+export interface Blog {
+  id: string;
+  name: string;
+  publicTitle?: string;
+  absoluteUrl?: string;  // Root URL of the blog listing page
+  slug?: string;
+  language?: string;
+  translatedFromId?: string;
+  created?: string;
+  updated?: string;
 }
 
 export interface BlogTag {
@@ -168,11 +331,72 @@ export interface BlogTag {
   updated?: string;
 }
 
+export interface BlogTagResolution {
+  tagIds: number[];  // Resolved ids, existing and newly created
+  created: BlogTag[];
+  pendingTags?: string[];  // Dry-run only: names that would have been created
+}
+
+export interface BlogTagMergeResult {
+  target: BlogTag;
+  updatedPosts: Array<{ postId: string; name: string; operationId?: string }>;
+  failedPosts: Array<{ postId: string; name: string; error?: HubSpotError }>;
+  deletedTagIds: number[];
+  keptTagIds: Array<{ tagId: number; publishedPosts: Array<{ postId: string; name: string }> }>;  // Still shown by live posts
+}
+
+export interface BlogTagDeleteResult {
+  tag: BlogTag;
+  deleted: boolean;  // False while published posts still show the tag or a post could not be updated
+  updatedPosts: BlogTagMergeResult['updatedPosts'];
+  failedPosts: BlogTagMergeResult['failedPosts'];
+  publishedPosts: Array<{ postId: string; name: string }>;  // Live versions that still carry the tag until republished
+}
+
+export interface BlogAuthor {
+  id: string;
+  fullName: string;
+  displayName?: string;
+  email?: string;
+  slug?: string;
+  bio?: string;
+  website?: string;
+  twitter?: string;
+  facebook?: string;
+  linkedin?: string;
+  avatar?: string;
+  language?: string;
+  translatedFromId?: string;
+  created?: string;
+  updated?: string;
+}
+
+export interface BlogAuthorCreateParams {
+  fullName: string;
+  email?: string;
+  bio?: string;
+  website?: string;
+  twitter?: string;
+  facebook?: string;
+  linkedin?: string;
+  avatar?: string;  // Avatar image URL
+}
+
+export type BlogAuthorUpdateParams = Partial<BlogAuthorCreateParams>;
+
 export interface PreviewUrlParams {
   contentId: string;
   contentType: 'blog-post' | 'site-page' | 'landing-page';
 }
 
+export interface PreviewLink {
+  previewUrl?: string;  // Missing when the content has no preview key; note says why
+  domain: string;
+  isSystemDomain: boolean;  // *.hs-sites.com style HubSpot domain rather than a connected custom domain
+  requiresLogin: boolean;  // true when the link only renders for users logged in to the portal
+  note: string;
+}
+
 // Phase 3: Page management and advanced features types
 
 export interface Page {
@@ -193,12 +417,30 @@ export interface Page {
   templatePath?: string;
   currentlyPublished?: boolean;
   archivedInDashboard?: boolean;
+  // A/B and multi-armed bandit tests
+  abTestId?: string;
+  abStatus?: AbTestStatus;
+  mabExperimentId?: string;
+  // Multi-language
+  language?: string;
+  translatedFromId?: string;  // Set on language variants; id of the primary page
+  translations?: Record<string, ContentTranslation>;  // Set on the primary, keyed by language
   // Nested content structures - handled carefully
   widgets?: any;
   widgetContainers?: any;
   layoutSections?: any;
 }
 
+export type AbTestStatus =
+  | 'MASTER'
+  | 'VARIANT'
+  | 'LOSER_VARIANT'
+  | 'MAB_MASTER'
+  | 'MAB_VARIANT'
+  | 'AUTOMATED_MASTER'
+  | 'AUTOMATED_VARIANT'
+  | 'AUTOMATED_LOSER_VARIANT';
+
 export interface PageListParams {
   pageType: 'site-pages' | 'landing-pages';
   limit?: number;
@@ -217,6 +459,7 @@ export interface PageUpdateMetadata {
   slug?: string;
   htmlTitle?: string;
   metaDescription?: string;
+  createRedirect?: boolean;  // On slug change, 301 the old URL to the new one
   // Explicitly exclude nested structures for safety
 }
 
@@ -266,6 +509,7 @@ export interface WidgetLocation {
 export interface PageContentStructure {
   pageId: string;
   pageName: string;
+  updated?: string;  // Pass as expectedUpdated to guard later writes
   widgets: Array<{
     id: string;
     name: string;
@@ -328,3 +572,413 @@ export interface StructuralValidation {
   warnings: string[];
   errors: string[];
 }
+
+// Revision history types
+
+export type ContentType = 'blog-post' | 'site-page' | 'landing-page';
+
+export interface ContentRevision<T> {
+  id: string;
+  object: T;  // Full snapshot of the content at this revision
+  updatedAt?: string;
+  user?: {
+    id: string;
+    email?: string;
+    fullName?: string;
+  };
+}
+
+export interface RevisionListParams {
+  contentType: ContentType;
+  contentId: string;
+  limit?: number;
+  after?: string;  // Paging cursor from a previous response
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface WidgetChange {
+  location: WidgetLocation;
+  widgetId?: string;
+  changeType: 'added' | 'removed' | 'modified';
+  changedProperties?: string[];  // e.g. ["body.html", "params", "styles"]
+  before?: any;
+  after?: any;
+}
+
+export interface ContentDiff {
+  fieldChanges: FieldChange[];
+  widgetChanges: WidgetChange[];
+  hasChanges: boolean;
+}
+
+// Undo journal types
+
+export interface JournalEntry {
+  id: string;
+  operation: string;  // e.g. "update_widget_content"
+  contentType: ContentType;
+  contentId: string;
+  timestamp: string;
+  details: any;
+  beforeState: BlogPost | Page;  // Snapshot PATCHed back to the draft on undo
+  undoneAt?: string;
+  undoneByOperationId?: string;
+}
+
+export interface UndoOperationResult {
+  entry: JournalEntry;
+  content: BlogPost | Page;  // The reverted draft
+  validation?: StructuralValidation;
+  redirect?: { id: string; deleted: boolean; error?: HubSpotError };  // Slug-change redirect removed by the undo
+}
+
+// Dry-run types
+
+export interface WriteOptions {
+  dryRun?: boolean;  // Run the full fetch → merge → validate pipeline but skip the write
+  expectedUpdated?: string;  // Page.updated / BlogPost.updated from the caller's read; write fails if it changed
+}
+
+export interface DryRunPreview {
+  method: string;
+  endpoint: string;
+  payload?: any;  // Exact request body that would have been sent
+  diff?: ContentDiff;  // Structured diff against the fetched state
+  changes: string[];  // Human-readable summary of the diff
+  validation?: StructuralValidation;
+}
+
+// Optimistic concurrency types
+
+export interface ConcurrentModification {
+  expectedUpdated: string;
+  actualUpdated?: string;
+  diff?: ContentDiff;  // What the other party changed, when it can be determined
+  changes: string[];  // Human-readable summary of the diff
+}
+
+// Clone types
+
+export interface CloneContentParams {
+  contentType: ContentType;
+  contentId: string;  // ID of the post or page to clone
+  name?: string;  // Name for the clone (default: HubSpot's "<name> (clone)" naming)
+  slug?: string;  // Slug for the clone
+}
+
+export interface CloneContentResult {
+  sourceId: string;
+  clone: BlogPost | Page;  // Always in DRAFT state
+  structure: PageContentStructure;
+}
+
+// Content retirement types
+
+export interface InboundReference {
+  contentType: ContentType;
+  contentId: string;
+  name: string;
+  url?: string;
+  field: 'postBody' | 'widget';
+  location?: WidgetLocation;  // Set for drag-and-drop widget matches
+  widgetName?: string;
+  matchedUrl: string;  // The link as written in the referencing content
+}
+
+export interface InboundLinkReport {
+  target: {
+    id: string;
+    name: string;
+    slug: string;
+    url?: string;
+  };
+  references: InboundReference[];
+  scanned: {
+    blogPosts: number;
+    sitePages: number;
+    landingPages: number;
+  };
+}
+
+export interface DeleteContentResult {
+  deleted: BlogPost | Page;
+  inboundLinks: InboundLinkReport;
+}
+
+// A/B test types
+
+export interface AbTestVariationResult {
+  master: Page;
+  variation: Page;
+  structure: PageContentStructure;  // Widget structure of the new variation
+}
+
+// Multi-language types
+
+export interface ContentTranslation {
+  id: string;
+  name?: string;
+  slug?: string;
+  state?: string;
+  language?: string;
+  updated?: string;
+}
+
+export interface LanguageVariationParams {
+  contentType: ContentType;
+  contentId: string;  // ID of the primary post or page
+  language: string;  // e.g. "de"
+  primaryLanguage?: string;  // Sets the primary's language if it has none yet
+}
+
+export interface TranslationGroupMember {
+  id: string;
+  language?: string;
+  name?: string;
+  slug?: string;
+  state?: string;
+  url?: string;
+}
+
+export interface TranslationGroup {
+  contentType: ContentType;
+  primary: TranslationGroupMember;
+  variants: TranslationGroupMember[];
+}
+
+export interface TranslationSyncResult {
+  page: Page;
+  primaryId: string;
+  validation: StructuralValidation;
+  keptLocations: WidgetLocation[];  // Variant widgets kept as-is (translated text preserved)
+  copiedLocations: WidgetLocation[];  // Widgets copied from the primary, still in the primary language
+}
+
+// URL redirect types
+
+export interface UrlRedirect {
+  id: string;
+  routePrefix: string;  // Path or URL being redirected
+  destination: string;
+  redirectStyle: number;  // 301 permanent, 302 temporary
+  isOnlyAfterNotFound?: boolean;  // Only redirect when the route would 404
+  isMatchFullUrl?: boolean;
+  isMatchQueryString?: boolean;
+  isPattern?: boolean;
+  isTrailingSlashOptional?: boolean;
+  isProtocolAgnostic?: boolean;
+  precedence?: number;
+  created?: string;
+  updated?: string;
+}
+
+export type UrlRedirectCreateParams = Omit<UrlRedirect, 'id' | 'created' | 'updated' | 'redirectStyle'> & {
+  redirectStyle?: number;  // Defaults to 301
+};
+
+export type UrlRedirectUpdateParams = Partial<UrlRedirectCreateParams>;
+
+export interface SlugRedirectResult {
+  from?: string;  // Old path
+  to?: string;  // New path
+  redirect?: UrlRedirect;  // Set when the redirect was created
+  skipped?: string;  // Why no redirect was needed
+  error?: HubSpotError;  // Set when creating the redirect failed; the content write itself succeeded
+}
+
+// HubDB types
+
+export interface HubDbColumnOption {
+  id: string;
+  name: string;
+  label?: string;
+}
+
+export interface HubDbColumn {
+  id: string;
+  name: string;  // Key used in row values
+  label?: string;
+  type: string;  // TEXT, NUMBER, BOOLEAN, SELECT, IMAGE, URL, RICHTEXT, FOREIGN_ID, ...
+  options?: HubDbColumnOption[];  // Choices for SELECT / MULTISELECT columns
+  foreignTableId?: string;
+}
+
+export interface HubDbTable {
+  id: string;
+  name: string;
+  label?: string;
+  columns?: HubDbColumn[];
+  rowCount?: number;
+  published?: boolean;
+  useForPages?: boolean;  // Rows drive dynamic pages
+  allowPublicApiAccess?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+  publishedAt?: string;
+}
+
+export interface HubDbRow {
+  id: string;
+  path?: string;  // Dynamic page slug when the table is used for pages
+  name?: string;  // Dynamic page title
+  childTableId?: string;
+  values: Record<string, unknown>;  // Keyed by column name
+  createdAt?: string;
+  updatedAt?: string;
+  publishedAt?: string;
+}
+
+export type HubDbFilterOperator =
+  'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte' | 'contains' | 'icontains' | 'startswith' |
+  'like' | 'not_like' | 'in' | 'not_in' | 'is_null' | 'not_null';
+
+export interface HubDbRowFilter {
+  column: string;
+  operator: HubDbFilterOperator;
+  value?: string | number | boolean | Array<string | number>;  // Omitted for is_null / not_null
+}
+
+export interface HubDbRowListParams {
+  filters?: HubDbRowFilter[];
+  sort?: string;  // Column name, prefix with "-" for descending
+  limit?: number;
+  after?: string;
+  properties?: string[];  // Only return these columns
+  draft?: boolean;  // Read the draft table instead of the published one
+}
+
+export interface HubDbRowWrite {
+  values: Record<string, unknown>;  // Column name → value; unchanged columns can be omitted on update
+  path?: string;
+  name?: string;
+  childTableId?: string;
+}
+
+export interface HubDbRowWriteResult {
+  tableId: string;
+  row: HubDbRow;
+  before?: HubDbRow;  // Draft row before an update
+}
+
+export interface HubDbPublishResult {
+  table: HubDbTable;
+  publishedRowCountBefore?: number;  // Unset if the table had never been published
+}
+
+// Global content types
+
+export interface GlobalContent {
+  id: string;
+  name: string;
+  label?: string;
+  type?: string;  // e.g. "global_module", "global_group", "global_partial"
+  path?: string;  // Source path, set for global partials
+  widget?: Widget;  // The module of a single global module
+  widgets?: Widget[];  // The modules of a global group or partial
+  updated?: number | string;
+  [key: string]: any;
+}
+
+export interface GlobalContentUsage {
+  pages: Array<{
+    contentType: ContentType;
+    contentId: string;
+    name: string;
+    url?: string;
+  }>;
+  scanned: {
+    sitePages: number;
+    landingPages: number;
+  };
+  warning: string;  // Blast-radius warning to show with any edit
+}
+
+export interface GlobalContentStructure {
+  globalContentId: string;
+  name: string;
+  type?: string;
+  path?: string;
+  updated?: number | string;
+  widgets: PageContentStructure['widgets'];  // sectionName is "widget" for a single module, "widgets" for groups and partials
+  totalWidgets: number;
+  usage: GlobalContentUsage;
+}
+
+export interface GlobalContentUpdateParams {
+  globalContentId: string;
+  location: WidgetLocation;  // From getGlobalContentStructure
+  html?: string;
+  styles?: Record<string, any>;  // Merged into the existing styles
+  params?: Record<string, any>;  // Merged into the existing params
+}
+
+export interface GlobalContentWriteResult {
+  globalContent: GlobalContent;
+  usage: GlobalContentUsage;
+}
+
+// Source code (design manager) types
+
+export type SourceCodeEnvironment = 'draft' | 'published';
+
+export interface SourceCodeMetadata {
+  id: string;  // The file's path
+  name: string;
+  folder: boolean;
+  children?: string[];  // Entries of a folder
+  hash?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  archivedAt?: number;
+}
+
+export interface SourceCodeFile {
+  path: string;
+  environment: SourceCodeEnvironment;
+  source: string;
+  metadata?: SourceCodeMetadata;
+}
+
+export interface SourceCodeValidation {
+  path: string;
+  valid: boolean;
+  errors: Array<{ message: string; [key: string]: any }>;
+}
+
+export interface TemplateUsage {
+  path: string;
+  pages: Array<{
+    contentType: ContentType;
+    contentId: string;
+    name: string;
+    url?: string;
+    state?: string;
+    reference: 'templatePath' | 'module';  // Page is built on the template, or has a widget using the module
+  }>;
+  scanned: {
+    sitePages: number;
+    landingPages: number;
+  };
+}
+
+export interface SourceCodeClone {
+  path: string;  // The cloned template, or module folder
+  clonedFrom: string;
+  clonedAt: string;
+  operationId: number;
+}
+
+export interface SourceCodeWriteResult {
+  path: string;
+  environment: 'draft';  // Writes never touch the published environment
+  metadata?: SourceCodeMetadata;
+  files?: string[];  // Every file written, when a module folder was cloned
+  validation: SourceCodeValidation;
+  clonedFrom?: string;
+  originalUsage?: TemplateUsage;  // Pages still on the original after a clone
+}